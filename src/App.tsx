@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Toaster } from 'react-hot-toast';
 import { Header } from './components/Header';
 import { LandingPage } from './components/LandingPage';
@@ -6,88 +6,175 @@ import { Dashboard } from './components/Dashboard';
 import { AuctionCard } from './components/AuctionCard';
 import { CreateAuctionModal } from './components/CreateAuctionModal';
 import { AuctionRoom } from './components/AuctionRoom';
+import { WatchlistView } from './components/WatchlistView';
+import { SavedSearchesMenu } from './components/SavedSearchesMenu';
+import { SellerProfile } from './components/SellerProfile';
+import { ProfileSettings } from './components/ProfileSettings';
 import { useAuth } from './hooks/useAuth';
+import { useAuctionSearch } from './hooks/useAuctionSearch';
+import { useCategories } from './hooks/useCategories';
+import { useAuctionFilters } from './hooks/useAuctionFilters';
+import { useWatchlist } from './hooks/useWatchlist';
+import { useRoute, navigate, goBack } from './hooks/useRoute';
+import { SORT_OPTIONS, AuctionSort, filtersToSearchParams } from './lib/auctionFilters';
+import { paths } from './lib/routes';
+import { CONDITION_OPTIONS, ItemCondition, getAttributeSchema, getConditionLabel } from './lib/attributes';
+import { removeUnusedImageFiles } from './lib/images';
 import { supabase, Database } from './lib/supabase';
-import { Search, Filter, TrendingUp } from 'lucide-react';
+import { Search, Filter, TrendingUp, FileText, Trash2, FolderTree, ArrowUpDown, X, Sparkles } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
 
-type Auction = Database['public']['Tables']['auctions']['Row'] & {
-  profiles: { full_name: string | null; email: string } | null;
-};
+type Draft = Database['public']['Tables']['auctions']['Row'];
 
 function App() {
   const { loading: authLoading } = useAuth();
   const { user } = useAuth();
-  const [auctions, setAuctions] = useState<Auction[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [editingDraft, setEditingDraft] = useState<Draft | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
-  const [selectedAuctionId, setSelectedAuctionId] = useState<string | null>(null);
-  const [currentView, setCurrentView] = useState<'landing' | 'auctions' | 'dashboard'>('landing');
-  const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState('all');
+  const { route } = useRoute();
+  const { filters, setFilter, setFilters, clearFilters } = useAuctionFilters();
+  const { auctions, loading, loadingMore, hasMore, loadMore, refresh } = useAuctionSearch(filters);
+  const {
+    categories,
+    tree: categoryTree,
+    attributes: categoryAttributes,
+    stats: categoryStats,
+    refresh: refreshCategories,
+  } = useCategories();
+  const { watchedIds, toggleWatch } = useWatchlist();
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const loadDrafts = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('auctions')
+        .select('*')
+        .eq('seller_id', user.id)
+        .eq('status', 'draft')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setDrafts(data || []);
+    } catch (error) {
+      console.error('Error loading drafts:', error);
+    }
+  }, [user]);
 
   useEffect(() => {
     if (!authLoading && user) {
-      loadAuctions();
+      loadDrafts();
     }
-  }, [authLoading, user]);
+  }, [authLoading, user, loadDrafts]);
+
+  // Fetch the next page as the end of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel) return;
 
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) {
+        loadMore();
+      }
+    }, { rootMargin: '400px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore]);
+
+  // Signed in visitors skip the landing page
   useEffect(() => {
-    if (user && currentView === 'landing') {
-      setCurrentView('auctions');
-    } else if (!user && currentView !== 'landing') {
-      setCurrentView('landing');
+    if (user && route.name === 'home') {
+      navigate(paths.auctions(), { replace: true });
     }
-  }, [user, currentView]);
+  }, [user, route.name]);
+
+  const loadAuctions = () => {
+    refresh();
+    loadDrafts();
+    refreshCategories();
+  };
+
+  const handleDeleteDraft = async (draft: Draft) => {
+    if (!confirm(`Delete the draft "${draft.title}"?`)) return;
 
-  const loadAuctions = async () => {
     try {
-      setLoading(true);
-      
-      // Update auction statuses first
-      await supabase.rpc('update_auction_status');
-      
-      const { data, error } = await supabase
-        .from('auctions')
-        .select(`
-          *,
-          profiles!auctions_seller_id_fkey (full_name, email)
-        `)
-        .order('created_at', { ascending: false });
+      // The rows go with the draft, so note the files first
+      const { data: images, error: imagesError } = await supabase
+        .from('auction_images')
+        .select('path, thumbnail_path')
+        .eq('auction_id', draft.id);
+
+      if (imagesError) throw imagesError;
+
+      const { error } = await supabase.from('auctions').delete().eq('id', draft.id);
 
       if (error) throw error;
-      setAuctions(data || []);
-    } catch (error) {
-      console.error('Error loading auctions:', error);
-    } finally {
-      setLoading(false);
+
+      try {
+        await removeUnusedImageFiles(images || []);
+      } catch (error) {
+        // Leftover files do not affect the listings
+        console.error('Failed to remove unused images:', error);
+      }
+
+      toast.success('Draft deleted');
+      loadAuctions();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete draft');
     }
   };
 
-  const filteredAuctions = auctions.filter(auction => {
-    const matchesSearch = auction.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         auction.description.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    if (statusFilter === 'all') return matchesSearch;
-    
-    const now = new Date();
-    const startTime = new Date(auction.start_time);
-    const endTime = new Date(auction.end_time);
-    
-    const isUpcoming = now < startTime;
-    const isActive = now >= startTime && now < endTime && auction.status !== 'ended';
-    const isEnded = now >= endTime || auction.status === 'ended';
-    
-    switch (statusFilter) {
-      case 'upcoming':
-        return matchesSearch && isUpcoming;
-      case 'active':
-        return matchesSearch && isActive;
-      case 'ended':
-        return matchesSearch && isEnded;
-      default:
-        return matchesSearch;
-    }
-  });
+  const statusLabels: Record<string, string> = { upcoming: 'Upcoming', active: 'Live', ended: 'Ended' };
+  const sellerProfile = auctions.find(auction => auction.seller_id === filters.sellerId)?.profiles;
+  // Fields with fixed choices can be filtered on once a category is picked
+  const attributeFacets = getAttributeSchema(categories, categoryAttributes, filters.categoryId)
+    .filter(attribute => attribute.type === 'select');
+
+  const setAttributeFilter = (key: string, value: string) => {
+    setFilters(prev => {
+      const attributes = { ...prev.attributes, [key]: value };
+      if (!value) delete attributes[key];
+      return { ...prev, attributes };
+    });
+  };
+
+  // Each active facet as a removable chip
+  const filterChips = [
+    filters.status !== 'all' && { label: statusLabels[filters.status], onRemove: () => setFilter('status', 'all') },
+    filters.categoryId && {
+      label: categories.find(category => category.id === filters.categoryId)?.name ?? 'Category',
+      onRemove: () => setFilter('categoryId', null),
+    },
+    filters.minPrice && { label: `From $${filters.minPrice}`, onRemove: () => setFilter('minPrice', '') },
+    filters.maxPrice && { label: `Up to $${filters.maxPrice}`, onRemove: () => setFilter('maxPrice', '') },
+    filters.noBids && { label: 'No bids yet', onRemove: () => setFilter('noBids', false) },
+    filters.endingSoon && { label: 'Ending within the hour', onRemove: () => setFilter('endingSoon', false) },
+    filters.sellerId && {
+      label: `Seller: ${sellerProfile?.full_name || sellerProfile?.email || 'selected seller'}`,
+      onRemove: () => setFilter('sellerId', null),
+    },
+    filters.watching && { label: 'Watching', onRemove: () => setFilter('watching', false) },
+    filters.condition && { label: getConditionLabel(filters.condition) ?? filters.condition, onRemove: () => setFilter('condition', null) },
+    filters.ships && { label: 'Ships to you', onRemove: () => setFilter('ships', false) },
+    filters.pickup && { label: 'Local pickup', onRemove: () => setFilter('pickup', false) },
+    ...Object.entries(filters.attributes).map(([key, value]) => ({
+      label: `${categoryAttributes.find(attribute => attribute.key === key)?.label ?? key}: ${value}`,
+      onRemove: () => setAttributeFilter(key, ''),
+    })),
+  ].filter((chip): chip is { label: string; onRemove: () => void } => !!chip);
+
+  // Returning to the grid restores the filters it was left with
+  const gridPath = paths.auctions(filtersToSearchParams(filters).toString());
+  const openAuction = (auctionId: string) => navigate(paths.auction(auctionId));
+
+  const closeCreateModal = () => {
+    setShowCreateModal(false);
+    setEditingDraft(null);
+  };
 
   if (authLoading) {
     return (
@@ -97,35 +184,67 @@ function App() {
     );
   }
 
+  // Every other page needs an account, the requested URL is kept and shown once signed in
   if (!user) {
     return (
       <>
-        <LandingPage onGetStarted={() => setCurrentView('auctions')} />
+        <LandingPage signInRequired={route.name !== 'home'} />
         <Toaster position="top-right" />
       </>
     );
   }
 
-  if (selectedAuctionId) {
+  if (route.name === 'auction') {
     return (
       <>
         <AuctionRoom 
-          auctionId={selectedAuctionId} 
-          onBack={() => setSelectedAuctionId(null)} 
+          auctionId={route.auctionId} 
+          onBack={() => goBack(gridPath)}
+          watching={watchedIds.has(route.auctionId)}
+          onToggleWatch={() => toggleWatch(route.auctionId)}
         />
         <Toaster position="top-right" />
       </>
     );
   }
 
-  if (currentView === 'dashboard') {
+  if (route.name === 'not_found') {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Header 
+          onCreateAuction={() => setShowCreateModal(true)}
+          onDashboard={() => navigate(paths.dashboard())}
+          onNavigateHome={() => navigate(gridPath)}
+          onWatching={() => navigate(paths.watching())}
+        />
+        <div className="text-center py-16">
+          <h3 className="text-xl font-medium text-gray-900 mb-2">Page not found</h3>
+          <button
+            onClick={() => navigate(gridPath)}
+            className="text-amber-600 font-medium hover:text-amber-700 transition-colors"
+          >
+            Browse auctions
+          </button>
+        </div>
+        <CreateAuctionModal
+          isOpen={showCreateModal}
+          onClose={() => setShowCreateModal(false)}
+          onAuctionCreated={loadAuctions}
+        />
+        <Toaster position="top-right" />
+      </div>
+    );
+  }
+
+  if (route.name === 'dashboard') {
     return (
       <>
         <Header 
           onCreateAuction={() => setShowCreateModal(true)}
-          onDashboard={() => setCurrentView('auctions')}
-          onNavigateHome={() => setCurrentView('landing')}
+          onDashboard={() => navigate(gridPath)}
+          onNavigateHome={() => navigate(gridPath)}
           dashboardButtonText="Auctions"
+          onWatching={() => navigate(paths.watching())}
         />
         <Dashboard />
         <CreateAuctionModal
@@ -138,12 +257,67 @@ function App() {
     );
   }
 
+  if (route.name === 'seller' || route.name === 'profile_settings') {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Header 
+          onCreateAuction={() => setShowCreateModal(true)}
+          onDashboard={() => navigate(gridPath)}
+          onNavigateHome={() => navigate(gridPath)}
+          dashboardButtonText="Auctions"
+          onWatching={() => navigate(paths.watching())}
+        />
+        {route.name === 'seller' ? (
+          <SellerProfile
+            sellerId={route.sellerId}
+            watchedIds={watchedIds}
+            onToggleWatch={toggleWatch}
+            onOpenAuction={openAuction}
+          />
+        ) : (
+          <ProfileSettings />
+        )}
+        <CreateAuctionModal
+          isOpen={showCreateModal}
+          onClose={() => setShowCreateModal(false)}
+          onAuctionCreated={loadAuctions}
+        />
+        <Toaster position="top-right" />
+      </div>
+    );
+  }
+
+  if (route.name === 'watching') {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Header 
+          onCreateAuction={() => setShowCreateModal(true)}
+          onDashboard={() => navigate(gridPath)}
+          onNavigateHome={() => navigate(gridPath)}
+          dashboardButtonText="Auctions"
+        />
+        <WatchlistView
+          watchedIds={watchedIds}
+          onToggleWatch={toggleWatch}
+          onOpenAuction={openAuction}
+        />
+        <CreateAuctionModal
+          isOpen={showCreateModal}
+          onClose={() => setShowCreateModal(false)}
+          onAuctionCreated={loadAuctions}
+        />
+        <Toaster position="top-right" />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Header 
         onCreateAuction={() => setShowCreateModal(true)}
-        onDashboard={() => setCurrentView('dashboard')}
-        onNavigateHome={() => setCurrentView('landing')}
+        onDashboard={() => navigate(paths.dashboard())}
+        onNavigateHome={() => navigate(gridPath)}
+        onWatching={() => navigate(paths.watching())}
       />
 
       {/* Main Content */}
@@ -156,8 +330,8 @@ function App() {
               <input
                 type="text"
                 placeholder="Search auctions..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                value={filters.query}
+                onChange={(e) => setFilter('query', e.target.value)}
                 className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
               />
             </div>
@@ -165,8 +339,8 @@ function App() {
             <div className="relative">
               <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
               <select
-                value={statusFilter}
-                onChange={(e) => setStatusFilter(e.target.value)}
+                value={filters.status}
+                onChange={(e) => setFilter('status', e.target.value)}
                 className="pl-10 pr-8 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all appearance-none bg-white"
               >
                 <option value="all">All Auctions</option>
@@ -175,9 +349,197 @@ function App() {
                 <option value="ended">Ended</option>
               </select>
             </div>
+
+            <div className="relative">
+              <FolderTree className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+              <select
+                value={filters.categoryId ?? ''}
+                onChange={(e) => {
+                  const categoryId = e.target.value || null;
+                  // Field filters belong to the category they were picked under
+                  setFilters(prev => ({ ...prev, categoryId, attributes: {} }));
+                }}
+                className="pl-10 pr-8 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all appearance-none bg-white"
+              >
+                <option value="">All Categories</option>
+                {categoryTree.map(({ category, depth }) => (
+                  <option key={category.id} value={category.id}>
+                    {'\u00a0\u00a0'.repeat(depth)}{category.name} ({categoryStats[category.id]?.live_auctions ?? 0} live)
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="relative">
+              <ArrowUpDown className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+              <select
+                value={filters.sort}
+                onChange={(e) => setFilter('sort', e.target.value as AuctionSort)}
+                className="pl-10 pr-8 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all appearance-none bg-white"
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
           </div>
+
+          <div className="flex flex-wrap items-center gap-3 mt-4">
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Min $"
+                value={filters.minPrice}
+                onChange={(e) => setFilter('minPrice', e.target.value)}
+                className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+              />
+              <span className="text-gray-400">–</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Max $"
+                value={filters.maxPrice}
+                onChange={(e) => setFilter('maxPrice', e.target.value)}
+                className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+              />
+            </div>
+
+            <button
+              onClick={() => setFilter('noBids', !filters.noBids)}
+              className={`px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                filters.noBids ? 'bg-amber-600 border-amber-600 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              No bids yet
+            </button>
+
+            <button
+              onClick={() => setFilter('endingSoon', !filters.endingSoon)}
+              className={`px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                filters.endingSoon ? 'bg-amber-600 border-amber-600 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              Ending within the hour
+            </button>
+
+            <button
+              onClick={() => setFilter('watching', !filters.watching)}
+              className={`px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                filters.watching ? 'bg-amber-600 border-amber-600 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              Watching
+            </button>
+
+            <div className="relative">
+              <Sparkles className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <select
+                value={filters.condition ?? ''}
+                onChange={(e) => setFilter('condition', (e.target.value || null) as ItemCondition | null)}
+                className="pl-9 pr-8 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all appearance-none bg-white"
+              >
+                <option value="">Any Condition</option>
+                {CONDITION_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <button
+              onClick={() => setFilter('ships', !filters.ships)}
+              className={`px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                filters.ships ? 'bg-amber-600 border-amber-600 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              Ships to you
+            </button>
+
+            <button
+              onClick={() => setFilter('pickup', !filters.pickup)}
+              className={`px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                filters.pickup ? 'bg-amber-600 border-amber-600 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              Local pickup
+            </button>
+
+            {attributeFacets.map(attribute => (
+              <select
+                key={attribute.id}
+                value={filters.attributes[attribute.key] ?? ''}
+                onChange={(e) => setAttributeFilter(attribute.key, e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all bg-white"
+              >
+                <option value="">Any {attribute.label}</option>
+                {attribute.options.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            ))}
+
+            <SavedSearchesMenu filters={filters} onApply={setFilters} />
+          </div>
+
+          {filterChips.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mt-4">
+              {filterChips.map(chip => (
+                <span key={chip.label} className="flex items-center pl-3 pr-1 py-1 rounded-full bg-amber-100 text-sm font-medium text-amber-800">
+                  {chip.label}
+                  <button
+                    onClick={chip.onRemove}
+                    className="ml-1 p-0.5 rounded-full hover:bg-amber-200 transition-colors"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              <button
+                onClick={clearFilters}
+                className="text-sm text-gray-500 hover:text-gray-700 transition-colors"
+              >
+                Clear all
+              </button>
+            </div>
+          )}
         </div>
 
+        {/* Drafts */}
+        {drafts.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-lg font-bold text-gray-900 mb-4">Your Drafts</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {drafts.map((draft) => (
+                <div key={draft.id} className="flex items-center justify-between p-4 bg-white rounded-xl shadow-sm border border-dashed border-gray-300">
+                  <button
+                    onClick={() => {
+                      setEditingDraft(draft);
+                      setShowCreateModal(true);
+                    }}
+                    className="flex items-center min-w-0 text-left"
+                  >
+                    <FileText className="w-5 h-5 mr-3 text-amber-600 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900 truncate">{draft.title}</div>
+                      <div className="text-sm text-gray-500">
+                        Started {formatDistanceToNow(new Date(draft.created_at), { addSuffix: true })}
+                      </div>
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => handleDeleteDraft(draft)}
+                    className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Auctions Grid */}
         {loading ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -193,35 +555,47 @@ function App() {
               </div>
             ))}
           </div>
-        ) : filteredAuctions.length === 0 ? (
+        ) : auctions.length === 0 ? (
           <div className="text-center py-16">
             <div className="text-gray-400 mb-4">
               <Search className="w-16 h-16 mx-auto" />
             </div>
             <h3 className="text-xl font-medium text-gray-900 mb-2">No auctions found</h3>
             <p className="text-gray-500">
-              {searchTerm || statusFilter !== 'all' 
+              {filters.query || filterChips.length > 0 
                 ? 'Try adjusting your search or filter criteria' 
                 : 'Be the first to create an auction!'}
             </p>
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredAuctions.map((auction) => (
+            {auctions.map((auction) => (
               <AuctionCard
                 key={auction.id}
                 auction={auction}
-                onClick={() => setSelectedAuctionId(auction.id)}
+                categoryName={categories.find(category => category.id === auction.category_id)?.name}
+                onClick={() => openAuction(auction.id)}
+                watching={watchedIds.has(auction.id)}
+                onToggleWatch={auction.seller_id === user.id ? undefined : () => toggleWatch(auction.id)}
               />
             ))}
           </div>
         )}
+
+        {hasMore && !loading && (
+          <div ref={loadMoreRef} className="flex justify-center py-8">
+            {loadingMore && (
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-amber-600"></div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Modals */}
       <CreateAuctionModal
         isOpen={showCreateModal}
-        onClose={() => setShowCreateModal(false)}
+        draft={editingDraft}
+        onClose={closeCreateModal}
         onAuctionCreated={loadAuctions}
       />
 
@@ -1,37 +1,66 @@
 import React from 'react';
-import { Clock, DollarSign, User, Calendar } from 'lucide-react';
+import { Clock, DollarSign, User, Calendar, Eye } from 'lucide-react';
 import { format, formatDistanceToNow, isBefore, isAfter } from 'date-fns';
-import { Database } from '../lib/supabase';
+import { PublishedAuction } from '../lib/supabase';
+import { getDutchPrice, isSealedAuction } from '../lib/bidding';
+import { getImageUrl } from '../lib/images';
+import { paths } from '../lib/routes';
+import { Link } from './Link';
 
-type Auction = Database['public']['Tables']['auctions']['Row'] & {
+type Auction = PublishedAuction & {
   profiles: { full_name: string | null; email: string } | null;
+  bid_count: number;
+  cover_image: string | null;
 };
 
 interface AuctionCardProps {
   auction: Auction;
+  categoryName?: string;
   onClick: () => void;
+  watching?: boolean;
+  onToggleWatch?: () => void;
 }
 
-export function AuctionCard({ auction, onClick }: AuctionCardProps) {
+export function AuctionCard({ auction, categoryName, onClick, watching = false, onToggleWatch }: AuctionCardProps) {
   const now = new Date();
   const startTime = new Date(auction.start_time);
   const endTime = new Date(auction.end_time);
   
-  const isUpcoming = isBefore(now, startTime);
-  const isActive = isAfter(now, startTime) && isBefore(now, endTime);
-  const isEnded = isAfter(now, endTime) || auction.status === 'ended';
+  const isCancelled = auction.status === 'cancelled';
+  const isUpcoming = isBefore(now, startTime) && !isCancelled;
+  const isActive = isAfter(now, startTime) && isBefore(now, endTime) && !isCancelled;
+  const isEnded = (isAfter(now, endTime) || auction.status === 'ended') && !isCancelled;
+
+  const isDutch = auction.auction_type === 'dutch';
+  const isSealed = isSealedAuction(auction.auction_type);
+  const displayPrice = isDutch && isActive
+    ? getDutchPrice(auction)
+    : auction.highest_bid > 0 ? auction.highest_bid : auction.starting_price;
+
+  const priceLabel = isDutch
+    ? isActive ? 'Current Price · Dropping' : auction.highest_bid > 0 ? 'Sold For' : 'Start Price'
+    : isSealed
+      ? auction.highest_bid > 0 ? 'Winning Price' : 'Minimum Bid · Sealed'
+      : auction.quantity > 1
+        ? `${auction.highest_bid > 0 ? 'Clearing Price' : 'Starting Price'} · ${auction.quantity} units`
+        : auction.auction_type === 'reverse'
+          ? auction.highest_bid > 0 ? 'Lowest Bid · Reverse' : 'Maximum Price · Reverse'
+          : auction.highest_bid > 0 ? 'Current Bid' : 'Starting Price';
 
   const getStatusColor = () => {
     if (isUpcoming) return 'bg-blue-100 text-blue-800';
     if (isActive) return 'bg-green-100 text-green-800';
     if (isEnded) return 'bg-gray-100 text-gray-800';
+    if (isCancelled) return 'bg-red-100 text-red-800';
     return 'bg-gray-100 text-gray-800';
   };
 
   const getStatusText = () => {
     if (isUpcoming) return 'Upcoming';
     if (isActive) return 'Live';
+    if (isEnded && auction.result === 'reserve_not_met') return 'Ended – Reserve Not Met';
     if (isEnded) return 'Ended';
+    if (isCancelled) return 'Cancelled';
     return 'Draft';
   };
 
@@ -47,16 +76,58 @@ export function AuctionCard({ auction, onClick }: AuctionCardProps) {
       onClick={onClick}
       className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-lg transition-all duration-300 cursor-pointer group"
     >
-      <div className="aspect-video bg-gradient-to-br from-amber-50 to-orange-100 flex items-center justify-center">
-        <div className="text-center">
-          <DollarSign className="w-12 h-12 text-amber-600 mx-auto mb-2" />
-          <div className="text-2xl font-bold text-amber-800">
-            ${auction.highest_bid > 0 ? auction.highest_bid : auction.starting_price}
+      <div className="relative aspect-video bg-gradient-to-br from-amber-50 to-orange-100 flex items-center justify-center">
+        {auction.cover_image && (
+          <img
+            src={getImageUrl(auction.cover_image)}
+            alt={auction.title}
+            loading="lazy"
+            className="absolute inset-0 w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+          />
+        )}
+
+        {onToggleWatch && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleWatch();
+            }}
+            title={watching ? 'Stop watching' : 'Watch this auction'}
+            className={`absolute top-3 right-3 p-2 rounded-full shadow-sm transition-colors ${
+              watching ? 'bg-amber-600 text-white hover:bg-amber-700' : 'bg-white/80 text-gray-600 hover:text-amber-600'
+            }`}
+          >
+            <Eye className="w-4 h-4" />
+          </button>
+        )}
+
+        {auction.cover_image ? (
+          // The photo takes the space, the price moves into a badge over it
+          <div className="absolute bottom-3 left-3 px-3 py-1 rounded-lg bg-white/90 shadow-sm">
+            <div className="text-lg font-bold text-amber-800">
+              ${displayPrice}
+            </div>
+            <div className="text-xs text-amber-600">{priceLabel}</div>
+            {auction.buy_now_price !== null && !isEnded && (
+              <div className="text-xs font-medium text-green-700">
+                Buy It Now ${auction.buy_now_price.toFixed(2)}
+              </div>
+            )}
           </div>
-          <div className="text-sm text-amber-600">
-            {auction.highest_bid > 0 ? 'Current Bid' : 'Starting Price'}
+        ) : (
+          <div className="text-center">
+            <DollarSign className="w-12 h-12 text-amber-600 mx-auto mb-2" />
+            <div className="text-2xl font-bold text-amber-800">
+              ${displayPrice}
+            </div>
+            <div className="text-sm text-amber-600">{priceLabel}</div>
+            {auction.buy_now_price !== null && !isEnded && (
+              <div className="mt-1 text-sm font-medium text-green-700">
+                Buy It Now ${auction.buy_now_price.toFixed(2)}
+              </div>
+            )}
           </div>
-        </div>
+        )}
       </div>
 
       <div className="p-6">
@@ -72,6 +143,12 @@ export function AuctionCard({ auction, onClick }: AuctionCardProps) {
           )}
         </div>
 
+        {categoryName && (
+          <div className="text-xs font-medium uppercase tracking-wide text-amber-700 mb-1">
+            {categoryName}
+          </div>
+        )}
+
         <h3 className="text-xl font-bold text-gray-900 mb-2 group-hover:text-amber-600 transition-colors">
           {auction.title}
         </h3>
@@ -83,7 +160,14 @@ export function AuctionCard({ auction, onClick }: AuctionCardProps) {
         <div className="space-y-2">
           <div className="flex items-center text-sm text-gray-500">
             <User className="w-4 h-4 mr-2" />
-            Seller: {auction.profiles?.full_name || auction.profiles?.email || 'Anonymous'}
+            {auction.auction_type === 'reverse' ? 'Buyer' : 'Seller'}:
+            <Link
+              to={paths.seller(auction.seller_id)}
+              onClick={(e) => e.stopPropagation()}
+              className="ml-1 truncate hover:text-amber-600 hover:underline transition-colors"
+            >
+              {auction.profiles?.full_name || auction.profiles?.email || 'Anonymous'}
+            </Link>
           </div>
           
           <div className="flex items-center text-sm text-gray-500">
@@ -93,12 +177,16 @@ export function AuctionCard({ auction, onClick }: AuctionCardProps) {
 
           <div className="flex items-center justify-between text-sm">
             <span className="text-gray-500">
-              Increment: ${auction.bid_increment}
+              {isDutch ? `Drops $${auction.price_decrement} every ${auction.decrement_interval_minutes} min` : auction.use_increment_tiers ? 'Tiered increments' : `Increment: $${auction.bid_increment}`}
+              {auction.has_reserve && !(isSealed && !isEnded) && (
+                <span className={`ml-2 ${auction.reserve_met ? 'text-green-600' : 'text-orange-600'}`}>
+                  · Reserve {auction.reserve_met ? 'met' : 'not met'}
+                </span>
+              )}
             </span>
-            {auction.highest_bid > 0 && (
+            {auction.bid_count > 0 && (
               <span className="text-green-600 font-medium">
-                {/* Calculate number of bids based on increment */}
-                {Math.floor((auction.highest_bid - auction.starting_price) / auction.bid_increment) + 1} bids
+                {auction.bid_count} {auction.bid_count === 1 ? 'bid' : 'bids'}
               </span>
             )}
           </div>
@@ -1,16 +1,48 @@
-import React, { useState, useEffect } from 'react';
-import { ArrowLeft, User, Clock, DollarSign, TrendingUp, AlertCircle, Gavel } from 'lucide-react';
-import { supabase, Database } from '../lib/supabase';
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, User, Clock, DollarSign, TrendingUp, AlertCircle, Gavel, Settings, Ban, RotateCcw, Copy, History, FolderTree, Tag, Eye, EyeOff, Package } from 'lucide-react';
+import { supabase, Database, PublishedAuction, PlaceBidResult } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { useCategories } from '../hooks/useCategories';
+import { getCategoryPath } from '../lib/categories';
+import { paths } from '../lib/routes';
+import { ShippingOption, getAttributeSchema, getConditionLabel, getReturnsLabel } from '../lib/attributes';
 import { CountdownTimer } from './CountdownTimer';
+import { OfferDecisionPanel } from './OfferDecisionPanel';
+import { ManageAuctionModal } from './ManageAuctionModal';
+import { CreateAuctionModal } from './CreateAuctionModal';
+import { ImageGallery } from './ImageGallery';
+import { Link } from './Link';
+import {
+  getDutchPrice,
+  getNextDutchDrop,
+  isSealedAuction,
+  rankStandingBids,
+  getBidIncrement,
+  getNextMinimumBid,
+  canRetractBid,
+  RETRACTION_WINDOW_MINUTES,
+  allocateLot,
+  getLotMinimumBid,
+  getNextMaximumBid,
+} from '../lib/bidding';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
 import { formatDistanceToNow, format, isBefore, isAfter } from 'date-fns';
 
-type Auction = Database['public']['Tables']['auctions']['Row'] & {
+type Auction = PublishedAuction & {
   profiles: { full_name: string | null; email: string } | null;
 };
 
+type Offer = Database['public']['Tables']['auction_offers']['Row'];
+
+type Draft = Database['public']['Tables']['auctions']['Row'];
+
+type RelatedListing = Pick<PublishedAuction, 'id' | 'title' | 'status' | 'start_time' | 'end_time'>;
+
+type IncrementTier = Database['public']['Tables']['bid_increment_tiers']['Row'];
+
+type AuctionImage = Database['public']['Tables']['auction_images']['Row'];
+
 type Bid = Database['public']['Tables']['bids']['Row'] & {
   profiles: { full_name: string | null; email: string } | null;
 };
@@ -18,19 +50,43 @@ type Bid = Database['public']['Tables']['bids']['Row'] & {
 interface AuctionRoomProps {
   auctionId: string;
   onBack: () => void;
+  watching: boolean;
+  onToggleWatch: () => void;
 }
 
-export function AuctionRoom({ auctionId, onBack }: AuctionRoomProps) {
+export function AuctionRoom({ auctionId, onBack, watching, onToggleWatch }: AuctionRoomProps) {
   const { user } = useAuth();
+  const { categories, attributes: categoryAttributes } = useCategories();
   const [auction, setAuction] = useState<Auction | null>(null);
   const [bids, setBids] = useState<Bid[]>([]);
   const [bidAmount, setBidAmount] = useState('');
+  const [bidQuantity, setBidQuantity] = useState('1');
+  const [autoBid, setAutoBid] = useState(false);
+  const [maxBid, setMaxBid] = useState<number | null>(null);
+  const [reservePrice, setReservePrice] = useState<number | null>(null);
+  const [offer, setOffer] = useState<Offer | null>(null);
+  const [incrementTiers, setIncrementTiers] = useState<IncrementTier[]>([]);
+  const [images, setImages] = useState<AuctionImage[]>([]);
+  const [shippingOptions, setShippingOptions] = useState<ShippingOption[]>([]);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [, setDutchTick] = useState(0);
+  const [showManageModal, setShowManageModal] = useState(false);
+  const [relistedFrom, setRelistedFrom] = useState<RelatedListing | null>(null);
+  const [relistings, setRelistings] = useState<RelatedListing[]>([]);
+  const [copyDraft, setCopyDraft] = useState<Draft | null>(null);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
+  // Kept until the server answers, so a double-click or a retry can't place the bid twice
+  const bidRequestKey = useRef<string | null>(null);
 
   useEffect(() => {
     loadAuction();
     loadBids();
+    loadMaxBid();
+    loadOffer();
+    loadUserRole();
+    loadImages();
+    loadShippingOptions();
     
     // Subscribe to real-time updates
     const auctionSubscription = supabase
@@ -45,6 +101,9 @@ export function AuctionRoom({ auctionId, onBack }: AuctionRoomProps) {
         },
         (payload) => {
           setAuction(prev => prev ? { ...prev, ...payload.new } : null);
+          if (payload.new.status === 'ended') {
+            loadOffer();
+          }
         }
       )
       .subscribe();
@@ -54,13 +113,14 @@ export function AuctionRoom({ auctionId, onBack }: AuctionRoomProps) {
       .on(
         'postgres_changes',
         {
-          event: 'INSERT',
+          event: '*',
           schema: 'public',
           table: 'bids',
           filter: `auction_id=eq.${auctionId}`,
         },
         (payload) => {
           loadBids(); // Reload bids to get profile info
+          loadMaxBid();
         }
       )
       .subscribe();
@@ -69,7 +129,7 @@ export function AuctionRoom({ auctionId, onBack }: AuctionRoomProps) {
       auctionSubscription.unsubscribe();
       bidsSubscription.unsubscribe();
     };
-  }, [auctionId]);
+  }, [auctionId, user]);
 
   const loadAuction = async () => {
     try {
@@ -84,6 +144,18 @@ export function AuctionRoom({ auctionId, onBack }: AuctionRoomProps) {
 
       if (error) throw error;
       setAuction(data);
+
+      if (data.has_reserve && user?.id === data.seller_id) {
+        loadReservePrice();
+      } else {
+        setReservePrice(null);
+      }
+
+      if (data.use_increment_tiers) {
+        loadIncrementTiers();
+      }
+
+      loadListingHistory(data.relisted_from, data.seller_id);
     } catch (error: any) {
       toast.error('Failed to load auction');
       console.error(error);
@@ -110,32 +182,317 @@ export function AuctionRoom({ auctionId, onBack }: AuctionRoomProps) {
     }
   };
 
+  const placeBid = async (amount: number, quantity = 1, autoBid = false) => {
+    if (!bidRequestKey.current) {
+      bidRequestKey.current = crypto.randomUUID();
+    }
+
+    const { data, error } = await supabase.rpc('place_bid', {
+      p_auction_id: auctionId,
+      p_amount: amount,
+      p_idempotency_key: bidRequestKey.current,
+      p_quantity: quantity,
+      p_auto_bid: autoBid,
+    });
+
+    if (error) throw error;
+
+    bidRequestKey.current = null;
+    return data as PlaceBidResult;
+  };
+
+  // Shows the outcome of place_bid(), returns whether the bid was accepted
+  const reportBidResult = (result: PlaceBidResult, successMessage: string) => {
+    switch (result.status) {
+      case 'accepted':
+        toast.success(successMessage);
+        return true;
+      case 'outbid_by_proxy':
+        toast.error('maximum_bid' in result
+          ? `Another bidder underbid you. Maximum bid is now $${result.maximum_bid.toFixed(2)}`
+          : `Another bidder's automatic bid outbid you. Minimum bid is now $${result.minimum_bid.toFixed(2)}`);
+        return false;
+      case 'too_low':
+        toast.error(`Minimum bid is $${result.minimum_bid.toFixed(2)}`);
+        return false;
+      case 'too_high':
+        toast.error(`Maximum bid is $${result.maximum_bid.toFixed(2)}`);
+        return false;
+      case 'auction_closed':
+        toast.error('This auction is no longer taking bids');
+        return false;
+    }
+  };
+
+  const handleTakeDutchPrice = async () => {
+    if (!user || !auction) return;
+
+    const price = getDutchPrice(auction);
+    if (!confirm(`Buy "${auction.title}" at the current price of $${price.toFixed(2)}? This ends the auction.`)) return;
+
+    setSubmitting(true);
+    try {
+      reportBidResult(await placeBid(price), 'You bought it! The auction has ended.');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to buy at the current price');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRetractBid = async (bid: Bid) => {
+    const reason = prompt(
+      isAdmin && bid.bidder_id !== user?.id
+        ? `Why are you retracting this $${bid.amount.toFixed(2)} bid?`
+        : `Why are you retracting your $${bid.amount.toFixed(2)} bid? Any automatic bidding you set up on this auction is cancelled too.`
+    );
+    if (!reason?.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('retract_bid', {
+        p_bid_id: bid.id,
+        p_reason: reason.trim(),
+      });
+
+      if (error) throw error;
+
+      toast.success('Bid retracted');
+      loadBids();
+      loadMaxBid();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to retract bid');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleBuyNow = async () => {
+    if (!user || !auction?.buy_now_price) return;
+    if (!confirm(`Buy "${auction.title}" now for $${auction.buy_now_price.toFixed(2)}? This ends the auction.`)) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('buy_now', { p_auction_id: auctionId });
+
+      if (error) throw error;
+
+      toast.success('You bought it! The auction has ended.');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to buy now');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const loadOffer = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('auction_offers')
+        .select('*')
+        .eq('auction_id', auctionId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setOffer(data);
+    } catch (error: any) {
+      console.error('Failed to load seller decision:', error);
+    }
+  };
+
+  // The listing this one relists and the listings that relisted it, only ever the same seller's
+  const loadListingHistory = async (relistedFromId: string | null, sellerId: string) => {
+    try {
+      const [{ data: original, error: originalError }, { data: relists, error: relistsError }] = await Promise.all([
+        relistedFromId
+          ? supabase
+            .from('auctions')
+            .select('id, title, status, start_time, end_time')
+            .eq('id', relistedFromId)
+            .eq('seller_id', sellerId)
+            .maybeSingle()
+          : Promise.resolve({ data: null, error: null }),
+        supabase
+          .from('auctions')
+          .select('id, title, status, start_time, end_time')
+          .eq('relisted_from', auctionId)
+          .eq('seller_id', sellerId)
+          .neq('status', 'draft')
+          .order('created_at', { ascending: true }),
+      ]);
+
+      if (originalError) throw originalError;
+      if (relistsError) throw relistsError;
+
+      setRelistedFrom(original);
+      setRelistings(relists || []);
+    } catch (error: any) {
+      console.error('Failed to load listing history:', error);
+    }
+  };
+
+  const loadUserRole = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single();
+
+      if (error) throw error;
+      setIsAdmin(data.role === 'admin');
+    } catch (error: any) {
+      console.error('Failed to load user role:', error);
+    }
+  };
+
+  const loadImages = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('auction_images')
+        .select('*')
+        .eq('auction_id', auctionId)
+        .order('position', { ascending: true });
+
+      if (error) throw error;
+      setImages(data || []);
+    } catch (error: any) {
+      console.error('Failed to load images:', error);
+    }
+  };
+
+  const loadShippingOptions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('auction_shipping_options')
+        .select('*')
+        .eq('auction_id', auctionId)
+        .order('position', { ascending: true });
+
+      if (error) throw error;
+      setShippingOptions(data || []);
+    } catch (error: any) {
+      console.error('Failed to load shipping options:', error);
+    }
+  };
+
+  const loadIncrementTiers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('bid_increment_tiers')
+        .select('*')
+        .or(`auction_id.eq.${auctionId},auction_id.is.null`);
+
+      if (error) throw error;
+      setIncrementTiers(data || []);
+    } catch (error: any) {
+      console.error('Failed to load increment tiers:', error);
+    }
+  };
+
+  const loadReservePrice = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('auction_reserves')
+        .select('reserve_price')
+        .eq('auction_id', auctionId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setReservePrice(data?.reserve_price ?? null);
+    } catch (error: any) {
+      console.error('Failed to load reserve price:', error);
+    }
+  };
+
+  const loadMaxBid = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('max_bids')
+        .select('max_amount')
+        .eq('auction_id', auctionId)
+        .eq('bidder_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setMaxBid(data?.max_amount ?? null);
+    } catch (error: any) {
+      console.error('Failed to load maximum bid:', error);
+    }
+  };
+
+  // Relist and duplicate both start a draft the seller reviews before publishing
+  const handleCopyAuction = async (rpc: 'relist_auction' | 'duplicate_auction') => {
+    try {
+      const { data: draftId, error } = await supabase.rpc(rpc, { p_auction_id: auctionId });
+
+      if (error) throw error;
+
+      const { data: draft, error: draftError } = await supabase
+        .from('auctions')
+        .select('*')
+        .eq('id', draftId)
+        .single();
+
+      if (draftError) throw draftError;
+      setCopyDraft(draft);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to copy auction');
+    }
+  };
+
   const handlePlaceBid = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user || !auction) return;
 
     const amount = parseFloat(bidAmount);
-    const minimumBid = auction.highest_bid > 0 
-      ? auction.highest_bid + auction.bid_increment 
-      : auction.starting_price;
+    const isLot = auction.quantity > 1;
+    const minimumBid = isLot
+      ? getLotMinimumBid(auction, bids, incrementTiers, user.id)
+      : getNextMinimumBid(auction, incrementTiers);
+    const isLeading = auction.highest_bidder_id === user.id;
+
+    if (autoBid && maxBid !== null && amount <= maxBid) {
+      toast.error(`Your maximum is already $${maxBid.toFixed(2)}`);
+      return;
+    }
 
-    if (amount < minimumBid) {
+    if (auction.auction_type === 'reverse') {
+      const maximumBid = getNextMaximumBid(auction, incrementTiers);
+
+      if (amount > maximumBid) {
+        toast.error(`Maximum bid is $${maximumBid.toFixed(2)}`);
+        return;
+      }
+    } else if (amount < minimumBid && !(autoBid && isLeading)) {
       toast.error(`Minimum bid is $${minimumBid.toFixed(2)}`);
       return;
     }
 
     setSubmitting(true);
     try {
-      const { error } = await supabase.from('bids').insert({
-        auction_id: auctionId,
-        bidder_id: user.id,
-        amount,
-      });
+      const result = await placeBid(amount, isLot ? parseInt(bidQuantity) : 1, autoBid);
+      const accepted = reportBidResult(
+        result,
+        autoBid
+          ? 'Maximum bid set!'
+          : isSealedAuction(auction.auction_type) ? 'Sealed bid submitted!' : 'Bid placed successfully!'
+      );
 
-      if (error) throw error;
+      if (accepted) {
+        setBidAmount('');
+      }
 
-      toast.success('Bid placed successfully!');
-      setBidAmount('');
+      // A maximum that was outbid straight away is still stored
+      if (autoBid) {
+        loadMaxBid();
+      }
     } catch (error: any) {
       toast.error(error.message || 'Failed to place bid');
     } finally {
@@ -155,14 +512,58 @@ export function AuctionRoom({ auctionId, onBack }: AuctionRoomProps) {
   const startTime = new Date(auction.start_time);
   const endTime = new Date(auction.end_time);
   
-  const isUpcoming = isBefore(now, startTime);
-  const isActive = isAfter(now, startTime) && isBefore(now, endTime);
-  const isEnded = isAfter(now, endTime) || auction.status === 'ended';
+  const isCancelled = auction.status === 'cancelled';
+  const isUpcoming = isBefore(now, startTime) && !isCancelled;
+  const isActive = isAfter(now, startTime) && isBefore(now, endTime) && !isCancelled;
+  const isEnded = (isAfter(now, endTime) || auction.status === 'ended') && !isCancelled;
+
+  const isDutch = auction.auction_type === 'dutch';
+  const nextDutchDrop = isDutch && isActive ? getNextDutchDrop(auction) : null;
 
-  const currentPrice = auction.highest_bid > 0 ? auction.highest_bid : auction.starting_price;
-  const nextMinBid = isActive ? (auction.highest_bid > 0 ? auction.highest_bid + auction.bid_increment : auction.starting_price) : 0;
+  // Until close a sealed auction only shows the viewer their own bids
+  const isSealed = isSealedAuction(auction.auction_type);
+  const bidsSealed = isSealed && !isEnded;
+  const historyBids = isSealed ? rankStandingBids(bids) : bids;
+  const activeBids = historyBids.filter(bid => !bid.retracted_at);
+  const mySealedBid = bidsSealed ? historyBids[0] ?? null : null;
+
+  const currentPrice = isDutch && isActive
+    ? getDutchPrice(auction)
+    : auction.highest_bid > 0 ? auction.highest_bid : auction.starting_price;
+  // Lots sell identical units at one clearing price, see allocateLot()
+  const isLot = auction.quantity > 1;
+  const lotAllocations = isLot ? allocateLot(bids, auction.quantity) : [];
+  const myStandingBid = isLot ? rankStandingBids(bids.filter(bid => bid.bidder_id === user?.id))[0] ?? null : null;
+  const myLotUnits = lotAllocations.find(allocation => allocation.bid.bidder_id === user?.id)?.allocated ?? 0;
+  const leadingBid = isLot ? lotAllocations[0]?.bid : activeBids[0];
+  const isWinningBid = (bid: Bid) => isLot
+    ? lotAllocations.some(allocation => allocation.bid.id === bid.id)
+    : bid.id === activeBids[0]?.id;
+
+  const nextMinBid = isActive
+    ? isLot ? getLotMinimumBid(auction, bids, incrementTiers, user?.id ?? '') : getNextMinimumBid(auction, incrementTiers)
+    : 0;
+
+  // Reverse auctions are bid down, the buyer posted the request
+  const isReverse = auction.auction_type === 'reverse';
+  const nextMaxBid = isActive && isReverse ? getNextMaximumBid(auction, incrementTiers) : 0;
+  const currentIncrement = getBidIncrement(auction, incrementTiers, auction.highest_bid);
 
   const canBid = user && isActive && user.id !== auction.seller_id;
+  const canManage = user?.id === auction.seller_id && (isUpcoming || isActive) && auction.status !== 'ended';
+  // Unsold covers a declined top bid as well as no sale at all
+  const isUnsold = auction.result !== 'sold' ||
+    (offer !== null && ['rejected', 'counter_declined', 'counter_expired'].includes(offer.status));
+  const canRelist = user?.id === auction.seller_id && (isEnded || isCancelled) && isUnsold && relistings.length === 0;
+  const canBuyNow = canBid && auction.buy_now_price !== null &&
+    auction.highest_bid < auction.buy_now_price * auction.buy_now_cutoff_percent / 100;
+
+  // Category fields in the order the category lists them
+  const itemAttributes = getAttributeSchema(categories, categoryAttributes, auction.category_id)
+    .filter(attribute => auction.attributes[attribute.key])
+    .map(attribute => ({ label: attribute.label, value: auction.attributes[attribute.key] }));
+  const hasItemDetails = !!auction.condition || !!auction.returns_policy || !!auction.pickup_location ||
+    itemAttributes.length > 0 || shippingOptions.length > 0;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -178,15 +579,60 @@ export function AuctionRoom({ auctionId, onBack }: AuctionRoomProps) {
               Back to Auctions
             </button>
 
-            {isActive && (
-              <CountdownTimer
-                targetDate={endTime}
-                onComplete={() => {
-                  setAuction(prev => prev ? { ...prev, status: 'ended' } : null);
-                  toast.success('Auction has ended!');
-                }}
-              />
-            )}
+            <div className="flex items-center space-x-4">
+              {user?.id !== auction.seller_id && (
+                <button
+                  onClick={onToggleWatch}
+                  className={`flex items-center px-4 py-2 border rounded-lg font-medium transition-colors ${
+                    watching ? 'border-amber-600 text-amber-600 hover:bg-amber-50' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {watching ? <EyeOff className="w-4 h-4 mr-2" /> : <Eye className="w-4 h-4 mr-2" />}
+                  {watching ? 'Unwatch' : 'Watch'}
+                </button>
+              )}
+
+              {canManage && (
+                <button
+                  onClick={() => setShowManageModal(true)}
+                  className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+                >
+                  <Settings className="w-4 h-4 mr-2" />
+                  Manage
+                </button>
+              )}
+
+              {canRelist && (
+                <button
+                  onClick={() => handleCopyAuction('relist_auction')}
+                  className="flex items-center px-4 py-2 bg-amber-600 text-white rounded-lg font-medium hover:bg-amber-700 transition-colors"
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Relist
+                </button>
+              )}
+
+              {user?.id === auction.seller_id && (
+                <button
+                  onClick={() => handleCopyAuction('duplicate_auction')}
+                  className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+                >
+                  <Copy className="w-4 h-4 mr-2" />
+                  Duplicate
+                </button>
+              )}
+
+              {isActive && (
+                <CountdownTimer
+                  targetDate={endTime}
+                  extended={auction.extended_minutes > 0}
+                  onComplete={() => {
+                    setAuction(prev => prev ? { ...prev, status: 'ended' } : null);
+                    toast.success('Auction has ended!');
+                  }}
+                />
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -195,6 +641,8 @@ export function AuctionRoom({ auctionId, onBack }: AuctionRoomProps) {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6">
+            <ImageGallery images={images} title={auction.title} />
+
             {/* Auction Header */}
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
               <div className="flex items-start justify-between mb-4">
@@ -202,21 +650,56 @@ export function AuctionRoom({ auctionId, onBack }: AuctionRoomProps) {
                   <h1 className="text-3xl font-bold text-gray-900 mb-2">{auction.title}</h1>
                   <div className="flex items-center text-sm text-gray-500">
                     <User className="w-4 h-4 mr-1" />
-                    Sold by: {auction.profiles?.full_name || auction.profiles?.email}
+                    {isReverse ? 'Requested by' : 'Sold by'}:
+                    <Link
+                      to={paths.seller(auction.seller_id)}
+                      className="ml-1 hover:text-amber-600 hover:underline transition-colors"
+                    >
+                      {auction.profiles?.full_name || auction.profiles?.email}
+                    </Link>
                   </div>
+                  {auction.category_id && categories.length > 0 && (
+                    <div className="flex items-center text-sm text-gray-500 mt-1">
+                      <FolderTree className="w-4 h-4 mr-1" />
+                      {getCategoryPath(categories, auction.category_id)}
+                    </div>
+                  )}
                 </div>
                 
                 <div className={`px-3 py-1 rounded-full text-sm font-medium ${
                   isUpcoming ? 'bg-blue-100 text-blue-800' :
                   isActive ? 'bg-green-100 text-green-800 animate-pulse' :
+                  isCancelled ? 'bg-red-100 text-red-800' :
                   'bg-gray-100 text-gray-800'
                 }`}>
-                  {isUpcoming ? 'Upcoming' : isActive ? 'Live' : 'Ended'}
+                  {isUpcoming ? 'Upcoming' : isActive ? 'Live' : isCancelled ? 'Cancelled' :
+                    auction.result === 'reserve_not_met' ? 'Ended – Reserve Not Met' : 'Ended'}
                 </div>
               </div>
 
+              {isCancelled && (
+                <div className="flex items-start p-3 mb-4 rounded-lg bg-red-50 text-sm text-red-800">
+                  <Ban className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                  <span>
+                    The seller cancelled this auction
+                    {auction.cancellation_reason && <>: {auction.cancellation_reason}</>}
+                  </span>
+                </div>
+              )}
+
               <p className="text-gray-700 leading-relaxed">{auction.description}</p>
 
+              {auction.tags.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-4">
+                  {auction.tags.map(tag => (
+                    <span key={tag} className="flex items-center px-2 py-1 rounded-full bg-amber-50 text-xs font-medium text-amber-800">
+                      <Tag className="w-3 h-3 mr-1" />
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4 mt-6 pt-6 border-t border-gray-200">
                 <div>
                   <div className="text-sm text-gray-500 mb-1">Auction Start</div>
@@ -224,51 +707,133 @@ export function AuctionRoom({ auctionId, onBack }: AuctionRoomProps) {
                 </div>
                 <div>
                   <div className="text-sm text-gray-500 mb-1">Auction End</div>
-                  <div className="font-medium">{format(endTime, 'MMM d, yyyy h:mm a')}</div>
+                  <div className="font-medium">
+                    {format(endTime, 'MMM d, yyyy h:mm a')}
+                    {auction.extended_minutes > 0 && (
+                      <span className="ml-2 text-sm text-orange-600">
+                        (extended {auction.extended_minutes} min)
+                      </span>
+                    )}
+                  </div>
                 </div>
               </div>
+
+              {(relistedFrom || relistings.length > 0) && (
+                <div className="mt-6 pt-6 border-t border-gray-200 space-y-2 text-sm">
+                  {relistedFrom && (
+                    <div className="flex items-center text-gray-600">
+                      <History className="w-4 h-4 mr-2" />
+                      Relisted from
+                      <Link
+                        to={paths.auction(relistedFrom.id)}
+                        className="ml-1 font-medium text-amber-600 hover:text-amber-700"
+                      >
+                        {relistedFrom.title}
+                      </Link>
+                      <span className="ml-1">
+                        (ended {format(new Date(relistedFrom.end_time), 'MMM d, yyyy')})
+                      </span>
+                    </div>
+                  )}
+                  {relistings.map(relisting => (
+                    <div key={relisting.id} className="flex items-center text-gray-600">
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Relisted as
+                      <Link
+                        to={paths.auction(relisting.id)}
+                        className="ml-1 font-medium text-amber-600 hover:text-amber-700"
+                      >
+                        {relisting.title}
+                      </Link>
+                      <span className="ml-1">
+                        (starts {format(new Date(relisting.start_time), 'MMM d, yyyy')})
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Bidding History */}
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
               <h2 className="text-xl font-bold text-gray-900 mb-4">Bidding History</h2>
               
-              {bids.length === 0 ? (
+              {bidsSealed ? (
+                <div className="text-center py-8 text-gray-500">
+                  Bids are sealed. Nobody, including the seller, can see them until the auction closes.
+                </div>
+              ) : historyBids.length === 0 ? (
                 <div className="text-center py-8 text-gray-500">
                   No bids placed yet. Be the first to bid!
                 </div>
               ) : (
                 <div className="space-y-3">
                   <AnimatePresence>
-                    {bids.map((bid, index) => (
+                    {historyBids.map((bid) => (
                       <motion.div
                         key={bid.id}
                         initial={{ opacity: 0, y: 20 }}
                         animate={{ opacity: 1, y: 0 }}
                         className={`flex items-center justify-between p-4 rounded-lg border ${
-                          index === 0 ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'
+                          isWinningBid(bid) ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'
                         }`}
                       >
                         <div className="flex items-center space-x-3">
                           <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                            index === 0 ? 'bg-green-100 text-green-600' : 'bg-gray-100 text-gray-600'
+                            isWinningBid(bid) ? 'bg-green-100 text-green-600' : 'bg-gray-100 text-gray-600'
                           }`}>
                             <User className="w-4 h-4" />
                           </div>
                           <div>
                             <div className="font-medium text-gray-900">
                               {bid.profiles?.full_name || bid.profiles?.email}
+                              {bid.is_buy_now && (
+                                <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                                  Buy It Now
+                                </span>
+                              )}
+                              {bid.is_proxy && (
+                                <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                                  Auto
+                                </span>
+                              )}
+                              {bid.retracted_at && (
+                                <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                  Retracted
+                                </span>
+                              )}
+                              {isLot && isWinningBid(bid) && (
+                                <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                                  Winning {lotAllocations.find(allocation => allocation.bid.id === bid.id)?.allocated} of {bid.quantity}
+                                </span>
+                              )}
                             </div>
                             <div className="text-sm text-gray-500">
                               {formatDistanceToNow(new Date(bid.created_at), { addSuffix: true })}
+                              {bid.retraction_reason && <> · {bid.retraction_reason}</>}
                             </div>
                           </div>
                         </div>
                         
-                        <div className={`text-lg font-bold ${
-                          index === 0 ? 'text-green-600' : 'text-gray-900'
-                        }`}>
-                          ${bid.amount.toFixed(2)}
+                        <div className="flex items-center space-x-3">
+                          {user && canRetractBid(bid, auction, user.id, isAdmin) && (
+                            <button
+                              type="button"
+                              onClick={() => handleRetractBid(bid)}
+                              disabled={submitting}
+                              className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                              title={isAdmin ? 'Retract this bid' : `You can retract a bid within ${RETRACTION_WINDOW_MINUTES} minutes of placing it`}
+                            >
+                              Retract
+                            </button>
+                          )}
+                          <div className={`text-lg font-bold ${
+                            bid.retracted_at ? 'text-gray-400 line-through' :
+                            isWinningBid(bid) ? 'text-green-600' : 'text-gray-900'
+                          }`}>
+                            ${bid.amount.toFixed(2)}
+                            {isLot && <span className="text-sm font-medium"> × {bid.quantity}</span>}
+                          </div>
                         </div>
                       </motion.div>
                     ))}
@@ -280,72 +845,238 @@ export function AuctionRoom({ auctionId, onBack }: AuctionRoomProps) {
 
           {/* Sidebar */}
           <div className="space-y-6">
+            {/* Post-auction decision */}
+            {offer && user && (
+              <OfferDecisionPanel offer={offer} userId={user.id} isReverse={isReverse} onDecided={loadOffer} />
+            )}
+
             {/* Current Price */}
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
               <div className="text-center">
                 <div className="text-sm text-gray-500 mb-2">
-                  {auction.highest_bid > 0 ? 'Current Bid' : 'Starting Price'}
+                  {isDutch
+                    ? isActive ? 'Current Price' : auction.highest_bid > 0 ? 'Sold For' : 'Start Price'
+                    : isSealed
+                      ? auction.highest_bid > 0 ? 'Winning Price' : 'Minimum Bid'
+                      : isLot
+                        ? auction.highest_bid > 0 ? 'Clearing Price per Unit' : 'Starting Price per Unit'
+                        : isReverse
+                          ? auction.highest_bid > 0 ? 'Lowest Bid' : 'Maximum Price'
+                          : auction.highest_bid > 0 ? 'Current Bid' : 'Starting Price'}
                 </div>
                 <div className="text-4xl font-bold text-amber-600 mb-4">
                   ${currentPrice.toFixed(2)}
                 </div>
+
+                {auction.has_reserve && !bidsSealed && (
+                  <div className={`inline-block px-3 py-1 mb-4 rounded-full text-sm font-medium ${
+                    auction.reserve_met ? 'bg-green-100 text-green-800' : 'bg-orange-100 text-orange-800'
+                  }`}>
+                    Reserve {auction.reserve_met ? 'met' : 'not met'}
+                  </div>
+                )}
                 
-                {isActive && (
+                {isActive && !isDutch && !isSealed && (
                   <div className="text-sm text-gray-600 mb-4">
-                    Next minimum bid: <span className="font-medium">${nextMinBid.toFixed(2)}</span>
+                    {isReverse ? (
+                      <>Next maximum bid: <span className="font-medium">${nextMaxBid.toFixed(2)}</span></>
+                    ) : (
+                      <>Next minimum bid: <span className="font-medium">${nextMinBid.toFixed(2)}</span></>
+                    )}
+                  </div>
+                )}
+
+                {isActive && isDutch && (
+                  <div className="flex justify-center mb-4">
+                    {nextDutchDrop ? (
+                      <CountdownTimer
+                        targetDate={nextDutchDrop}
+                        label="Next price drop in"
+                        completedText="Dropping price..."
+                        onComplete={() => setDutchTick(tick => tick + 1)}
+                      />
+                    ) : (
+                      <div className="text-sm text-gray-600">Floor price reached</div>
+                    )}
+                  </div>
+                )}
+
+                {myStandingBid && (
+                  <div className={`text-sm mb-4 px-3 py-2 rounded-lg ${
+                    myLotUnits > 0 ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-700'
+                  }`}>
+                    {isEnded ? 'You won' : 'Currently winning'}{' '}
+                    <span className="font-bold">{myLotUnits} of {auction.quantity}</span> units
+                    {myLotUnits > 0 && myLotUnits < myStandingBid.quantity && ` (you asked for ${myStandingBid.quantity})`}
+                  </div>
+                )}
+
+                {mySealedBid && (
+                  <div className="text-sm mb-4 px-3 py-2 rounded-lg bg-amber-50 text-amber-800">
+                    Your sealed bid: <span className="font-bold">${mySealedBid.amount.toFixed(2)}</span>
+                    {user && canRetractBid(mySealedBid, auction, user.id, isAdmin) && (
+                      <button
+                        type="button"
+                        onClick={() => handleRetractBid(mySealedBid)}
+                        disabled={submitting}
+                        className="ml-2 text-red-600 hover:text-red-700 disabled:opacity-50"
+                      >
+                        Retract
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {maxBid !== null && (
+                  <div className={`text-sm mb-4 px-3 py-2 rounded-lg ${
+                    maxBid >= auction.highest_bid ? 'bg-amber-50 text-amber-800' : 'bg-red-50 text-red-700'
+                  }`}>
+                    Your max: <span className="font-bold">${maxBid.toFixed(2)}</span>
+                    {maxBid < auction.highest_bid && ' (exceeded)'}
                   </div>
                 )}
 
                 <div className="flex items-center justify-center space-x-4 text-sm text-gray-500">
                   <div className="flex items-center">
                     <TrendingUp className="w-4 h-4 mr-1" />
-                    {bids.length} bids
+                    {bidsSealed ? 'Sealed bids' : `${activeBids.length} bids`}
                   </div>
                   <div className="flex items-center">
                     <DollarSign className="w-4 h-4 mr-1" />
-                    ${auction.bid_increment} increment
+                    {isDutch
+                      ? `$${auction.price_decrement} drop every ${auction.decrement_interval_minutes} min`
+                      : `$${currentIncrement} increment`}
                   </div>
                 </div>
               </div>
             </div>
 
             {/* Bidding Form */}
-            {canBid ? (
+            {canBid && isDutch ? (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-bold text-gray-900 mb-2">Buy at Today's Price</h3>
+                <p className="text-sm text-gray-600 mb-4">
+                  The price keeps dropping until someone buys. Wait for a better price and risk
+                  losing it, or take it now.
+                </p>
+                <button
+                  type="button"
+                  onClick={handleTakeDutchPrice}
+                  disabled={submitting}
+                  className="w-full bg-amber-600 text-white py-3 px-4 rounded-lg font-bold text-lg hover:bg-amber-700 focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                >
+                  <Gavel className="w-5 h-5" />
+                  <span>{submitting ? 'Buying...' : `Buy at $${currentPrice.toFixed(2)}`}</span>
+                </button>
+              </div>
+            ) : canBid ? (
               <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-                <h3 className="text-lg font-bold text-gray-900 mb-4">Place Your Bid</h3>
+                <h3 className="text-lg font-bold text-gray-900 mb-4">
+                  {isSealed ? 'Submit a Sealed Bid' : 'Place Your Bid'}
+                </h3>
                 
                 <form onSubmit={handlePlaceBid} className="space-y-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Bid Amount
+                      {autoBid ? 'Maximum Bid' : 'Bid Amount'}
                     </label>
                     <div className="relative">
                       <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
                       <input
                         type="number"
                         step="0.01"
-                        min={nextMinBid}
+                        min={isReverse ? '0.01' : nextMinBid}
+                        max={isReverse ? nextMaxBid : undefined}
                         value={bidAmount}
                         onChange={(e) => setBidAmount(e.target.value)}
                         required
                         className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
-                        placeholder={nextMinBid.toFixed(2)}
+                        placeholder={(isReverse ? nextMaxBid : nextMinBid).toFixed(2)}
                       />
                     </div>
                     <div className="mt-2 text-sm text-gray-500">
-                      Minimum bid: ${nextMinBid.toFixed(2)}
+                      {isReverse
+                        ? `Maximum bid: $${nextMaxBid.toFixed(2)}`
+                        : `Minimum bid: $${nextMinBid.toFixed(2)}${isLot ? ' per unit' : ''}`}
                     </div>
                   </div>
 
+                  {isLot && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Units</label>
+                      <input
+                        type="number"
+                        min="1"
+                        max={auction.quantity}
+                        value={bidQuantity}
+                        onChange={(e) => setBidQuantity(e.target.value)}
+                        required
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                      />
+                    </div>
+                  )}
+
+                  {isSealed ? (
+                    <p className="text-sm text-gray-600">
+                      {auction.auction_type === 'sealed_second_price'
+                        ? 'The highest bid wins and pays the runner-up bid plus one increment.'
+                        : 'The highest bid wins and pays what it bid.'}
+                      {' '}You can revise your bid until the auction closes, only your latest bid counts.
+                    </p>
+                  ) : isReverse ? (
+                    <p className="text-sm text-gray-600">
+                      Bid the price down. The lowest bid when the auction closes wins the contract.
+                    </p>
+                  ) : isLot ? (
+                    <p className="text-sm text-gray-600">
+                      The top bids that fit the {auction.quantity} units win, and every winner pays the
+                      lowest winning price. Your latest bid replaces your earlier one.
+                    </p>
+                  ) : (
+                    <label className="flex items-start space-x-2 text-sm text-gray-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={autoBid}
+                        onChange={(e) => setAutoBid(e.target.checked)}
+                        className="mt-0.5 rounded border-gray-300 text-amber-600 focus:ring-amber-500"
+                      />
+                      <span>
+                        Bid automatically up to this amount. Your maximum stays private and we only bid
+                        one increment at a time to keep you in the lead.
+                      </span>
+                    </label>
+                  )}
+
                   <button
                     type="submit"
                     disabled={submitting}
                     className="w-full bg-amber-600 text-white py-3 px-4 rounded-lg font-bold text-lg hover:bg-amber-700 focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
                   >
                     <Gavel className="w-5 h-5" />
-                    <span>{submitting ? 'Placing Bid...' : 'Place Bid'}</span>
+                    <span>
+                      {submitting ? 'Placing Bid...' :
+                        autoBid ? 'Set Maximum Bid' :
+                        isSealed ? mySealedBid ? 'Revise Sealed Bid' : 'Submit Sealed Bid' :
+                        'Place Bid'}
+                    </span>
                   </button>
                 </form>
+
+                {canBuyNow && (
+                  <div className="mt-4 pt-4 border-t border-gray-200">
+                    <button
+                      type="button"
+                      onClick={handleBuyNow}
+                      disabled={submitting}
+                      className="w-full bg-green-600 text-white py-3 px-4 rounded-lg font-bold text-lg hover:bg-green-700 focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Buy now for ${auction.buy_now_price!.toFixed(2)}
+                    </button>
+                    <p className="mt-2 text-xs text-center text-gray-500">
+                      Ends the auction immediately at this price
+                    </p>
+                  </div>
+                )}
               </div>
             ) : (
               <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
@@ -369,30 +1100,127 @@ export function AuctionRoom({ auctionId, onBack }: AuctionRoomProps) {
               <h3 className="text-lg font-bold text-gray-900 mb-4">Auction Details</h3>
               <div className="space-y-3">
                 <div className="flex justify-between">
-                  <span className="text-gray-600">Starting Price</span>
+                  <span className="text-gray-600">
+                    {isDutch ? 'Start Price' : isReverse ? 'Maximum Price' : 'Starting Price'}
+                  </span>
                   <span className="font-medium">${auction.starting_price.toFixed(2)}</span>
                 </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Bid Increment</span>
-                  <span className="font-medium">${auction.bid_increment.toFixed(2)}</span>
-                </div>
+                {isDutch ? (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Floor Price</span>
+                    <span className="font-medium">${auction.floor_price?.toFixed(2)}</span>
+                  </div>
+                ) : (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Bid Increment</span>
+                    <span className="font-medium">
+                      ${currentIncrement.toFixed(2)}
+                      {auction.use_increment_tiers && ' (tiered)'}
+                    </span>
+                  </div>
+                )}
+                {isLot && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Units on Offer</span>
+                    <span className="font-medium">{auction.quantity}</span>
+                  </div>
+                )}
+                {reservePrice !== null && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Your Reserve</span>
+                    <span className="font-medium">${reservePrice.toFixed(2)}</span>
+                  </div>
+                )}
+                {auction.soft_close_window_minutes && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Soft Close</span>
+                    <span className="font-medium text-right">
+                      +{auction.soft_close_extension_minutes} min on bids in final {auction.soft_close_window_minutes} min
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span className="text-gray-600">Total Bids</span>
-                  <span className="font-medium">{bids.length}</span>
+                  <span className="font-medium">{bidsSealed ? 'Sealed' : activeBids.length}</span>
                 </div>
                 {auction.highest_bidder_id && (
                   <div className="flex justify-between pt-3 border-t">
                     <span className="text-gray-600">Leading Bidder</span>
                     <span className="font-medium text-green-600">
-                      {bids[0]?.profiles?.full_name || bids[0]?.profiles?.email}
+                      {leadingBid?.profiles?.full_name || leadingBid?.profiles?.email}
                     </span>
                   </div>
                 )}
               </div>
             </div>
+
+            {/* Item Details */}
+            {hasItemDetails && (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <h3 className="flex items-center text-lg font-bold text-gray-900 mb-4">
+                  <Package className="w-5 h-5 mr-2 text-amber-600" />
+                  Item Details
+                </h3>
+                <div className="space-y-3">
+                  {auction.condition && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Condition</span>
+                      <span className="font-medium">{getConditionLabel(auction.condition)}</span>
+                    </div>
+                  )}
+                  {itemAttributes.map(({ label, value }) => (
+                    <div key={label} className="flex justify-between">
+                      <span className="text-gray-600">{label}</span>
+                      <span className="font-medium text-right">{value}</span>
+                    </div>
+                  ))}
+                  {auction.returns_policy && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Returns</span>
+                      <span className="font-medium">{getReturnsLabel(auction.returns_policy)}</span>
+                    </div>
+                  )}
+                  {shippingOptions.length > 0 && (
+                    <div className="pt-3 border-t">
+                      <span className="text-gray-600">Shipping</span>
+                      {shippingOptions.map(option => (
+                        <div key={option.id} className="flex justify-between mt-1">
+                          <span className="text-sm text-gray-700">{option.method}</span>
+                          <span className="font-medium">{option.cost > 0 ? `$${option.cost.toFixed(2)}` : 'Free'}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {auction.pickup_location && (
+                    <div className="flex justify-between pt-3 border-t">
+                      <span className="text-gray-600">Local Pickup</span>
+                      <span className="font-medium text-right">{auction.pickup_location}</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
+
+      {canManage && (
+        <ManageAuctionModal
+          isOpen={showManageModal}
+          auction={auction}
+          reservePrice={reservePrice}
+          hasBids={activeBids.length > 0}
+          onClose={() => setShowManageModal(false)}
+          onUpdated={loadAuction}
+        />
+      )}
+
+      <CreateAuctionModal
+        isOpen={copyDraft !== null}
+        draft={copyDraft}
+        onClose={() => setCopyDraft(null)}
+        onAuctionCreated={() => loadListingHistory(auction.relisted_from, auction.seller_id)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { User } from 'lucide-react';
+import { getAvatarUrl } from '../lib/images';
+
+interface AvatarProps {
+  path: string | null;
+  name: string;
+  className?: string;
+}
+
+// The profile picture, or the first letter of the name when there is none
+export function Avatar({ path, name, className = 'w-8 h-8 text-sm' }: AvatarProps) {
+  if (path) {
+    return <img src={getAvatarUrl(path)} alt={name} className={`${className} rounded-full object-cover`} />;
+  }
+
+  const initial = name.trim().charAt(0).toUpperCase();
+
+  return (
+    <div className={`${className} rounded-full bg-amber-100 text-amber-600 font-bold flex items-center justify-center`}>
+      {initial || <User className="w-1/2 h-1/2" />}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { Category } from '../lib/categories';
+import { CategoryAttribute } from '../lib/attributes';
+import toast from 'react-hot-toast';
+
+interface CategoryAttributesEditorProps {
+  category: Category;
+  attributes: CategoryAttribute[];
+  onChanged: () => void;
+}
+
+type AttributeForm = { label: string; type: CategoryAttribute['type']; options: string; required: boolean };
+
+const emptyForm: AttributeForm = { label: '', type: 'text', options: '', required: false };
+
+// Matches the key format allowed by the category_attributes table
+const toAttributeKey = (label: string) => label
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, '_')
+  .replace(/^_+|_+$/g, '');
+
+const typeLabels: Record<CategoryAttribute['type'], string> = {
+  text: 'Text',
+  number: 'Number',
+  select: 'Choice',
+};
+
+// The extra fields sellers fill in for a category, subcategories inherit them
+export function CategoryAttributesEditor({ category, attributes, onChanged }: CategoryAttributesEditorProps) {
+  const [form, setForm] = useState<AttributeForm>(emptyForm);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fields = attributes
+    .filter(attribute => attribute.category_id === category.id)
+    .sort((a, b) => a.position - b.position || a.label.localeCompare(b.label));
+
+  const options = [...new Set(form.options.split(',').map(option => option.trim()).filter(Boolean))];
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.from('category_attributes').insert({
+        category_id: category.id,
+        key: toAttributeKey(form.label),
+        label: form.label.trim(),
+        type: form.type,
+        options: form.type === 'select' ? options : [],
+        required: form.required,
+        position: fields.length > 0 ? fields[fields.length - 1].position + 1 : 0,
+      });
+
+      if (error) throw error;
+
+      toast.success('Field added');
+      setForm(emptyForm);
+      onChanged();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to add field');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (attribute: CategoryAttribute) => {
+    if (!window.confirm(`Remove the "${attribute.label}" field? Values already entered on listings are kept but no longer shown.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('category_attributes').delete().eq('id', attribute.id);
+
+      if (error) throw error;
+
+      toast.success('Field removed');
+      onChanged();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to remove field');
+    }
+  };
+
+  return (
+    <div className="px-4 pb-4 bg-gray-50">
+      {fields.length === 0 ? (
+        <p className="py-2 text-sm text-gray-500">No fields for {category.name} yet</p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {fields.map(attribute => (
+            <div key={attribute.id} className="flex items-center justify-between py-2 text-sm">
+              <div>
+                <span className="font-medium text-gray-900">{attribute.label}</span>
+                <span className="ml-2 text-gray-400">{typeLabels[attribute.type]}</span>
+                {attribute.required && <span className="ml-2 text-amber-600">Required</span>}
+                {attribute.type === 'select' && (
+                  <div className="text-xs text-gray-500">{attribute.options.join(', ')}</div>
+                )}
+              </div>
+              <button
+                onClick={() => handleDelete(attribute)}
+                className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2 pt-3">
+        <input
+          type="text"
+          value={form.label}
+          onChange={(e) => setForm(prev => ({ ...prev, label: e.target.value }))}
+          required
+          placeholder="Field name, e.g. Brand"
+          className="flex-1 px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+        />
+        <select
+          value={form.type}
+          onChange={(e) => setForm(prev => ({ ...prev, type: e.target.value as CategoryAttribute['type'] }))}
+          className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+        >
+          {Object.entries(typeLabels).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        {form.type === 'select' && (
+          <input
+            type="text"
+            value={form.options}
+            onChange={(e) => setForm(prev => ({ ...prev, options: e.target.value }))}
+            required
+            placeholder="Choices, separated by commas"
+            className="flex-1 px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+          />
+        )}
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={form.required}
+            onChange={(e) => setForm(prev => ({ ...prev, required: e.target.checked }))}
+            className="mr-1 rounded border-gray-300 text-amber-600 focus:ring-amber-500"
+          />
+          Required
+        </label>
+        <button
+          type="submit"
+          disabled={submitting || !toAttributeKey(form.label) || (form.type === 'select' && options.length === 0)}
+          className="flex items-center px-3 py-1 bg-amber-600 text-white rounded-lg text-sm font-medium hover:bg-amber-700 transition-colors disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Field
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import React, { Fragment, useState } from 'react';
+import { FolderTree, Plus, Pencil, Trash2, Check, X, ListChecks } from 'lucide-react';
+import { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { Category, flattenCategoryTree, slugify } from '../lib/categories';
+import { CategoryAttribute } from '../lib/attributes';
+import { CategoryAttributesEditor } from './CategoryAttributesEditor';
+import toast from 'react-hot-toast';
+
+interface CategoryManagerProps {
+  categories: Category[];
+  attributes: CategoryAttribute[];
+  onChanged: () => void;
+}
+
+type CategoryForm = { name: string; parent_id: string; position: string };
+
+const emptyForm: CategoryForm = { name: '', parent_id: '', position: '0' };
+
+export function CategoryManager({ categories, attributes, onChanged }: CategoryManagerProps) {
+  const [newCategory, setNewCategory] = useState<CategoryForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<CategoryForm>(emptyForm);
+  const [fieldsCategoryId, setFieldsCategoryId] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const tree = flattenCategoryTree(categories);
+
+  const runAction = async (action: () => Promise<{ error: PostgrestError | null }>, successMessage: string) => {
+    setSubmitting(true);
+    try {
+      const { error } = await action();
+
+      if (error) throw error;
+
+      toast.success(successMessage);
+      onChanged();
+      return true;
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update categories');
+      return false;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const created = await runAction(
+      async () => supabase.from('categories').insert({
+        name: newCategory.name.trim(),
+        slug: slugify(newCategory.name),
+        parent_id: newCategory.parent_id || null,
+        position: parseInt(newCategory.position) || 0,
+      }),
+      'Category added'
+    );
+
+    if (created) {
+      setNewCategory(emptyForm);
+    }
+  };
+
+  const startEditing = (category: Category) => {
+    setEditingId(category.id);
+    setEditForm({
+      name: category.name,
+      parent_id: category.parent_id ?? '',
+      position: String(category.position),
+    });
+  };
+
+  const handleSave = async (categoryId: string) => {
+    const saved = await runAction(
+      async () => supabase.from('categories').update({
+        name: editForm.name.trim(),
+        slug: slugify(editForm.name),
+        parent_id: editForm.parent_id || null,
+        position: parseInt(editForm.position) || 0,
+      }).eq('id', categoryId),
+      'Category updated'
+    );
+
+    if (saved) {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = (category: Category) => {
+    if (!window.confirm(`Delete "${category.name}" and its subcategories? Their auctions become uncategorized.`)) {
+      return;
+    }
+
+    runAction(async () => supabase.from('categories').delete().eq('id', category.id), 'Category deleted');
+  };
+
+  // A category cannot become its own parent, the database also rejects moving it beneath its subcategories
+  const parentOptions = (excludeId: string | null) => tree
+    .filter(({ category }) => category.id !== excludeId)
+    .map(({ category, depth }) => (
+      <option key={category.id} value={category.id}>
+        {'\u00a0\u00a0'.repeat(depth)}{category.name}
+      </option>
+    ));
+
+  return (
+    <div>
+      <div className="flex items-center mb-4">
+        <FolderTree className="w-5 h-5 mr-2 text-amber-600" />
+        <h3 className="text-lg font-bold text-gray-900">Categories</h3>
+      </div>
+
+      <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-6">
+        <input
+          type="text"
+          value={newCategory.name}
+          onChange={(e) => setNewCategory(prev => ({ ...prev, name: e.target.value }))}
+          required
+          placeholder="Category name"
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+        />
+        <select
+          value={newCategory.parent_id}
+          onChange={(e) => setNewCategory(prev => ({ ...prev, parent_id: e.target.value }))}
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+        >
+          <option value="">Top level</option>
+          {parentOptions(null)}
+        </select>
+        <input
+          type="number"
+          value={newCategory.position}
+          onChange={(e) => setNewCategory(prev => ({ ...prev, position: e.target.value }))}
+          placeholder="Position"
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+        />
+        <button
+          type="submit"
+          disabled={submitting || !slugify(newCategory.name)}
+          className="flex items-center justify-center px-4 py-2 bg-amber-600 text-white rounded-lg font-medium hover:bg-amber-700 transition-colors disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Category
+        </button>
+      </form>
+
+      {tree.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">
+          No categories yet
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {tree.map(({ category, depth }) => (
+            <Fragment key={category.id}>
+              <div
+                className="flex items-center justify-between px-4 py-3"
+                style={{ paddingLeft: `${1 + depth * 1.5}rem` }}
+              >
+                {editingId === category.id ? (
+                  <div className="flex flex-1 items-center gap-2">
+                    <input
+                      type="text"
+                      value={editForm.name}
+                      onChange={(e) => setEditForm(prev => ({ ...prev, name: e.target.value }))}
+                      className="flex-1 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                    />
+                    <select
+                      value={editForm.parent_id}
+                      onChange={(e) => setEditForm(prev => ({ ...prev, parent_id: e.target.value }))}
+                      className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                    >
+                      <option value="">Top level</option>
+                      {parentOptions(category.id)}
+                    </select>
+                    <input
+                      type="number"
+                      value={editForm.position}
+                      onChange={(e) => setEditForm(prev => ({ ...prev, position: e.target.value }))}
+                      className="w-20 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                    />
+                    <button
+                      onClick={() => handleSave(category.id)}
+                      disabled={submitting || !slugify(editForm.name)}
+                      className="p-2 text-green-600 hover:text-green-700 transition-colors disabled:opacity-50"
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <>
+                    <div>
+                      <span className="font-medium text-gray-900">{category.name}</span>
+                      <span className="ml-2 text-sm text-gray-400">/{category.slug}</span>
+                    </div>
+                    <div className="flex items-center">
+                      <button
+                        onClick={() => setFieldsCategoryId(prev => prev === category.id ? null : category.id)}
+                        className={`p-2 transition-colors ${
+                          fieldsCategoryId === category.id ? 'text-amber-600' : 'text-gray-400 hover:text-amber-600'
+                        }`}
+                      >
+                        <ListChecks className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => startEditing(category)}
+                        className="p-2 text-gray-400 hover:text-amber-600 transition-colors"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(category)}
+                        disabled={submitting}
+                        className="p-2 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+              {fieldsCategoryId === category.id && (
+                <CategoryAttributesEditor category={category} attributes={attributes} onChanged={onChanged} />
+              )}
+            </Fragment>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,9 +4,18 @@ import { Clock } from 'lucide-react';
 interface CountdownTimerProps {
   targetDate: Date;
   onComplete?: () => void;
+  extended?: boolean;
+  label?: string;
+  completedText?: string;
 }
 
-export function CountdownTimer({ targetDate, onComplete }: CountdownTimerProps) {
+export function CountdownTimer({
+  targetDate,
+  onComplete,
+  extended,
+  label,
+  completedText = 'Auction Ended',
+}: CountdownTimerProps) {
   const [timeLeft, setTimeLeft] = useState(calculateTimeLeft());
 
   function calculateTimeLeft() {
@@ -42,7 +51,7 @@ export function CountdownTimer({ targetDate, onComplete }: CountdownTimerProps)
     return (
       <div className="flex items-center text-red-600 font-medium">
         <Clock className="w-4 h-4 mr-2" />
-        Auction Ended
+        {completedText}
       </div>
     );
   }
@@ -50,6 +59,7 @@ export function CountdownTimer({ targetDate, onComplete }: CountdownTimerProps)
   return (
     <div className="flex items-center space-x-4">
       <Clock className="w-5 h-5 text-red-500" />
+      {label && <span className="text-sm font-medium text-gray-600">{label}</span>}
       <div className="flex items-center space-x-1">
         {timeLeft.days > 0 && (
           <div className="text-center">
@@ -83,6 +93,12 @@ export function CountdownTimer({ targetDate, onComplete }: CountdownTimerProps)
           <div className="text-xs text-gray-500">sec</div>
         </div>
       </div>
+
+      {extended && (
+        <span className="px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+          Extended
+        </span>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,30 +1,337 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import { Fragment } from 'react';
-import { X, Calendar, Clock, DollarSign } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { X, Calendar, Clock, DollarSign, Plus, Trash2, MapPin, Truck } from 'lucide-react';
+import { supabase, Database } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { isSealedAuction, getTierIncrement } from '../lib/bidding';
+import { useCategories } from '../hooks/useCategories';
+import { MAX_TAGS, parseTags } from '../lib/categories';
+import {
+  CONDITION_OPTIONS,
+  RETURNS_OPTIONS,
+  ItemCondition,
+  ReturnsPolicy,
+  getAttributeSchema,
+  validateAttributes,
+  cleanAttributes,
+} from '../lib/attributes';
+import { getImageUrl, removeUnusedImageFiles, uploadAuctionImage, UploadedImage } from '../lib/images';
+import { ImageUploader, ListingImage } from './ImageUploader';
 import toast from 'react-hot-toast';
 import { format, addDays } from 'date-fns';
 
+type Draft = Database['public']['Tables']['auctions']['Row'];
+
 interface CreateAuctionModalProps {
   isOpen: boolean;
+  draft?: Draft | null;
   onClose: () => void;
   onAuctionCreated: () => void;
 }
 
-export function CreateAuctionModal({ isOpen, onClose, onAuctionCreated }: CreateAuctionModalProps) {
+const toField = (value: number | null) => value === null ? '' : String(value);
+
+export function CreateAuctionModal({ isOpen, draft = null, onClose, onAuctionCreated }: CreateAuctionModalProps) {
   const { user } = useAuth();
+  const { categories, tree: categoryTree, attributes: categoryAttributes } = useCategories();
   const [loading, setLoading] = useState(false);
+  const [draftId, setDraftId] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     title: '',
     description: '',
     starting_price: '',
     bid_increment: '',
+    increment_mode: 'fixed',
+    reserve_price: '',
+    buy_now_price: '',
+    buy_now_cutoff_percent: '50',
     start_date: format(new Date(), 'yyyy-MM-dd'),
     start_time: '12:00',
     duration_hours: '24',
+    soft_close_window_minutes: '',
+    soft_close_extension_minutes: '',
+    soft_close_max_extension_minutes: '',
+    auction_type: 'english',
+    quantity: '1',
+    floor_price: '',
+    price_decrement: '',
+    decrement_interval_minutes: '',
+    auto_relist_limit: '0',
+    category_id: '',
+    tags: '',
+    condition: '',
+    pickup_location: '',
+    returns_policy: '',
   });
+  const [attributeValues, setAttributeValues] = useState<Record<string, string>>({});
+  const [shippingOptions, setShippingOptions] = useState<{ method: string; cost: string }[]>([]);
+  const [incrementTiers, setIncrementTiers] = useState<{ min_price: string; increment: string }[]>([]);
+  const [images, setImages] = useState<ListingImage[]>([]);
+  // What the draft had at its last save, files dropped since then are cleaned up on the next one
+  const [storedImages, setStoredImages] = useState<UploadedImage[]>([]);
+
+  const isDutch = formData.auction_type === 'dutch';
+  const isSealed = isSealedAuction(formData.auction_type);
+  const isReverse = formData.auction_type === 'reverse';
+  const isTiered = !isDutch && formData.increment_mode === 'tiered';
+  const isLot = formData.auction_type === 'english' && parseInt(formData.quantity) > 1;
+
+  const parsedTiers = incrementTiers
+    .filter(tier => tier.min_price !== '' && tier.increment !== '')
+    .map(tier => ({ min_price: parseFloat(tier.min_price), increment: parseFloat(tier.increment) }))
+    .sort((a, b) => a.min_price - b.min_price);
+
+  const attributeSchema = getAttributeSchema(categories, categoryAttributes, formData.category_id || null);
+
+  const parsedShipping = shippingOptions
+    .filter(option => option.method.trim() !== '' && option.cost !== '')
+    .map(option => ({ method: option.method.trim(), cost: parseFloat(option.cost) }));
+
+  // Sellers start from the platform default tiers and adjust from there
+  const loadDefaultTiers = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('bid_increment_tiers')
+        .select('min_price, increment')
+        .is('auction_id', null)
+        .order('min_price', { ascending: true });
+
+      if (error) throw error;
+      // Tiers the seller already has are kept
+      setIncrementTiers(prev => prev.length > 0 ? prev : (data || []).map(tier => ({
+        min_price: String(tier.min_price),
+        increment: String(tier.increment),
+      })));
+    } catch (error: any) {
+      console.error('Failed to load default increment tiers:', error);
+    }
+  }, []);
+
+  // Drafts may be incomplete, so every field the seller left empty is stored as null
+  const parseOptional = (value: string, parse: (value: string) => number) => {
+    const parsed = parse(value);
+    return isNaN(parsed) ? null : parsed;
+  };
+
+  const getSchedule = () => {
+    const startDateTime = new Date(`${formData.start_date}T${formData.start_time}`);
+    const durationHours = parseOptional(formData.duration_hours, parseInt);
+
+    if (isNaN(startDateTime.getTime()) || durationHours === null) {
+      return { start_time: null, end_time: null };
+    }
+
+    return {
+      start_time: startDateTime.toISOString(),
+      end_time: new Date(startDateTime.getTime() + durationHours * 60 * 60 * 1000).toISOString(),
+    };
+  };
+
+  const getReservePrice = () =>
+    !isDutch && !isReverse && formData.reserve_price ? parseFloat(formData.reserve_price) : null;
+
+  const getBuyNowPrice = () =>
+    !isDutch && !isSealed && !isLot && !isReverse && formData.buy_now_price ? parseFloat(formData.buy_now_price) : null;
+
+  // Inserts or updates the draft with its reserve and tiers, returns its id
+  const saveDraft = async () => {
+    const reservePrice = getReservePrice();
+    const hasSoftClose = !isDutch && !isSealed && !!formData.soft_close_window_minutes;
+    const tags = parseTags(formData.tags);
+
+    if (tags.length > MAX_TAGS) {
+      throw new Error(`Use at most ${MAX_TAGS} tags`);
+    }
+
+    const listing = {
+      title: formData.title,
+      description: formData.description,
+      starting_price: parseOptional(formData.starting_price, parseFloat),
+      bid_increment: isDutch
+        ? parseOptional(formData.price_decrement, parseFloat)
+        : isTiered ? parsedTiers[0]?.increment ?? null : parseOptional(formData.bid_increment, parseFloat),
+      use_increment_tiers: isTiered,
+      ...getSchedule(),
+      soft_close_window_minutes: hasSoftClose ? parseOptional(formData.soft_close_window_minutes, parseInt) : null,
+      soft_close_extension_minutes: hasSoftClose ? parseOptional(formData.soft_close_extension_minutes, parseInt) : null,
+      soft_close_max_extension_minutes: hasSoftClose ? parseOptional(formData.soft_close_max_extension_minutes, parseInt) : null,
+      buy_now_price: getBuyNowPrice(),
+      buy_now_cutoff_percent: parseInt(formData.buy_now_cutoff_percent),
+      auction_type: formData.auction_type,
+      quantity: isLot ? parseInt(formData.quantity) : 1,
+      floor_price: isDutch ? parseOptional(formData.floor_price, parseFloat) : null,
+      price_decrement: isDutch ? parseOptional(formData.price_decrement, parseFloat) : null,
+      decrement_interval_minutes: isDutch ? parseOptional(formData.decrement_interval_minutes, parseInt) : null,
+      auto_relist_limit: parseInt(formData.auto_relist_limit),
+      category_id: formData.category_id || null,
+      tags,
+      condition: (formData.condition || null) as ItemCondition | null,
+      pickup_location: formData.pickup_location.trim() || null,
+      returns_policy: (formData.returns_policy || null) as ReturnsPolicy | null,
+      attributes: cleanAttributes(attributeSchema, attributeValues),
+    };
+
+    let auctionId = draftId;
+
+    if (auctionId) {
+      const { error } = await supabase.from('auctions').update(listing).eq('id', auctionId);
+
+      if (error) throw error;
+    } else {
+      const { data: auction, error } = await supabase.from('auctions').insert({
+        ...listing,
+        seller_id: user!.id,
+        status: 'draft',
+      }).select('id').single();
+
+      if (error) throw error;
+      auctionId = auction.id as string;
+      setDraftId(auctionId);
+    }
+
+    const uploaded: UploadedImage[] = [];
+    for (const image of images) {
+      uploaded.push(image.uploaded ?? await uploadAuctionImage(user!.id, image.file!));
+    }
+    setImages(prev => prev.map(image => {
+      const index = images.findIndex(saved => saved.key === image.key);
+      return index >= 0 ? { ...image, file: undefined, uploaded: uploaded[index] } : image;
+    }));
+
+    // Replaced in one transaction, a failed save keeps what the draft had before
+    const { error: detailsError } = await supabase.rpc('save_draft_details', {
+      p_auction_id: auctionId,
+      p_reserve_price: reservePrice,
+      p_tiers: isTiered ? parsedTiers : [],
+      p_images: uploaded.map((image, position) => ({ ...image, position })),
+      p_shipping_options: parsedShipping.map((option, position) => ({ ...option, position })),
+    });
+
+    if (detailsError) throw detailsError;
+
+    try {
+      await removeUnusedImageFiles(storedImages.filter(stored => !uploaded.some(image => image.path === stored.path)));
+    } catch (error) {
+      // Leftover files do not affect the listing
+      console.error('Failed to remove unused images:', error);
+    }
+    setStoredImages(uploaded);
+
+    return auctionId;
+  };
+
+  // Resume a saved draft where the seller left off
+  const loadDraft = useCallback(async (draft: Draft) => {
+    const startTime = draft.start_time ? new Date(draft.start_time) : null;
+    const endTime = draft.end_time ? new Date(draft.end_time) : null;
+
+    setDraftId(draft.id);
+    setFormData({
+      title: draft.title,
+      description: draft.description,
+      starting_price: toField(draft.starting_price),
+      bid_increment: toField(draft.bid_increment),
+      increment_mode: draft.use_increment_tiers ? 'tiered' : 'fixed',
+      reserve_price: '',
+      buy_now_price: toField(draft.buy_now_price),
+      buy_now_cutoff_percent: String(draft.buy_now_cutoff_percent),
+      start_date: format(startTime ?? new Date(), 'yyyy-MM-dd'),
+      start_time: startTime ? format(startTime, 'HH:mm') : '12:00',
+      duration_hours: startTime && endTime
+        ? String(Math.round((endTime.getTime() - startTime.getTime()) / (60 * 60 * 1000)))
+        : '24',
+      soft_close_window_minutes: toField(draft.soft_close_window_minutes),
+      soft_close_extension_minutes: toField(draft.soft_close_extension_minutes),
+      soft_close_max_extension_minutes: toField(draft.soft_close_max_extension_minutes),
+      auction_type: draft.auction_type,
+      quantity: String(draft.quantity),
+      floor_price: toField(draft.floor_price),
+      price_decrement: toField(draft.price_decrement),
+      decrement_interval_minutes: toField(draft.decrement_interval_minutes),
+      auto_relist_limit: String(draft.auto_relist_limit),
+      category_id: draft.category_id ?? '',
+      tags: draft.tags.join(', '),
+      condition: draft.condition ?? '',
+      pickup_location: draft.pickup_location ?? '',
+      returns_policy: draft.returns_policy ?? '',
+    });
+    setAttributeValues(draft.attributes);
+
+    try {
+      const [
+        { data: reserve, error: reserveError },
+        { data: tiers, error: tiersError },
+        { data: draftImages, error: imagesError },
+        { data: shipping, error: shippingError },
+      ] = await Promise.all([
+        supabase.from('auction_reserves').select('reserve_price').eq('auction_id', draft.id).maybeSingle(),
+        supabase.from('bid_increment_tiers').select('min_price, increment').eq('auction_id', draft.id).order('min_price', { ascending: true }),
+        supabase.from('auction_images').select('path, thumbnail_path, width, height').eq('auction_id', draft.id).order('position', { ascending: true }),
+        supabase.from('auction_shipping_options').select('method, cost').eq('auction_id', draft.id).order('position', { ascending: true }),
+      ]);
+
+      if (reserveError) throw reserveError;
+      if (tiersError) throw tiersError;
+      if (imagesError) throw imagesError;
+      if (shippingError) throw shippingError;
+
+      setShippingOptions((shipping || []).map(option => ({ method: option.method, cost: String(option.cost) })));
+
+      const loadedImages: UploadedImage[] = draftImages || [];
+      setStoredImages(loadedImages);
+      setImages(loadedImages.map(image => ({
+        key: image.path,
+        previewUrl: getImageUrl(image.thumbnail_path),
+        uploaded: image,
+      })));
+
+      setFormData(prev => ({ ...prev, reserve_price: reserve ? String(reserve.reserve_price) : '' }));
+      setIncrementTiers((tiers || []).map(tier => ({
+        min_price: String(tier.min_price),
+        increment: String(tier.increment),
+      })));
+
+      if (!tiers?.length) {
+        loadDefaultTiers();
+      }
+    } catch (error: any) {
+      console.error('Failed to load draft:', error);
+    }
+  }, [loadDefaultTiers]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    if (draft) {
+      loadDraft(draft);
+    } else {
+      loadDefaultTiers();
+    }
+  }, [isOpen, draft, loadDraft, loadDefaultTiers]);
+
+  const handleSaveDraft = async () => {
+    if (!user) return;
+
+    if (!formData.title.trim()) {
+      toast.error('Give your draft a title');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await saveDraft();
+
+      toast.success('Draft saved');
+      onAuctionCreated();
+      onClose();
+      resetForm();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save draft');
+    } finally {
+      setLoading(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -32,23 +339,51 @@ export function CreateAuctionModal({ isOpen, onClose, onAuctionCreated }: Create
 
     setLoading(true);
     try {
-      const startDateTime = new Date(`${formData.start_date}T${formData.start_time}`);
-      const endDateTime = new Date(startDateTime.getTime() + parseInt(formData.duration_hours) * 60 * 60 * 1000);
-
-      const { error } = await supabase.from('auctions').insert({
-        seller_id: user.id,
-        title: formData.title,
-        description: formData.description,
-        starting_price: parseFloat(formData.starting_price),
-        bid_increment: parseFloat(formData.bid_increment),
-        start_time: startDateTime.toISOString(),
-        end_time: endDateTime.toISOString(),
-        status: 'draft',
-      });
+      if (isDutch && parseFloat(formData.floor_price) >= parseFloat(formData.starting_price)) {
+        throw new Error('Floor price must be below the start price');
+      }
+
+      const reservePrice = getReservePrice();
+
+      if (reservePrice !== null && reservePrice < parseFloat(formData.starting_price)) {
+        throw new Error('Reserve price cannot be lower than the starting price');
+      }
+
+      const buyNowPrice = getBuyNowPrice();
+
+      if (buyNowPrice !== null && buyNowPrice <= Math.max(parseFloat(formData.starting_price), reservePrice ?? 0)) {
+        throw new Error('Buy It Now price must be above the starting and reserve prices');
+      }
+
+      if (isTiered && parsedTiers.length === 0) {
+        throw new Error('Add at least one increment tier');
+      }
+
+      if (isTiered && new Set(parsedTiers.map(tier => tier.min_price)).size !== parsedTiers.length) {
+        throw new Error('Each increment tier must start at a different price');
+      }
+
+      if (parsedShipping.length === 0 && !formData.pickup_location.trim()) {
+        throw new Error('Offer at least one shipping option or a pickup location');
+      }
+
+      if (new Set(parsedShipping.map(option => option.method.toLowerCase())).size !== parsedShipping.length) {
+        throw new Error('Each shipping option needs a different name');
+      }
+
+      const attributeError = validateAttributes(attributeSchema, attributeValues);
+
+      if (attributeError) {
+        throw new Error(attributeError);
+      }
+
+      // New listings start as drafts, publish_auction() validates them again and schedules them
+      const auctionId = await saveDraft();
+      const { data: status, error } = await supabase.rpc('publish_auction', { p_auction_id: auctionId });
 
       if (error) throw error;
 
-      toast.success('Auction created successfully!');
+      toast.success(status === 'active' ? 'Auction is live!' : 'Auction scheduled!');
       onAuctionCreated();
       onClose();
       resetForm();
@@ -59,16 +394,58 @@ export function CreateAuctionModal({ isOpen, onClose, onAuctionCreated }: Create
     }
   };
 
+  // An unsaved new listing is kept for next time, a resumed draft is not
+  const handleClose = () => {
+    onClose();
+
+    if (draftId) {
+      resetForm();
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       title: '',
       description: '',
       starting_price: '',
       bid_increment: '',
+      increment_mode: 'fixed',
+      reserve_price: '',
+      buy_now_price: '',
+      buy_now_cutoff_percent: '50',
       start_date: format(new Date(), 'yyyy-MM-dd'),
       start_time: '12:00',
       duration_hours: '24',
+      soft_close_window_minutes: '',
+      soft_close_extension_minutes: '',
+      soft_close_max_extension_minutes: '',
+      auction_type: 'english',
+      quantity: '1',
+      floor_price: '',
+      price_decrement: '',
+      decrement_interval_minutes: '',
+      auto_relist_limit: '0',
+      category_id: '',
+      tags: '',
+      condition: '',
+      pickup_location: '',
+      returns_policy: '',
     });
+    setAttributeValues({});
+    setShippingOptions([]);
+    setIncrementTiers([]);
+    images.forEach(image => image.previewUrl.startsWith('blob:') && URL.revokeObjectURL(image.previewUrl));
+    setImages([]);
+    setStoredImages([]);
+    setDraftId(null);
+  };
+
+  const handleTierChange = (index: number, field: 'min_price' | 'increment', value: string) => {
+    setIncrementTiers(prev => prev.map((tier, i) => i === index ? { ...tier, [field]: value } : tier));
+  };
+
+  const handleShippingChange = (index: number, field: 'method' | 'cost', value: string) => {
+    setShippingOptions(prev => prev.map((option, i) => i === index ? { ...option, [field]: value } : option));
   };
 
   const handleChange = (field: string, value: string) => {
@@ -77,7 +454,7 @@ export function CreateAuctionModal({ isOpen, onClose, onAuctionCreated }: Create
 
   return (
     <Transition appear show={isOpen} as={Fragment}>
-      <Dialog as="div" className="relative z-50" onClose={onClose}>
+      <Dialog as="div" className="relative z-50" onClose={handleClose}>
         <Transition.Child
           as={Fragment}
           enter="ease-out duration-300"
@@ -104,10 +481,10 @@ export function CreateAuctionModal({ isOpen, onClose, onAuctionCreated }: Create
               <Dialog.Panel className="w-full max-w-2xl transform overflow-hidden rounded-xl bg-white p-6 text-left align-middle shadow-xl transition-all">
                 <div className="flex items-center justify-between mb-6">
                   <Dialog.Title className="text-2xl font-bold text-gray-900">
-                    Create New Auction
+                    {draftId ? 'Edit Draft' : 'Create New Auction'}
                   </Dialog.Title>
                   <button
-                    onClick={onClose}
+                    onClick={handleClose}
                     className="text-gray-400 hover:text-gray-600 transition-colors"
                   >
                     <X className="w-6 h-6" />
@@ -146,38 +523,430 @@ export function CreateAuctionModal({ isOpen, onClose, onAuctionCreated }: Create
 
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
-                        <DollarSign className="inline w-4 h-4 mr-1" />
-                        Starting Price *
+                        Category
+                      </label>
+                      <select
+                        value={formData.category_id}
+                        onChange={(e) => handleChange('category_id', e.target.value)}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                      >
+                        <option value="">Uncategorized</option>
+                        {categoryTree.map(({ category, depth }) => (
+                          <option key={category.id} value={category.id}>
+                            {'\u00a0\u00a0'.repeat(depth)}{category.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Tags
                       </label>
                       <input
-                        type="number"
-                        step="0.01"
-                        min="0.01"
-                        value={formData.starting_price}
-                        onChange={(e) => handleChange('starting_price', e.target.value)}
+                        type="text"
+                        value={formData.tags}
+                        onChange={(e) => handleChange('tags', e.target.value)}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                        placeholder="vintage, signed, first edition"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">
+                        Separate tags with commas, up to {MAX_TAGS}
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Condition
+                      </label>
+                      <select
+                        value={formData.condition}
+                        onChange={(e) => handleChange('condition', e.target.value)}
                         required
                         className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
-                        placeholder="0.00"
+                      >
+                        <option value="">Select condition</option>
+                        {CONDITION_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Returns
+                      </label>
+                      <select
+                        value={formData.returns_policy}
+                        onChange={(e) => handleChange('returns_policy', e.target.value)}
+                        required
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                      >
+                        <option value="">Select returns policy</option>
+                        {RETURNS_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {attributeSchema.map(attribute => (
+                      <div key={attribute.id}>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          {attribute.label}{attribute.required && ' *'}
+                        </label>
+                        {attribute.type === 'select' ? (
+                          <select
+                            value={attributeValues[attribute.key] ?? ''}
+                            onChange={(e) => setAttributeValues(prev => ({ ...prev, [attribute.key]: e.target.value }))}
+                            required={attribute.required}
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                          >
+                            <option value="">{attribute.required ? 'Select' : 'Not specified'}</option>
+                            {attribute.options.map(option => (
+                              <option key={option} value={option}>{option}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <input
+                            type={attribute.type === 'number' ? 'number' : 'text'}
+                            step="any"
+                            value={attributeValues[attribute.key] ?? ''}
+                            onChange={(e) => setAttributeValues(prev => ({ ...prev, [attribute.key]: e.target.value }))}
+                            required={attribute.required}
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                          />
+                        )}
+                      </div>
+                    ))}
+
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        <Truck className="inline w-4 h-4 mr-1" />
+                        Shipping
+                      </label>
+                      <div className="space-y-2">
+                        {shippingOptions.map((option, index) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <input
+                              type="text"
+                              value={option.method}
+                              onChange={(e) => handleShippingChange(index, 'method', e.target.value)}
+                              required
+                              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                              placeholder="e.g. Standard, Express"
+                            />
+                            <span className="text-sm text-gray-500">$</span>
+                            <input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={option.cost}
+                              onChange={(e) => handleShippingChange(index, 'cost', e.target.value)}
+                              required
+                              className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                              placeholder="0.00"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => setShippingOptions(prev => prev.filter((_, i) => i !== index))}
+                              className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          type="button"
+                          onClick={() => setShippingOptions(prev => [...prev, { method: '', cost: '' }])}
+                          className="flex items-center text-sm font-medium text-amber-600 hover:text-amber-700"
+                        >
+                          <Plus className="w-4 h-4 mr-1" />
+                          Add shipping option
+                        </button>
+                      </div>
+                    </div>
+
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        <MapPin className="inline w-4 h-4 mr-1" />
+                        Local Pickup
+                      </label>
+                      <input
+                        type="text"
+                        value={formData.pickup_location}
+                        onChange={(e) => handleChange('pickup_location', e.target.value)}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                        placeholder="Where buyers can collect from, leave empty to ship only"
                       />
                     </div>
 
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Photos
+                      </label>
+                      <ImageUploader images={images} onChange={setImages} />
+                    </div>
+
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Auction Format
+                      </label>
+                      <div className="grid grid-cols-2 gap-3">
+                        {[
+                          { value: 'english', label: 'Ascending', hint: 'Bidders compete the price up' },
+                          { value: 'dutch', label: 'Dutch', hint: 'Price drops until someone buys' },
+                          { value: 'sealed_first_price', label: 'Sealed, First Price', hint: 'Hidden bids, the winner pays their bid' },
+                          { value: 'sealed_second_price', label: 'Sealed, Second Price', hint: 'Hidden bids, the winner pays the runner-up bid plus one increment' },
+                          { value: 'reverse', label: 'Reverse', hint: 'You are buying, suppliers bid the price down' },
+                        ].map(option => (
+                          <button
+                            key={option.value}
+                            type="button"
+                            onClick={() => handleChange('auction_type', option.value)}
+                            className={`p-3 rounded-lg border text-left transition-colors ${
+                              formData.auction_type === option.value
+                                ? 'border-amber-500 bg-amber-50'
+                                : 'border-gray-300 hover:bg-gray-50'
+                            }`}
+                          >
+                            <div className="font-medium text-gray-900">{option.label}</div>
+                            <div className="text-xs text-gray-500">{option.hint}</div>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    {formData.auction_type === 'english' && (
+                      <div className="md:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Quantity *
+                        </label>
+                        <input
+                          type="number"
+                          min="1"
+                          value={formData.quantity}
+                          onChange={(e) => handleChange('quantity', e.target.value)}
+                          required
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                        />
+                        {isLot && (
+                          <p className="mt-2 text-sm text-gray-500">
+                            Bidders ask for a number of units. The top bids that fit win and all pay the
+                            lowest winning price.
+                          </p>
+                        )}
+                      </div>
+                    )}
+
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
                         <DollarSign className="inline w-4 h-4 mr-1" />
-                        Bid Increment *
+                        {isDutch ? 'Start Price *' :
+                          isLot ? 'Starting Price per Unit *' :
+                          isReverse ? 'Maximum Price *' :
+                          'Starting Price *'}
                       </label>
                       <input
                         type="number"
                         step="0.01"
                         min="0.01"
-                        value={formData.bid_increment}
-                        onChange={(e) => handleChange('bid_increment', e.target.value)}
+                        value={formData.starting_price}
+                        onChange={(e) => handleChange('starting_price', e.target.value)}
                         required
                         className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
-                        placeholder="1.00"
+                        placeholder="0.00"
                       />
                     </div>
 
+                    {isDutch ? (
+                      <>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            <DollarSign className="inline w-4 h-4 mr-1" />
+                            Floor Price *
+                          </label>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0.01"
+                            value={formData.floor_price}
+                            onChange={(e) => handleChange('floor_price', e.target.value)}
+                            required
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                            placeholder="The price never drops below this"
+                          />
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            <DollarSign className="inline w-4 h-4 mr-1" />
+                            Price Drop *
+                          </label>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0.01"
+                            value={formData.price_decrement}
+                            onChange={(e) => handleChange('price_decrement', e.target.value)}
+                            required
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                            placeholder="1.00"
+                          />
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            <Clock className="inline w-4 h-4 mr-1" />
+                            Drop Every (minutes) *
+                          </label>
+                          <input
+                            type="number"
+                            min="1"
+                            value={formData.decrement_interval_minutes}
+                            onChange={(e) => handleChange('decrement_interval_minutes', e.target.value)}
+                            required
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                            placeholder="10"
+                          />
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                        <div className={isTiered ? 'md:col-span-2' : ''}>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            <DollarSign className="inline w-4 h-4 mr-1" />
+                            Bid Increment *
+                          </label>
+                          <select
+                            value={formData.increment_mode}
+                            onChange={(e) => handleChange('increment_mode', e.target.value)}
+                            className="w-full mb-2 px-4 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                          >
+                            <option value="fixed">Fixed amount</option>
+                            <option value="tiered">Tiered by current price</option>
+                          </select>
+                          {isTiered ? (
+                            <div className="space-y-2">
+                              {incrementTiers.map((tier, index) => (
+                                <div key={index} className="flex items-center space-x-2">
+                                  <span className="text-sm text-gray-500 w-12">From $</span>
+                                  <input
+                                    type="number"
+                                    step="0.01"
+                                    min="0"
+                                    value={tier.min_price}
+                                    onChange={(e) => handleTierChange(index, 'min_price', e.target.value)}
+                                    required
+                                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                                    placeholder="0.00"
+                                  />
+                                  <span className="text-sm text-gray-500">bids go up by $</span>
+                                  <input
+                                    type="number"
+                                    step="0.01"
+                                    min="0.01"
+                                    value={tier.increment}
+                                    onChange={(e) => handleTierChange(index, 'increment', e.target.value)}
+                                    required
+                                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                                    placeholder="1.00"
+                                  />
+                                  <button
+                                    type="button"
+                                    onClick={() => setIncrementTiers(prev => prev.filter((_, i) => i !== index))}
+                                    className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </button>
+                                </div>
+                              ))}
+                              <button
+                                type="button"
+                                onClick={() => setIncrementTiers(prev => [...prev, { min_price: '', increment: '' }])}
+                                className="flex items-center text-sm font-medium text-amber-600 hover:text-amber-700"
+                              >
+                                <Plus className="w-4 h-4 mr-1" />
+                                Add tier
+                              </button>
+                              {parsedTiers.length > 0 && formData.starting_price && (
+                                <p className="text-sm text-gray-500">
+                                  Preview: {[
+                                    parseFloat(formData.starting_price),
+                                    ...parsedTiers.map(tier => tier.min_price).filter(price => price > parseFloat(formData.starting_price)),
+                                  ].map(price => {
+                                    const increment = getTierIncrement(parsedTiers, price) ?? parsedTiers[0].increment;
+                                    return `at $${price.toFixed(2)} the next bid is $${(price + increment).toFixed(2)}`;
+                                  }).join(', ')}
+                                </p>
+                              )}
+                            </div>
+                          ) : (
+                            <input
+                              type="number"
+                              step="0.01"
+                              min="0.01"
+                              value={formData.bid_increment}
+                              onChange={(e) => handleChange('bid_increment', e.target.value)}
+                              required
+                              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                              placeholder="1.00"
+                            />
+                          )}
+                        </div>
+
+                        {!isReverse && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              <DollarSign className="inline w-4 h-4 mr-1" />
+                              Reserve Price
+                            </label>
+                            <input
+                              type="number"
+                              step="0.01"
+                              min={formData.starting_price || '0.01'}
+                              value={formData.reserve_price}
+                              onChange={(e) => handleChange('reserve_price', e.target.value)}
+                              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                              placeholder="Optional"
+                            />
+                            <p className="mt-2 text-sm text-gray-500">
+                              The item won't sell below this amount. Bidders only see whether it has been met.
+                            </p>
+                          </div>
+                        )}
+
+                        {!isSealed && !isLot && !isReverse && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              <DollarSign className="inline w-4 h-4 mr-1" />
+                              Buy It Now Price
+                            </label>
+                            <input
+                              type="number"
+                              step="0.01"
+                              min={formData.starting_price || '0.01'}
+                              value={formData.buy_now_price}
+                              onChange={(e) => handleChange('buy_now_price', e.target.value)}
+                              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                              placeholder="Optional"
+                            />
+                            <select
+                              value={formData.buy_now_cutoff_percent}
+                              onChange={(e) => handleChange('buy_now_cutoff_percent', e.target.value)}
+                              disabled={!formData.buy_now_price}
+                              className="w-full mt-2 px-4 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all disabled:bg-gray-50"
+                            >
+                              <option value="1">Available until the first bid</option>
+                              <option value="25">Until bids reach 25% of it</option>
+                              <option value="50">Until bids reach 50% of it</option>
+                              <option value="75">Until bids reach 75% of it</option>
+                              <option value="100">Until bids reach it</option>
+                            </select>
+                          </div>
+                        )}
+                      </>
+                    )}
+
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
                         <Calendar className="inline w-4 h-4 mr-1" />
@@ -226,22 +995,88 @@ export function CreateAuctionModal({ isOpen, onClose, onAuctionCreated }: Create
                         <option value="168">1 week</option>
                       </select>
                     </div>
+
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Relist Automatically
+                      </label>
+                      <select
+                        value={formData.auto_relist_limit}
+                        onChange={(e) => handleChange('auto_relist_limit', e.target.value)}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                      >
+                        <option value="0">Never</option>
+                        <option value="1">Once if nobody bids</option>
+                        <option value="2">Up to 2 times if nobody bids</option>
+                        <option value="3">Up to 3 times if nobody bids</option>
+                        <option value="5">Up to 5 times if nobody bids</option>
+                      </select>
+                    </div>
+
+                    {!isDutch && !isSealed && (
+                      <div className="md:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Soft Close
+                        </label>
+                        <p className="text-sm text-gray-500 mb-3">
+                          Bids placed in the final minutes extend the auction, so nobody wins by sniping.
+                          Leave the window empty to end exactly on time.
+                        </p>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          <input
+                            type="number"
+                            min="1"
+                            value={formData.soft_close_window_minutes}
+                            onChange={(e) => handleChange('soft_close_window_minutes', e.target.value)}
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                            placeholder="Final minutes (e.g. 5)"
+                          />
+                          <input
+                            type="number"
+                            min="1"
+                            value={formData.soft_close_extension_minutes}
+                            onChange={(e) => handleChange('soft_close_extension_minutes', e.target.value)}
+                            required={!!formData.soft_close_window_minutes}
+                            disabled={!formData.soft_close_window_minutes}
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all disabled:bg-gray-50"
+                            placeholder="Extend by minutes"
+                          />
+                          <input
+                            type="number"
+                            min="1"
+                            value={formData.soft_close_max_extension_minutes}
+                            onChange={(e) => handleChange('soft_close_max_extension_minutes', e.target.value)}
+                            disabled={!formData.soft_close_window_minutes}
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all disabled:bg-gray-50"
+                            placeholder="Max total (optional)"
+                          />
+                        </div>
+                      </div>
+                    )}
                   </div>
 
                   <div className="flex items-center justify-end space-x-4 pt-6 border-t">
                     <button
                       type="button"
-                      onClick={onClose}
+                      onClick={handleClose}
                       className="px-6 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
                     >
                       Cancel
                     </button>
+                    <button
+                      type="button"
+                      onClick={handleSaveDraft}
+                      disabled={loading}
+                      className="px-6 py-2 text-amber-700 border border-amber-300 rounded-lg font-medium hover:bg-amber-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Save as Draft
+                    </button>
                     <button
                       type="submit"
                       disabled={loading}
                       className="px-6 py-2 bg-amber-600 text-white rounded-lg font-medium hover:bg-amber-700 focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                      {loading ? 'Creating...' : 'Create Auction'}
+                      {loading ? 'Saving...' : 'Publish Auction'}
                     </button>
                   </div>
                 </form>
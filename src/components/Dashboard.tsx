@@ -9,13 +9,18 @@ import {
   Eye,
   Calendar,
   Award,
-  Activity
+  Activity,
+  FolderTree
 } from 'lucide-react';
-import { supabase, Database } from '../lib/supabase';
+import { supabase, PublishedAuction } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { useCategories } from '../hooks/useCategories';
+import { CategoryManager } from './CategoryManager';
+import { Link } from './Link';
+import { paths } from '../lib/routes';
 import { format } from 'date-fns';
 
-type Auction = Database['public']['Tables']['auctions']['Row'] & {
+type Auction = PublishedAuction & {
   profiles: { full_name: string | null; email: string } | null;
   bid_count?: number;
 };
@@ -31,6 +36,13 @@ type DashboardStats = {
 
 export function Dashboard() {
   const { user } = useAuth();
+  const {
+    categories,
+    tree: categoryTree,
+    attributes: categoryAttributes,
+    stats: categoryStats,
+    refresh: refreshCategories,
+  } = useCategories();
   const [stats, setStats] = useState<DashboardStats>({
     totalAuctions: 0,
     activeAuctions: 0,
@@ -70,13 +82,11 @@ export function Dashboard() {
     try {
       setLoading(true);
 
-      // Update auction statuses first
-      await supabase.rpc('update_auction_status');
-
-      // Get total auctions
+      // Get total auctions, drafts are not listed yet
       const { count: totalAuctions } = await supabase
         .from('auctions')
-        .select('*', { count: 'exact', head: true });
+        .select('*', { count: 'exact', head: true })
+        .neq('status', 'draft');
 
       // Get active auctions
       const { count: activeAuctions } = await supabase
@@ -101,16 +111,19 @@ export function Dashboard() {
           *,
           profiles!auctions_seller_id_fkey (full_name, email)
         `)
+        .neq('status', 'draft')
         .order('created_at', { ascending: false })
         .limit(5);
 
-      // Get top auctions by bid amount
+      // Get top auctions by bid amount, reverse auctions hold their lowest bid so they are left out
       const { data: topAuctions } = await supabase
         .from('auctions')
         .select(`
           *,
           profiles!auctions_seller_id_fkey (full_name, email)
         `)
+        .neq('auction_type', 'reverse')
+        .neq('status', 'draft')
         .order('highest_bid', { ascending: false })
         .limit(5);
 
@@ -225,6 +238,45 @@ export function Dashboard() {
           </div>
         </div>
 
+        {/* Stats by Category */}
+        {categoryTree.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-gray-900">By Category</h2>
+              <FolderTree className="w-5 h-5 text-gray-400" />
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="pb-3 font-medium">Category</th>
+                  <th className="pb-3 font-medium text-right">Live</th>
+                  <th className="pb-3 font-medium text-right">Auctions</th>
+                  <th className="pb-3 font-medium text-right">Bids</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {categoryTree.map(({ category, depth }) => (
+                  <tr key={category.id}>
+                    <td className="py-3" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                      <span className={depth === 0 ? 'font-medium text-gray-900' : 'text-gray-700'}>{category.name}</span>
+                    </td>
+                    <td className="py-3 text-right text-green-600 font-medium">
+                      {categoryStats[category.id]?.live_auctions ?? 0}
+                    </td>
+                    <td className="py-3 text-right text-gray-900">
+                      {categoryStats[category.id]?.total_auctions ?? 0}
+                    </td>
+                    <td className="py-3 text-right text-amber-600">
+                      {categoryStats[category.id]?.total_bids ?? 0}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Recent Auctions */}
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
@@ -245,11 +297,18 @@ export function Dashboard() {
                       <h3 className="font-medium text-gray-900 truncate">{auction.title}</h3>
                       <div className="flex items-center space-x-4 mt-1">
                         <span className="text-sm text-gray-500">
-                          by {auction.profiles?.full_name || auction.profiles?.email}
+                          by{' '}
+                          <Link
+                            to={paths.seller(auction.seller_id)}
+                            className="hover:text-amber-600 hover:underline transition-colors"
+                          >
+                            {auction.profiles?.full_name || auction.profiles?.email}
+                          </Link>
                         </span>
                         <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                           auction.status === 'active' ? 'bg-green-100 text-green-800' :
                           auction.status === 'ended' ? 'bg-gray-100 text-gray-800' :
+                          auction.status === 'cancelled' ? 'bg-red-100 text-red-800' :
                           'bg-blue-100 text-blue-800'
                         }`}>
                           {auction.status}
@@ -308,6 +367,7 @@ export function Dashboard() {
                       <div className={`text-xs px-2 py-1 rounded-full ${
                         auction.status === 'active' ? 'bg-green-100 text-green-800' :
                         auction.status === 'ended' ? 'bg-gray-100 text-gray-800' :
+                        auction.status === 'cancelled' ? 'bg-red-100 text-red-800' :
                         'bg-blue-100 text-blue-800'
                       }`}>
                         {auction.status}
@@ -342,6 +402,10 @@ export function Dashboard() {
                   <div className="text-sm font-medium text-purple-900">Analytics</div>
                 </button>
               </div>
+
+              <div className="mt-8 pt-6 border-t border-gray-200">
+                <CategoryManager categories={categories} attributes={categoryAttributes} onChanged={refreshCategories} />
+              </div>
             </div>
           </div>
         )}
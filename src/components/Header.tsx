@@ -1,18 +1,22 @@
 import React, { useState } from 'react';
-import { Gavel, Bell, User, LogOut, Plus } from 'lucide-react';
+import { Gavel, Bell, User, LogOut, Plus, Eye } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { useNotifications } from '../hooks/useNotifications';
+import { navigate } from '../hooks/useRoute';
+import { paths } from '../lib/routes';
 import { AuthModal } from './AuthModal';
 import { NotificationPanel } from './NotificationPanel';
+import { Link } from './Link';
 
 interface HeaderProps {
   onCreateAuction: () => void;
   onDashboard?: () => void;
   onNavigateHome: () => void;
   dashboardButtonText?: string;
+  onWatching?: () => void;
 }
 
-export function Header({ onCreateAuction, onDashboard, onNavigateHome, dashboardButtonText }: HeaderProps) {
+export function Header({ onCreateAuction, onDashboard, onNavigateHome, dashboardButtonText, onWatching }: HeaderProps) {
   const { user, signOut } = useAuth();
   const { unreadCount } = useNotifications();
   const [showAuthModal, setShowAuthModal] = useState(false);
@@ -20,6 +24,7 @@ export function Header({ onCreateAuction, onDashboard, onNavigateHome, dashboard
 
   const handleSignOut = async () => {
     await signOut();
+    navigate(paths.home());
   };
 
   return (
@@ -35,6 +40,16 @@ export function Header({ onCreateAuction, onDashboard, onNavigateHome, dashboard
             <div className="flex items-center space-x-4">
               {user ? (
                 <>
+                  {onWatching && (
+                    <button
+                      onClick={onWatching}
+                      className="inline-flex items-center px-4 py-2 text-gray-700 border border-gray-300 text-sm font-medium rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      <Eye className="w-4 h-4 mr-2" />
+                      Watching
+                    </button>
+                  )}
+
                   {onDashboard && (
                     <button
                       onClick={onDashboard}
@@ -65,12 +80,16 @@ export function Header({ onCreateAuction, onDashboard, onNavigateHome, dashboard
                   </button>
 
                   <div className="flex items-center space-x-3">
-                    <div className="flex items-center space-x-2">
+                    <Link
+                      to={paths.profileSettings()}
+                      className="flex items-center space-x-2 hover:text-amber-600 transition-colors"
+                      title="Profile settings"
+                    >
                       <div className="w-8 h-8 bg-amber-100 rounded-full flex items-center justify-center">
                         <User className="w-4 h-4 text-amber-600" />
                       </div>
                       <span className="text-sm font-medium text-gray-700">{user.email}</span>
-                    </div>
+                    </Link>
                     
                     <button
                       onClick={handleSignOut}
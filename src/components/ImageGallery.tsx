@@ -0,0 +1,139 @@
+import React, { useState, Fragment } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { ChevronLeft, ChevronRight, X, ZoomIn, ZoomOut } from 'lucide-react';
+import { Database } from '../lib/supabase';
+import { getImageUrl } from '../lib/images';
+
+type AuctionImage = Database['public']['Tables']['auction_images']['Row'];
+
+interface ImageGalleryProps {
+  images: AuctionImage[];
+  title: string;
+}
+
+const ZOOM_SCALE = 2.5;
+
+export function ImageGallery({ images, title }: ImageGalleryProps) {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [viewerOpen, setViewerOpen] = useState(false);
+  const [zoomed, setZoomed] = useState(false);
+  const [zoomOrigin, setZoomOrigin] = useState('50% 50%');
+
+  if (images.length === 0) return null;
+
+  const active = images[Math.min(activeIndex, images.length - 1)];
+
+  const showImage = (index: number) => {
+    setActiveIndex((index + images.length) % images.length);
+    setZoomed(false);
+  };
+
+  // Zoom in on the point under the pointer and follow it while zoomed
+  const updateZoomOrigin = (e: React.MouseEvent<HTMLImageElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - bounds.left) / bounds.width) * 100;
+    const y = ((e.clientY - bounds.top) / bounds.height) * 100;
+    setZoomOrigin(`${x}% ${y}%`);
+  };
+
+  const closeViewer = () => {
+    setViewerOpen(false);
+    setZoomed(false);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <button
+        onClick={() => setViewerOpen(true)}
+        className="relative block w-full aspect-video bg-gray-100 cursor-zoom-in"
+      >
+        <img src={getImageUrl(active.path)} alt={title} className="w-full h-full object-contain" />
+      </button>
+
+      {images.length > 1 && (
+        <div className="flex gap-2 p-3 overflow-x-auto">
+          {images.map((image, index) => (
+            <button
+              key={image.id}
+              onClick={() => showImage(index)}
+              className={`flex-shrink-0 w-20 h-20 rounded-lg overflow-hidden border-2 transition-colors ${
+                image.id === active.id ? 'border-amber-600' : 'border-transparent hover:border-gray-300'
+              }`}
+            >
+              <img src={getImageUrl(image.thumbnail_path)} alt="" className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      <Transition appear show={viewerOpen} as={Fragment}>
+        <Dialog as="div" className="relative z-50" onClose={closeViewer}>
+          <Transition.Child
+            as={Fragment}
+            enter="ease-out duration-200"
+            enterFrom="opacity-0"
+            enterTo="opacity-100"
+            leave="ease-in duration-150"
+            leaveFrom="opacity-100"
+            leaveTo="opacity-0"
+          >
+            <div className="fixed inset-0 bg-black/90" />
+          </Transition.Child>
+
+          <div className="fixed inset-0 flex items-center justify-center p-4">
+            <Dialog.Panel className="relative w-full h-full flex items-center justify-center">
+              <div className="absolute top-0 right-0 flex items-center space-x-2 z-10">
+                <button
+                  onClick={() => setZoomed(prev => !prev)}
+                  className="p-2 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
+                >
+                  {zoomed ? <ZoomOut className="w-5 h-5" /> : <ZoomIn className="w-5 h-5" />}
+                </button>
+                <button
+                  onClick={closeViewer}
+                  className="p-2 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              {images.length > 1 && (
+                <>
+                  <button
+                    onClick={() => showImage(activeIndex - 1)}
+                    className="absolute left-0 z-10 p-2 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
+                  >
+                    <ChevronLeft className="w-6 h-6" />
+                  </button>
+                  <button
+                    onClick={() => showImage(activeIndex + 1)}
+                    className="absolute right-0 z-10 p-2 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
+                  >
+                    <ChevronRight className="w-6 h-6" />
+                  </button>
+                </>
+              )}
+
+              <div className="max-w-full max-h-full overflow-hidden">
+                <img
+                  src={getImageUrl(active.path)}
+                  alt={title}
+                  onClick={() => setZoomed(prev => !prev)}
+                  onMouseMove={updateZoomOrigin}
+                  style={{ transform: zoomed ? `scale(${ZOOM_SCALE})` : 'none', transformOrigin: zoomOrigin }}
+                  className={`max-w-full max-h-[90vh] object-contain transition-transform duration-200 ${
+                    zoomed ? 'cursor-zoom-out' : 'cursor-zoom-in'
+                  }`}
+                />
+              </div>
+
+              <div className="absolute bottom-0 text-sm text-white/70">
+                {activeIndex + 1} / {images.length}
+              </div>
+            </Dialog.Panel>
+          </div>
+        </Dialog>
+      </Transition>
+    </div>
+  );
+}
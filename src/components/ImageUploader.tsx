@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import { ImagePlus, X } from 'lucide-react';
+import { MAX_IMAGES, UploadedImage } from '../lib/images';
+import toast from 'react-hot-toast';
+
+// An image in the form: either already stored, or a picked file waiting for the next save
+export type ListingImage = {
+  key: string;
+  previewUrl: string;
+  file?: File;
+  uploaded?: UploadedImage;
+};
+
+interface ImageUploaderProps {
+  images: ListingImage[];
+  onChange: (images: ListingImage[]) => void;
+}
+
+export function ImageUploader({ images, onChange }: ImageUploaderProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropActive, setDropActive] = useState(false);
+
+  const addFiles = (files: FileList | null) => {
+    if (!files) return;
+
+    const picked = Array.from(files).filter(file => file.type.startsWith('image/'));
+    const room = MAX_IMAGES - images.length;
+
+    if (picked.length > room) {
+      toast.error(`A listing can have up to ${MAX_IMAGES} images`);
+    }
+
+    onChange([
+      ...images,
+      ...picked.slice(0, Math.max(room, 0)).map(file => ({
+        key: crypto.randomUUID(),
+        previewUrl: URL.createObjectURL(file),
+        file,
+      })),
+    ]);
+  };
+
+  const removeImage = (index: number) => {
+    const image = images[index];
+    if (image.file) {
+      URL.revokeObjectURL(image.previewUrl);
+    }
+
+    onChange(images.filter((_, i) => i !== index));
+  };
+
+  const moveImage = (from: number, to: number) => {
+    if (from === to) return;
+
+    const reordered = [...images];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    onChange(reordered);
+  };
+
+  // Files dropped from the desktop are added, thumbnails dropped onto each other are reordered
+  const handleDrop = (e: React.DragEvent, targetIndex: number | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropActive(false);
+
+    if (dragIndex !== null) {
+      moveImage(dragIndex, targetIndex ?? images.length - 1);
+      setDragIndex(null);
+    } else {
+      addFiles(e.dataTransfer.files);
+    }
+  };
+
+  return (
+    <div>
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (dragIndex === null) setDropActive(true);
+        }}
+        onDragLeave={() => setDropActive(false)}
+        onDrop={(e) => handleDrop(e, null)}
+        className={`rounded-lg border-2 border-dashed p-4 transition-colors ${
+          dropActive ? 'border-amber-500 bg-amber-50' : 'border-gray-300'
+        }`}
+      >
+        {images.length > 0 && (
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-3 mb-4">
+            {images.map((image, index) => (
+              <div
+                key={image.key}
+                draggable
+                onDragStart={() => setDragIndex(index)}
+                onDragEnd={() => setDragIndex(null)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => handleDrop(e, index)}
+                className={`relative aspect-square rounded-lg overflow-hidden border cursor-move ${
+                  dragIndex === index ? 'opacity-50 border-amber-500' : 'border-gray-200'
+                }`}
+              >
+                <img src={image.previewUrl} alt="" className="w-full h-full object-cover" />
+                {index === 0 && (
+                  <span className="absolute bottom-1 left-1 px-2 py-0.5 rounded-full bg-amber-600 text-xs font-medium text-white">
+                    Cover
+                  </span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => removeImage(index)}
+                  className="absolute top-1 right-1 p-1 rounded-full bg-white/90 text-gray-600 hover:text-red-600 transition-colors"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={images.length >= MAX_IMAGES}
+          className="w-full flex flex-col items-center py-4 text-sm text-gray-500 hover:text-amber-600 transition-colors disabled:opacity-50"
+        >
+          <ImagePlus className="w-8 h-8 mb-2" />
+          Drop photos here or click to browse
+          <span className="text-xs text-gray-400 mt-1">
+            Drag thumbnails to reorder, the first one is the cover · up to {MAX_IMAGES}
+          </span>
+        </button>
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -3,11 +3,12 @@ import { Gavel, TrendingUp, Shield, Clock, Users, Star, ArrowRight } from 'lucid
 import { AuthModal } from './AuthModal';
 
 interface LandingPageProps {
-  onGetStarted: () => void;
+  // Set when a link to a page behind sign-in was opened, that page shows once the visitor signs in
+  signInRequired?: boolean;
 }
 
-export function LandingPage({ onGetStarted }: LandingPageProps) {
-  const [showAuthModal, setShowAuthModal] = useState(false);
+export function LandingPage({ signInRequired = false }: LandingPageProps) {
+  const [showAuthModal, setShowAuthModal] = useState(signInRequired);
 
   const handleGetStarted = () => {
     setShowAuthModal(true);
@@ -15,7 +16,6 @@ export function LandingPage({ onGetStarted }: LandingPageProps) {
 
   const handleAuthSuccess = () => {
     setShowAuthModal(false);
-    onGetStarted();
   };
 
   return (
@@ -0,0 +1,378 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { Fragment } from 'react';
+import { X, DollarSign, Ban, Square } from 'lucide-react';
+import { supabase, PublishedAuction } from '../lib/supabase';
+import { isSealedAuction } from '../lib/bidding';
+import toast from 'react-hot-toast';
+
+type Auction = PublishedAuction;
+
+interface ManageAuctionModalProps {
+  isOpen: boolean;
+  auction: Auction;
+  reservePrice: number | null;
+  // Sealed bids are hidden from the seller, so the server has the final word
+  hasBids: boolean;
+  onClose: () => void;
+  onUpdated: () => void;
+}
+
+export function ManageAuctionModal({ isOpen, auction, reservePrice, hasBids, onClose, onUpdated }: ManageAuctionModalProps) {
+  const [submitting, setSubmitting] = useState(false);
+  const [details, setDetails] = useState({ title: '', description: '' });
+  const [pricing, setPricing] = useState({
+    starting_price: '',
+    bid_increment: '',
+    buy_now_price: '',
+    reserve_price: '',
+    floor_price: '',
+    price_decrement: '',
+  });
+  const [cancelReason, setCancelReason] = useState('');
+  // The form starts from the auction as it was when the modal opened, live updates leave edits alone
+  const current = useRef({ auction, reservePrice });
+  current.current = { auction, reservePrice };
+
+  const isDutch = auction.auction_type === 'dutch';
+  const isReverse = auction.auction_type === 'reverse';
+  const allowsBuyNow = !isDutch && !isSealedAuction(auction.auction_type) && !isReverse && auction.quantity === 1;
+  const isActive = auction.status === 'active' && new Date(auction.end_time) > new Date();
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const { auction, reservePrice } = current.current;
+    setDetails({ title: auction.title, description: auction.description });
+    setPricing({
+      starting_price: String(auction.starting_price),
+      bid_increment: String(auction.bid_increment),
+      buy_now_price: auction.buy_now_price !== null ? String(auction.buy_now_price) : '',
+      reserve_price: reservePrice !== null ? String(reservePrice) : '',
+      floor_price: auction.floor_price !== null ? String(auction.floor_price) : '',
+      price_decrement: auction.price_decrement !== null ? String(auction.price_decrement) : '',
+    });
+    setCancelReason('');
+  }, [isOpen]);
+
+  const runAction = async (rpc: string, params: Record<string, unknown>, successMessage: string) => {
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc(rpc, { p_auction_id: auction.id, ...params });
+
+      if (error) throw error;
+
+      toast.success(successMessage);
+      onUpdated();
+      onClose();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update auction');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSaveDetails = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    runAction('update_auction_details', {
+      p_title: details.title,
+      p_description: details.description,
+    }, 'Auction details updated');
+  };
+
+  const handleSavePricing = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const startingPrice = parseFloat(pricing.starting_price);
+    const reserve = !isDutch && !isReverse && pricing.reserve_price ? parseFloat(pricing.reserve_price) : null;
+    const buyNow = allowsBuyNow && pricing.buy_now_price ? parseFloat(pricing.buy_now_price) : null;
+
+    if (isDutch && parseFloat(pricing.floor_price) >= startingPrice) {
+      toast.error('Floor price must be below the start price');
+      return;
+    }
+
+    if (reserve !== null && reserve < startingPrice) {
+      toast.error('Reserve price cannot be lower than the starting price');
+      return;
+    }
+
+    if (buyNow !== null && buyNow <= Math.max(startingPrice, reserve ?? 0)) {
+      toast.error('Buy It Now price must be above the starting and reserve prices');
+      return;
+    }
+
+    runAction('update_auction_pricing', {
+      p_starting_price: startingPrice,
+      // Dutch auctions step down by their decrement, tiered auctions keep their fallback increment
+      p_bid_increment: isDutch ? parseFloat(pricing.price_decrement) : parseFloat(pricing.bid_increment),
+      p_buy_now_price: buyNow,
+      p_reserve_price: reserve,
+      p_floor_price: isDutch ? parseFloat(pricing.floor_price) : null,
+      p_price_decrement: isDutch ? parseFloat(pricing.price_decrement) : null,
+    }, 'Pricing updated');
+  };
+
+  const handleCancelAuction = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm(`Cancel "${auction.title}"? Everyone who bid will be notified. This cannot be undone.`)) return;
+
+    runAction('cancel_auction', { p_reason: cancelReason }, 'Auction cancelled');
+  };
+
+  const handleEndEarly = () => {
+    if (!confirm(`End "${auction.title}" now? It will close without a sale.`)) return;
+
+    runAction('end_auction_early', {}, 'Auction ended');
+  };
+
+  const handlePricingChange = (field: string, value: string) => {
+    setPricing(prev => ({ ...prev, [field]: value }));
+  };
+
+  const inputClass = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all disabled:bg-gray-50';
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black/25 backdrop-blur-sm" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-2xl transform overflow-hidden rounded-xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <div className="flex items-center justify-between mb-6">
+                  <Dialog.Title className="text-2xl font-bold text-gray-900">
+                    Manage Auction
+                  </Dialog.Title>
+                  <button
+                    onClick={onClose}
+                    className="text-gray-400 hover:text-gray-600 transition-colors"
+                  >
+                    <X className="w-6 h-6" />
+                  </button>
+                </div>
+
+                <div className="space-y-8">
+                  <form onSubmit={handleSaveDetails} className="space-y-4">
+                    <h3 className="text-lg font-bold text-gray-900">Details</h3>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Item Title *
+                      </label>
+                      <input
+                        type="text"
+                        value={details.title}
+                        onChange={(e) => setDetails(prev => ({ ...prev, title: e.target.value }))}
+                        required
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Description *
+                      </label>
+                      <textarea
+                        value={details.description}
+                        onChange={(e) => setDetails(prev => ({ ...prev, description: e.target.value }))}
+                        required
+                        rows={4}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div className="flex justify-end">
+                      <button
+                        type="submit"
+                        disabled={submitting}
+                        className="px-6 py-2 bg-amber-600 text-white rounded-lg font-medium hover:bg-amber-700 transition-colors disabled:opacity-50"
+                      >
+                        Save Details
+                      </button>
+                    </div>
+                  </form>
+
+                  <form onSubmit={handleSavePricing} className="space-y-4 pt-6 border-t border-gray-200">
+                    <h3 className="text-lg font-bold text-gray-900">Pricing</h3>
+                    {hasBids && (
+                      <p className="text-sm text-gray-500">Pricing is locked once the first bid is placed.</p>
+                    )}
+                    <fieldset disabled={hasBids || submitting} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          <DollarSign className="inline w-4 h-4 mr-1" />
+                          {isDutch ? 'Start Price *' : isReverse ? 'Maximum Price *' : 'Starting Price *'}
+                        </label>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0.01"
+                          value={pricing.starting_price}
+                          onChange={(e) => handlePricingChange('starting_price', e.target.value)}
+                          required
+                          className={inputClass}
+                        />
+                      </div>
+
+                      {isDutch ? (
+                        <>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              Floor Price *
+                            </label>
+                            <input
+                              type="number"
+                              step="0.01"
+                              min="0.01"
+                              value={pricing.floor_price}
+                              onChange={(e) => handlePricingChange('floor_price', e.target.value)}
+                              required
+                              className={inputClass}
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              Price Drop *
+                            </label>
+                            <input
+                              type="number"
+                              step="0.01"
+                              min="0.01"
+                              value={pricing.price_decrement}
+                              onChange={(e) => handlePricingChange('price_decrement', e.target.value)}
+                              required
+                              className={inputClass}
+                            />
+                          </div>
+                        </>
+                      ) : !auction.use_increment_tiers && (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            Bid Increment *
+                          </label>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0.01"
+                            value={pricing.bid_increment}
+                            onChange={(e) => handlePricingChange('bid_increment', e.target.value)}
+                            required
+                            className={inputClass}
+                          />
+                        </div>
+                      )}
+
+                      {!isDutch && !isReverse && (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            Reserve Price
+                          </label>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0.01"
+                            value={pricing.reserve_price}
+                            onChange={(e) => handlePricingChange('reserve_price', e.target.value)}
+                            className={inputClass}
+                            placeholder="No reserve"
+                          />
+                        </div>
+                      )}
+
+                      {allowsBuyNow && (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            Buy It Now Price
+                          </label>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0.01"
+                            value={pricing.buy_now_price}
+                            onChange={(e) => handlePricingChange('buy_now_price', e.target.value)}
+                            className={inputClass}
+                            placeholder="No Buy It Now"
+                          />
+                        </div>
+                      )}
+                    </fieldset>
+                    {!hasBids && (
+                      <div className="flex justify-end">
+                        <button
+                          type="submit"
+                          disabled={submitting}
+                          className="px-6 py-2 bg-amber-600 text-white rounded-lg font-medium hover:bg-amber-700 transition-colors disabled:opacity-50"
+                        >
+                          Save Pricing
+                        </button>
+                      </div>
+                    )}
+                  </form>
+
+                  <div className="space-y-4 pt-6 border-t border-gray-200">
+                    <h3 className="text-lg font-bold text-gray-900">Close Auction</h3>
+
+                    {isActive && !hasBids && (
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm text-gray-600">Nobody has bid yet, so you can end the auction now.</p>
+                        <button
+                          type="button"
+                          onClick={handleEndEarly}
+                          disabled={submitting}
+                          className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
+                        >
+                          <Square className="w-4 h-4 mr-2" />
+                          End Now
+                        </button>
+                      </div>
+                    )}
+
+                    <form onSubmit={handleCancelAuction} className="space-y-3">
+                      <label className="block text-sm font-medium text-gray-700">
+                        Reason for cancelling *
+                      </label>
+                      <textarea
+                        value={cancelReason}
+                        onChange={(e) => setCancelReason(e.target.value)}
+                        required
+                        rows={2}
+                        className={inputClass}
+                        placeholder="Bidders will see this reason"
+                      />
+                      <button
+                        type="submit"
+                        disabled={submitting || !cancelReason.trim()}
+                        className="w-full flex items-center justify-center px-4 py-2 border border-red-300 text-red-600 rounded-lg font-medium hover:bg-red-50 transition-colors disabled:opacity-50"
+                      >
+                        <Ban className="w-4 h-4 mr-2" />
+                        Cancel Auction
+                      </button>
+                    </form>
+                  </div>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -4,6 +4,11 @@ import { Fragment } from 'react';
 import { X, Bell, Check, CheckCheck } from 'lucide-react';
 import { useNotifications } from '../hooks/useNotifications';
 import { formatDistanceToNow } from 'date-fns';
+import { Database } from '../lib/supabase';
+import { paths } from '../lib/routes';
+import { Link } from './Link';
+
+type Notification = Database['public']['Tables']['notifications']['Row'];
 
 interface NotificationPanelProps {
   isOpen: boolean;
@@ -13,6 +18,21 @@ interface NotificationPanelProps {
 export function NotificationPanel({ isOpen, onClose }: NotificationPanelProps) {
   const { notifications, markAsRead, markAllAsRead } = useNotifications();
 
+  const handleNotificationClick = (notification: Notification) => {
+    if (!notification.read) {
+      markAsRead(notification.id);
+    }
+
+    if (notification.auction_id) {
+      onClose();
+    }
+  };
+
+  const getActionText = (notification: Notification) => {
+    if (notification.type === 'counter_offer') return 'Respond to counter offer →';
+    return 'View auction →';
+  };
+
   const getNotificationIcon = (type: string) => {
     switch (type) {
       case 'new_bid':
@@ -27,6 +47,18 @@ export function NotificationPanel({ isOpen, onClose }: NotificationPanelProps) {
         return '❌';
       case 'counter_offer':
         return '🔄';
+      case 'bid_retracted':
+        return '↩️';
+      case 'auction_cancelled':
+        return '🚫';
+      case 'watch_starts_soon':
+        return '⏰';
+      case 'watch_ending_soon':
+        return '⌛';
+      case 'watch_price_changed':
+        return '💲';
+      case 'saved_search_match':
+        return '🔍';
       default:
         return '🔔';
     }
@@ -92,14 +124,11 @@ export function NotificationPanel({ isOpen, onClose }: NotificationPanelProps) {
                     </div>
                   ) : (
                     <div className="divide-y divide-gray-200">
-                      {notifications.map((notification) => (
-                        <div
-                          key={notification.id}
-                          className={`p-4 hover:bg-gray-50 transition-colors cursor-pointer ${
-                            !notification.read ? 'bg-amber-50' : ''
-                          }`}
-                          onClick={() => !notification.read && markAsRead(notification.id)}
-                        >
+                      {notifications.map((notification) => {
+                        const className = `block p-4 hover:bg-gray-50 transition-colors cursor-pointer ${
+                          !notification.read ? 'bg-amber-50' : ''
+                        }`;
+                        const content = (
                           <div className="flex items-start space-x-3">
                             <div className="text-2xl">
                               {getNotificationIcon(notification.type)}
@@ -111,13 +140,38 @@ export function NotificationPanel({ isOpen, onClose }: NotificationPanelProps) {
                               <p className="text-xs text-gray-500 mt-1">
                                 {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
                               </p>
+                              {notification.auction_id && (
+                                <p className="text-xs text-amber-600 font-medium mt-1">
+                                  {getActionText(notification)}
+                                </p>
+                              )}
                             </div>
                             {!notification.read && (
                               <div className="w-2 h-2 bg-amber-500 rounded-full"></div>
                             )}
                           </div>
-                        </div>
-                      ))}
+                        );
+
+                        // Entries about an auction link straight to it
+                        return notification.auction_id ? (
+                          <Link
+                            key={notification.id}
+                            to={paths.auction(notification.auction_id)}
+                            className={className}
+                            onClick={() => handleNotificationClick(notification)}
+                          >
+                            {content}
+                          </Link>
+                        ) : (
+                          <div
+                            key={notification.id}
+                            className={className}
+                            onClick={() => handleNotificationClick(notification)}
+                          >
+                            {content}
+                          </div>
+                        );
+                      })}
                     </div>
                   )}
                 </div>
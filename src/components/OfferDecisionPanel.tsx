@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CheckCircle, XCircle, RefreshCw, DollarSign } from 'lucide-react';
+import { supabase, Database } from '../lib/supabase';
+import toast from 'react-hot-toast';
+import { formatDistanceToNow } from 'date-fns';
+
+type Offer = Database['public']['Tables']['auction_offers']['Row'];
+
+interface OfferDecisionPanelProps {
+  offer: Offer;
+  userId: string;
+  isReverse?: boolean;
+  onDecided: () => void;
+}
+
+const statusText: Record<Offer['status'], string> = {
+  pending: 'Waiting for the seller to accept, reject or counter the winning bid',
+  accepted: 'The seller accepted the winning bid',
+  rejected: 'The seller declined the winning bid',
+  countered: 'The seller sent a counter offer',
+  counter_accepted: 'The counter offer was accepted',
+  counter_declined: 'The counter offer was declined',
+  counter_expired: 'The counter offer expired without a response',
+};
+
+export function OfferDecisionPanel({ offer, userId, isReverse = false, onDecided }: OfferDecisionPanelProps) {
+  const [counterAmount, setCounterAmount] = useState('');
+  const [counterHours, setCounterHours] = useState('48');
+  const [submitting, setSubmitting] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const isSeller = offer.seller_id === userId;
+  const sellerMustDecide = isSeller && offer.status === 'pending';
+  const bidderMustRespond = !isSeller && offer.status === 'countered' &&
+    offer.counter_expires_at !== null && new Date(offer.counter_expires_at) > new Date();
+
+  // Opening the auction from a notification lands on the pending decision
+  const actionRequired = sellerMustDecide || bidderMustRespond;
+  useEffect(() => {
+    if (actionRequired) {
+      panelRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [actionRequired]);
+
+  const runDecision = async (rpc: string, params: Record<string, unknown>, successMessage: string) => {
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc(rpc, params);
+
+      if (error) throw error;
+
+      toast.success(successMessage);
+      onDecided();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to record decision');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCounter = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Buyers in reverse auctions counter with a lower price
+    const amount = parseFloat(counterAmount);
+    if (isReverse ? amount >= offer.bid_amount : amount <= offer.bid_amount) {
+      toast.error(`Counter offer must be ${isReverse ? 'below' : 'above'} $${offer.bid_amount.toFixed(2)}`);
+      return;
+    }
+
+    runDecision('counter_top_bid', {
+      p_offer_id: offer.id,
+      p_counter_amount: amount,
+      p_expires_in_hours: parseInt(counterHours),
+    }, 'Counter offer sent');
+  };
+
+  return (
+    <div ref={panelRef} className="bg-white rounded-xl shadow-sm border-2 border-amber-300 p-6">
+      <h3 className="text-lg font-bold text-gray-900 mb-2">
+        {isSeller ? 'Your Decision' : 'Seller Decision'}
+      </h3>
+
+      <div className="flex justify-between text-sm mb-2">
+        <span className="text-gray-600">Winning Bid</span>
+        <span className="font-medium">${offer.bid_amount.toFixed(2)}</span>
+      </div>
+      {offer.counter_amount !== null && (
+        <div className="flex justify-between text-sm mb-2">
+          <span className="text-gray-600">Counter Offer</span>
+          <span className="font-medium text-amber-600">${offer.counter_amount.toFixed(2)}</span>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600 mb-4">
+        {statusText[offer.status]}
+        {offer.status === 'countered' && offer.counter_expires_at && (
+          <> · expires {formatDistanceToNow(new Date(offer.counter_expires_at), { addSuffix: true })}</>
+        )}
+      </p>
+
+      {sellerMustDecide && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => runDecision('accept_top_bid', { p_offer_id: offer.id }, 'Winning bid accepted')}
+              disabled={submitting}
+              className="flex items-center justify-center px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Accept
+            </button>
+            <button
+              onClick={() => runDecision('reject_top_bid', { p_offer_id: offer.id }, 'Winning bid rejected')}
+              disabled={submitting}
+              className="flex items-center justify-center px-4 py-2 border border-red-300 text-red-600 rounded-lg font-medium hover:bg-red-50 transition-colors disabled:opacity-50"
+            >
+              <XCircle className="w-4 h-4 mr-2" />
+              Reject
+            </button>
+          </div>
+
+          <form onSubmit={handleCounter} className="space-y-3 pt-4 border-t border-gray-200">
+            <label className="block text-sm font-medium text-gray-700">Counter Offer</label>
+            <div className="relative">
+              <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+              <input
+                type="number"
+                step="0.01"
+                min={isReverse ? 0.01 : offer.bid_amount + 0.01}
+                max={isReverse ? offer.bid_amount - 0.01 : undefined}
+                value={counterAmount}
+                onChange={(e) => setCounterAmount(e.target.value)}
+                required
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                placeholder={(isReverse ? Math.max(offer.bid_amount - 1, 0.01) : offer.bid_amount + 1).toFixed(2)}
+              />
+            </div>
+            <select
+              value={counterHours}
+              onChange={(e) => setCounterHours(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+            >
+              <option value="12">Bidder has 12 hours to respond</option>
+              <option value="24">Bidder has 24 hours to respond</option>
+              <option value="48">Bidder has 48 hours to respond</option>
+              <option value="72">Bidder has 72 hours to respond</option>
+            </select>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full flex items-center justify-center px-4 py-2 bg-amber-600 text-white rounded-lg font-medium hover:bg-amber-700 transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Send Counter Offer
+            </button>
+          </form>
+        </div>
+      )}
+
+      {bidderMustRespond && (
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={() => runDecision('respond_to_counter', { p_offer_id: offer.id, p_accept: true }, 'Counter offer accepted')}
+            disabled={submitting}
+            className="flex items-center justify-center px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            <CheckCircle className="w-4 h-4 mr-2" />
+            Accept
+          </button>
+          <button
+            onClick={() => runDecision('respond_to_counter', { p_offer_id: offer.id, p_accept: false }, 'Counter offer declined')}
+            disabled={submitting}
+            className="flex items-center justify-center px-4 py-2 border border-red-300 text-red-600 rounded-lg font-medium hover:bg-red-50 transition-colors disabled:opacity-50"
+          >
+            <XCircle className="w-4 h-4 mr-2" />
+            Decline
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { useSellerProfile } from '../hooks/useSellerProfile';
+import { AVATARS_BUCKET, uploadAvatar } from '../lib/images';
+import { paths } from '../lib/routes';
+import { Avatar } from './Avatar';
+import { Link } from './Link';
+import toast from 'react-hot-toast';
+
+// Enforced by the profiles table
+const MAX_BIO_LENGTH = 1000;
+
+export function ProfileSettings() {
+  const { user } = useAuth();
+  const { profile, loading, refresh } = useSellerProfile(user!.id);
+  const [fullName, setFullName] = useState('');
+  const [bio, setBio] = useState('');
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
+  const [removeAvatar, setRemoveAvatar] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (profile) {
+      setFullName(profile.full_name ?? '');
+      setBio(profile.bio ?? '');
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    return () => {
+      if (avatarPreview) URL.revokeObjectURL(avatarPreview);
+    };
+  }, [avatarPreview]);
+
+  const pickAvatar = (file: File | undefined) => {
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast.error(`${file.name} is not an image`);
+      return;
+    }
+
+    setAvatarFile(file);
+    setAvatarPreview(URL.createObjectURL(file));
+    setRemoveAvatar(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !profile) return;
+
+    setSaving(true);
+    try {
+      const previousAvatar = profile.avatar_path;
+      let avatarPath = removeAvatar ? null : previousAvatar;
+
+      if (avatarFile) {
+        avatarPath = await uploadAvatar(user.id, avatarFile);
+      }
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          full_name: fullName.trim() || null,
+          bio: bio.trim() || null,
+          avatar_path: avatarPath,
+        })
+        .eq('id', user.id);
+
+      if (error) throw error;
+
+      if (previousAvatar && previousAvatar !== avatarPath) {
+        const { error: removeError } = await supabase.storage.from(AVATARS_BUCKET).remove([previousAvatar]);
+
+        // A leftover file does not affect the profile
+        if (removeError) console.error('Failed to remove old avatar:', removeError);
+      }
+
+      toast.success('Profile updated');
+      setAvatarFile(null);
+      setAvatarPreview(null);
+      setRemoveAvatar(false);
+      refresh();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !profile) {
+    return (
+      <div className="flex justify-center py-16">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-amber-600"></div>
+      </div>
+    );
+  }
+
+  const displayName = fullName.trim() || profile.email;
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Profile Settings</h1>
+          <p className="text-gray-600">How other members see you on your profile and your listings</p>
+        </div>
+        <Link
+          to={paths.seller(profile.id)}
+          className="text-sm font-medium text-amber-600 hover:text-amber-700"
+        >
+          View profile
+        </Link>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-6">
+        <div className="flex items-center gap-6">
+          {avatarPreview ? (
+            <img src={avatarPreview} alt={displayName} className="w-24 h-24 rounded-full object-cover" />
+          ) : (
+            <Avatar
+              path={removeAvatar ? null : profile.avatar_path}
+              name={displayName}
+              className="w-24 h-24 text-3xl"
+            />
+          )}
+          <div className="flex flex-col gap-2">
+            <button
+              type="button"
+              onClick={() => inputRef.current?.click()}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+            >
+              <Camera className="w-4 h-4 mr-2" />
+              Upload photo
+            </button>
+            {(avatarPreview || (profile.avatar_path && !removeAvatar)) && (
+              <button
+                type="button"
+                onClick={() => {
+                  setAvatarFile(null);
+                  setAvatarPreview(null);
+                  setRemoveAvatar(true);
+                }}
+                className="inline-flex items-center text-sm text-gray-500 hover:text-red-600 transition-colors"
+              >
+                <Trash2 className="w-4 h-4 mr-1" />
+                Remove photo
+              </button>
+            )}
+            <input
+              ref={inputRef}
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              className="hidden"
+              onChange={(e) => {
+                pickAvatar(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Display Name
+          </label>
+          <input
+            type="text"
+            value={fullName}
+            onChange={(e) => setFullName(e.target.value)}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+            placeholder={profile.email}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Leave empty to show your email address
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Bio
+          </label>
+          <textarea
+            value={bio}
+            onChange={(e) => setBio(e.target.value)}
+            rows={5}
+            maxLength={MAX_BIO_LENGTH}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+            placeholder="What do you collect or sell?"
+          />
+          <p className="mt-1 text-xs text-gray-500 text-right">
+            {bio.length}/{MAX_BIO_LENGTH}
+          </p>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-6 py-3 bg-amber-600 text-white rounded-lg font-medium hover:bg-amber-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Changes'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
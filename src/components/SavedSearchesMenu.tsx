@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Bookmark, Trash2 } from 'lucide-react';
+import { useSavedSearches, SavedSearchFrequency } from '../hooks/useSavedSearches';
+import { AuctionFilters, filtersFromSavedSearch } from '../lib/auctionFilters';
+
+interface SavedSearchesMenuProps {
+  filters: AuctionFilters;
+  onApply: (filters: AuctionFilters) => void;
+}
+
+const frequencyOptions: { value: SavedSearchFrequency; label: string }[] = [
+  { value: 'immediate', label: 'Notify immediately' },
+  { value: 'daily', label: 'Daily summary' },
+  { value: 'off', label: 'No notifications' },
+];
+
+export function SavedSearchesMenu({ filters, onApply }: SavedSearchesMenuProps) {
+  const { savedSearches, saveSearch, setFrequency, deleteSearch } = useSavedSearches();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [frequency, setNewFrequency] = useState<SavedSearchFrequency>('immediate');
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    const saved = await saveSearch(name, filters, frequency);
+    setSaving(false);
+
+    if (saved) {
+      setName('');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`flex items-center px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+          isOpen ? 'border-amber-600 text-amber-600 bg-amber-50' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+        }`}
+      >
+        <Bookmark className="w-4 h-4 mr-2" />
+        Saved Searches
+        {savedSearches.length > 0 && (
+          <span className="ml-2 px-1.5 rounded-full bg-amber-100 text-xs text-amber-800">{savedSearches.length}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 z-30 mt-2 w-96 bg-white rounded-xl shadow-lg border border-gray-200 p-4">
+          <form onSubmit={handleSave} className="space-y-2 pb-4 border-b border-gray-200">
+            <label className="block text-sm font-medium text-gray-700">Save the current search</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              placeholder="e.g. Vintage watches under $500"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+            />
+            <div className="flex gap-2">
+              <select
+                value={frequency}
+                onChange={(e) => setNewFrequency(e.target.value as SavedSearchFrequency)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+              >
+                {frequencyOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={saving || !name.trim()}
+                className="px-4 py-2 bg-amber-600 text-white rounded-lg text-sm font-medium hover:bg-amber-700 transition-colors disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+
+          {savedSearches.length === 0 ? (
+            <div className="pt-4 text-center text-sm text-gray-500">
+              Save a search to hear about new listings that match it
+            </div>
+          ) : (
+            <div className="pt-2 max-h-80 overflow-y-auto divide-y divide-gray-100">
+              {savedSearches.map(search => (
+                <div key={search.id} className="py-2">
+                  <div className="flex items-center justify-between">
+                    <button
+                      onClick={() => {
+                        onApply(filtersFromSavedSearch(search.filters));
+                        setIsOpen(false);
+                      }}
+                      className="min-w-0 text-left text-sm font-medium text-gray-900 truncate hover:text-amber-600 transition-colors"
+                    >
+                      {search.name}
+                    </button>
+                    <button
+                      onClick={() => deleteSearch(search.id)}
+                      className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <select
+                    value={search.frequency}
+                    onChange={(e) => setFrequency(search.id, e.target.value as SavedSearchFrequency)}
+                    className="mt-1 w-full px-2 py-1 border border-gray-200 rounded text-xs text-gray-600 focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all"
+                  >
+                    {frequencyOptions.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
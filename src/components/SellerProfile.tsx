@@ -0,0 +1,177 @@
+import { useMemo, useState } from 'react';
+import { Calendar, Gavel, Percent, DollarSign, Search, Settings } from 'lucide-react';
+import { format } from 'date-fns';
+import { AuctionCard } from './AuctionCard';
+import { Avatar } from './Avatar';
+import { Link } from './Link';
+import { useAuth } from '../hooks/useAuth';
+import { useSellerProfile } from '../hooks/useSellerProfile';
+import { useAuctionSearch } from '../hooks/useAuctionSearch';
+import { AuctionFilters, DEFAULT_FILTERS } from '../lib/auctionFilters';
+import { paths } from '../lib/routes';
+
+interface SellerProfileProps {
+  sellerId: string;
+  watchedIds: Set<string>;
+  onToggleWatch: (auctionId: string) => void;
+  onOpenAuction: (auctionId: string) => void;
+}
+
+type ListingTab = 'active' | 'upcoming' | 'ended';
+
+const tabs: { value: ListingTab; label: string }[] = [
+  { value: 'active', label: 'Live' },
+  { value: 'upcoming', label: 'Upcoming' },
+  { value: 'ended', label: 'Past' },
+];
+
+export function SellerProfile({ sellerId, watchedIds, onToggleWatch, onOpenAuction }: SellerProfileProps) {
+  const { user } = useAuth();
+  const { profile, stats, loading } = useSellerProfile(sellerId);
+  const [tab, setTab] = useState<ListingTab>('active');
+
+  // Live and upcoming listings by when they close or open, past ones most recent first
+  const filters = useMemo<AuctionFilters>(() => ({
+    ...DEFAULT_FILTERS,
+    status: tab,
+    sort: tab === 'ended' ? 'newest' : 'ending_soon',
+    sellerId,
+  }), [tab, sellerId]);
+  const { auctions, loading: auctionsLoading, loadingMore, hasMore, loadMore } = useAuctionSearch(filters);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-amber-600"></div>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="text-center py-16">
+        <h3 className="text-xl font-medium text-gray-900 mb-2">Profile not found</h3>
+        <p className="text-gray-500">This account may have been removed</p>
+      </div>
+    );
+  }
+
+  const displayName = profile.full_name || profile.email;
+  const isOwnProfile = user?.id === profile.id;
+
+  const statCards = [
+    { icon: Gavel, label: 'Live Auctions', value: String(stats?.live_auctions ?? 0) },
+    { icon: Calendar, label: 'Auctions Finished', value: String(stats?.finished_auctions ?? 0) },
+    {
+      icon: Percent,
+      label: 'Sell-Through Rate',
+      value: stats?.sell_through_rate != null ? `${Math.round(stats.sell_through_rate * 100)}%` : '—',
+    },
+    {
+      icon: DollarSign,
+      label: 'Average Final Price',
+      value: stats?.average_final_price != null ? `$${Number(stats.average_final_price).toFixed(2)}` : '—',
+    },
+  ];
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
+        <div className="flex flex-col md:flex-row md:items-start gap-6">
+          <Avatar path={profile.avatar_path} name={displayName} className="w-24 h-24 text-3xl flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <h1 className="text-3xl font-bold text-gray-900 truncate">{displayName}</h1>
+                <p className="text-sm text-gray-500 mt-1">
+                  Member since {format(new Date(profile.created_at), 'MMMM yyyy')}
+                </p>
+              </div>
+              {isOwnProfile && (
+                <Link
+                  to={paths.profileSettings()}
+                  className="inline-flex items-center px-4 py-2 text-amber-600 border border-amber-600 text-sm font-medium rounded-lg hover:bg-amber-50 transition-colors"
+                >
+                  <Settings className="w-4 h-4 mr-2" />
+                  Edit Profile
+                </Link>
+              )}
+            </div>
+            {profile.bio && (
+              <p className="mt-4 text-gray-700 whitespace-pre-line">{profile.bio}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6 pt-6 border-t border-gray-200">
+          {statCards.map(({ icon: Icon, label, value }) => (
+            <div key={label}>
+              <div className="flex items-center text-sm text-gray-500">
+                <Icon className="w-4 h-4 mr-1" />
+                {label}
+              </div>
+              <div className="text-2xl font-bold text-gray-900 mt-1">{value}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex gap-2">
+          {tabs.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setTab(option.value)}
+              className={`px-4 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                tab === option.value ? 'bg-amber-600 border-amber-600 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <Link
+          to={paths.auctions(new URLSearchParams({ seller: sellerId }).toString())}
+          className="inline-flex items-center text-sm font-medium text-amber-600 hover:text-amber-700"
+        >
+          <Search className="w-4 h-4 mr-1" />
+          Search this seller's listings
+        </Link>
+      </div>
+
+      {auctionsLoading ? (
+        <div className="flex justify-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-amber-600"></div>
+        </div>
+      ) : auctions.length === 0 ? (
+        <div className="text-center py-16 text-gray-500">
+          No {tabs.find(option => option.value === tab)?.label.toLowerCase()} auctions
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {auctions.map((auction) => (
+            <AuctionCard
+              key={auction.id}
+              auction={auction}
+              onClick={() => onOpenAuction(auction.id)}
+              watching={watchedIds.has(auction.id)}
+              onToggleWatch={isOwnProfile ? undefined : () => onToggleWatch(auction.id)}
+            />
+          ))}
+        </div>
+      )}
+
+      {hasMore && !auctionsLoading && (
+        <div className="flex justify-center py-8">
+          <button
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Show More'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { Eye } from 'lucide-react';
+import { AuctionCard } from './AuctionCard';
+import { useAuctionSearch } from '../hooks/useAuctionSearch';
+import { AuctionFilters, DEFAULT_FILTERS } from '../lib/auctionFilters';
+
+interface WatchlistViewProps {
+  watchedIds: Set<string>;
+  onToggleWatch: (auctionId: string) => void;
+  onOpenAuction: (auctionId: string) => void;
+}
+
+// Live auctions first, the ones closing soonest at the top
+const WATCHING_FILTERS: AuctionFilters = { ...DEFAULT_FILTERS, sort: 'ending_soon', watching: true };
+
+export function WatchlistView({ watchedIds, onToggleWatch, onOpenAuction }: WatchlistViewProps) {
+  const { auctions, loading, loadingMore, hasMore, loadMore } = useAuctionSearch(WATCHING_FILTERS);
+
+  // Unwatched auctions leave the list right away
+  const watched = auctions.filter(auction => watchedIds.has(auction.id));
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Watching</h1>
+        <p className="text-gray-600">
+          Auctions you follow. We let you know when they are about to start or end, and when their price moves.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-amber-600"></div>
+        </div>
+      ) : watched.length === 0 ? (
+        <div className="text-center py-16">
+          <div className="text-gray-400 mb-4">
+            <Eye className="w-16 h-16 mx-auto" />
+          </div>
+          <h3 className="text-xl font-medium text-gray-900 mb-2">You are not watching any auctions</h3>
+          <p className="text-gray-500">Use the eye on an auction to follow it without bidding</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {watched.map((auction) => (
+            <AuctionCard
+              key={auction.id}
+              auction={auction}
+              onClick={() => onOpenAuction(auction.id)}
+              watching
+              onToggleWatch={() => onToggleWatch(auction.id)}
+            />
+          ))}
+        </div>
+      )}
+
+      {hasMore && !loading && (
+        <div className="flex justify-center py-8">
+          <button
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Show More'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  AuctionFilters,
+  DEFAULT_FILTERS,
+  filtersFromSearchParams,
+  filtersToSearchParams,
+} from '../lib/auctionFilters';
+import { matchRoute } from '../lib/routes';
+
+// Only the grid's URL carries filters, other pages leave them as they were
+const isGridPage = () => matchRoute(window.location.pathname).name === 'auctions';
+
+const readFilters = () => filtersFromSearchParams(new URLSearchParams(window.location.search));
+
+export function useAuctionFilters() {
+  const [filters, setFilters] = useState<AuctionFilters>(readFilters);
+
+  // Keep the URL in step without adding a history entry for every keystroke
+  useEffect(() => {
+    if (!isGridPage()) return;
+
+    const search = filtersToSearchParams(filters).toString();
+    const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+
+    if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+      window.history.replaceState(window.history.state, '', url);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      if (isGridPage()) setFilters(readFilters());
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const setFilter = useCallback(<K extends keyof AuctionFilters>(key: K, value: AuctionFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  }, []);
+
+  const clearFilters = useCallback(() => setFilters(DEFAULT_FILTERS), []);
+
+  return { filters, setFilter, setFilters, clearFilters };
+}
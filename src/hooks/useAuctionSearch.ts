@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase, PublishedAuction } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { AuctionFilters, filtersToSearchArgs } from '../lib/auctionFilters';
+
+export type AuctionSearchResult = PublishedAuction & {
+  profiles: { full_name: string | null; email: string } | null;
+  rank: number;
+  bid_count: number;
+  cover_image: string | null;
+};
+
+const PAGE_SIZE = 24;
+const SEARCH_DELAY_MS = 300;
+
+export function useAuctionSearch(filters: AuctionFilters) {
+  const { user } = useAuth();
+  const [auctions, setAuctions] = useState<AuctionSearchResult[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  // Rows the server has returned so far, duplicates dropped from the list still count for the offset
+  const [fetchedCount, setFetchedCount] = useState(0);
+  // Pages for an earlier search are dropped if they arrive after a newer one started
+  const requestId = useRef(0);
+
+  const loadPage = useCallback(async (offset: number) => {
+    const request = ++requestId.current;
+
+    if (offset === 0) {
+      setLoading(true);
+    } else {
+      setLoadingMore(true);
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('search_auctions', {
+        ...filtersToSearchArgs(filters),
+        p_limit: PAGE_SIZE,
+        p_offset: offset,
+      });
+
+      if (error) throw error;
+      if (request !== requestId.current) return;
+
+      const page = (data || []) as AuctionSearchResult[];
+      setAuctions(prev => {
+        if (offset === 0) return page;
+
+        // Offsets shift when auctions are listed between pages
+        const seen = new Set(prev.map(auction => auction.id));
+        return [...prev, ...page.filter(auction => !seen.has(auction.id))];
+      });
+      setFetchedCount(prev => (offset === 0 ? 0 : prev) + page.length);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error searching auctions:', error);
+    } finally {
+      if (request === requestId.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [filters]);
+
+  // Wait for the user to stop typing before searching
+  const isTyped = Boolean(filters.query || filters.minPrice || filters.maxPrice);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const timeout = setTimeout(() => loadPage(0), isTyped ? SEARCH_DELAY_MS : 0);
+    return () => clearTimeout(timeout);
+  }, [user, isTyped, loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (!loading && !loadingMore && hasMore) {
+      loadPage(fetchedCount);
+    }
+  }, [loading, loadingMore, hasMore, fetchedCount, loadPage]);
+
+  const refresh = useCallback(() => loadPage(0), [loadPage]);
+
+  return { auctions, loading, loadingMore, hasMore, loadMore, refresh };
+}
@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { Category, CategoryStats, flattenCategoryTree } from '../lib/categories';
+import { CategoryAttribute } from '../lib/attributes';
+
+export function useCategories() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [attributes, setAttributes] = useState<CategoryAttribute[]>([]);
+  const [stats, setStats] = useState<Record<string, CategoryStats>>({});
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [
+        { data: categoryRows, error: categoryError },
+        { data: attributeRows, error: attributeError },
+        { data: statRows, error: statsError },
+      ] = await Promise.all([
+        supabase.from('categories').select('*'),
+        supabase.from('category_attributes').select('*'),
+        supabase.rpc('category_stats'),
+      ]);
+
+      if (categoryError) throw categoryError;
+      if (attributeError) throw attributeError;
+      if (statsError) throw statsError;
+
+      setCategories(categoryRows || []);
+      setAttributes(attributeRows || []);
+      setStats(((statRows || []) as CategoryStats[]).reduce((acc, row) => {
+        acc[row.category_id] = row;
+        return acc;
+      }, {} as Record<string, CategoryStats>));
+    } catch (error) {
+      console.error('Error loading categories:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const tree = useMemo(() => flattenCategoryTree(categories), [categories]);
+
+  return { categories, tree, attributes, stats, loading, refresh };
+}
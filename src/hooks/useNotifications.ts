@@ -33,7 +33,7 @@ export function useNotifications() {
           
           // Show toast notification
           toast(newNotification.message, {
-            icon: newNotification.type === 'outbid' ? '😔' : '🔔',
+            icon: newNotification.type === 'outbid' ? '😔' : newNotification.type.startsWith('watch_') ? '👀' : '🔔',
             duration: 5000,
           });
         }
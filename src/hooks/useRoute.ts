@@ -0,0 +1,44 @@
+import { useEffect, useMemo, useState } from 'react';
+import { matchRoute } from '../lib/routes';
+
+type HistoryState = { inApp?: boolean } | null;
+
+// Moves to another page of the app. A popstate event is dispatched so every
+// listener, including the grid filters, reacts the same way as to back/forward.
+export function navigate(to: string, { replace = false }: { replace?: boolean } = {}) {
+  const current = `${window.location.pathname}${window.location.search}`;
+  if (to === current) return;
+
+  if (replace) {
+    window.history.replaceState(window.history.state, '', to);
+  } else {
+    window.history.pushState({ inApp: true }, '', to);
+    window.scrollTo(0, 0);
+  }
+
+  window.dispatchEvent(new PopStateEvent('popstate', { state: window.history.state }));
+}
+
+// Steps back when the previous page was ours, otherwise opens the fallback, e.g. after following a shared link
+export function goBack(fallback: string) {
+  if ((window.history.state as HistoryState)?.inApp) {
+    window.history.back();
+  } else {
+    navigate(fallback);
+  }
+}
+
+export function useRoute() {
+  const [pathname, setPathname] = useState(window.location.pathname);
+
+  useEffect(() => {
+    const handlePopState = () => setPathname(window.location.pathname);
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const route = useMemo(() => matchRoute(pathname), [pathname]);
+
+  return { route, pathname };
+}
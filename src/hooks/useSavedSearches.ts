@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, Database } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { AuctionFilters, filtersToSavedSearch } from '../lib/auctionFilters';
+import toast from 'react-hot-toast';
+
+export type SavedSearch = Database['public']['Tables']['saved_searches']['Row'];
+export type SavedSearchFrequency = SavedSearch['frequency'];
+
+export function useSavedSearches() {
+  const { user } = useAuth();
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+
+  const loadSavedSearches = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setSavedSearches(data || []);
+    } catch (error) {
+      console.error('Error loading saved searches:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadSavedSearches();
+  }, [loadSavedSearches]);
+
+  const saveSearch = async (name: string, filters: AuctionFilters, frequency: SavedSearchFrequency) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase.from('saved_searches').insert({
+        user_id: user.id,
+        name: name.trim(),
+        filters: filtersToSavedSearch(filters),
+        frequency,
+      });
+
+      if (error) throw error;
+
+      toast.success('Search saved');
+      loadSavedSearches();
+      return true;
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save search');
+      return false;
+    }
+  };
+
+  const setFrequency = async (searchId: string, frequency: SavedSearchFrequency) => {
+    try {
+      const { error } = await supabase.from('saved_searches').update({ frequency }).eq('id', searchId);
+
+      if (error) throw error;
+
+      setSavedSearches(prev => prev.map(search => search.id === searchId ? { ...search, frequency } : search));
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update saved search');
+    }
+  };
+
+  const deleteSearch = async (searchId: string) => {
+    try {
+      const { error } = await supabase.from('saved_searches').delete().eq('id', searchId);
+
+      if (error) throw error;
+
+      setSavedSearches(prev => prev.filter(search => search.id !== searchId));
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete saved search');
+    }
+  };
+
+  return { savedSearches, saveSearch, setFrequency, deleteSearch };
+}
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, Database } from '../lib/supabase';
+
+export type Profile = Database['public']['Tables']['profiles']['Row'];
+
+// Totals from seller_stats(), rates and averages are null until an auction has finished
+export type SellerStats = {
+  live_auctions: number;
+  upcoming_auctions: number;
+  finished_auctions: number;
+  sold_auctions: number;
+  sell_through_rate: number | null;
+  average_final_price: number | null;
+};
+
+export function useSellerProfile(sellerId: string) {
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [stats, setStats] = useState<SellerStats | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [{ data: profileRow, error: profileError }, { data: statRows, error: statsError }] = await Promise.all([
+        supabase.from('profiles').select('*').eq('id', sellerId).maybeSingle(),
+        supabase.rpc('seller_stats', { p_seller_id: sellerId }),
+      ]);
+
+      if (profileError) throw profileError;
+      if (statsError) throw statsError;
+
+      setProfile(profileRow);
+      setStats(((statRows || []) as SellerStats[])[0] ?? null);
+    } catch (error) {
+      console.error('Error loading seller profile:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [sellerId]);
+
+  useEffect(() => {
+    setLoading(true);
+    refresh();
+  }, [refresh]);
+
+  return { profile, stats, loading, refresh };
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import toast from 'react-hot-toast';
+
+export function useWatchlist() {
+  const { user } = useAuth();
+  const [watchedIds, setWatchedIds] = useState<Set<string>>(new Set());
+
+  const loadWatchlist = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('watchlist')
+        .select('auction_id')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      setWatchedIds(new Set((data || []).map(watch => watch.auction_id)));
+    } catch (error) {
+      console.error('Error loading watchlist:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadWatchlist();
+  }, [loadWatchlist]);
+
+  const toggleWatch = async (auctionId: string) => {
+    if (!user) return;
+
+    const watching = watchedIds.has(auctionId);
+
+    try {
+      const { error } = watching
+        ? await supabase.from('watchlist').delete().eq('user_id', user.id).eq('auction_id', auctionId)
+        : await supabase.from('watchlist').insert({ user_id: user.id, auction_id: auctionId });
+
+      if (error) throw error;
+
+      setWatchedIds(prev => {
+        const next = new Set(prev);
+        if (watching) {
+          next.delete(auctionId);
+        } else {
+          next.add(auctionId);
+        }
+        return next;
+      });
+      toast.success(watching ? 'Removed from your watchlist' : 'Added to your watchlist');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update watchlist');
+    }
+  };
+
+  return { watchedIds, toggleWatch, loadWatchlist };
+}
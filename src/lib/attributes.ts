@@ -0,0 +1,82 @@
+import { Database } from './supabase';
+import { Category } from './categories';
+
+type AuctionRow = Database['public']['Tables']['auctions']['Row'];
+
+export type ItemCondition = NonNullable<AuctionRow['condition']>;
+export type ReturnsPolicy = NonNullable<AuctionRow['returns_policy']>;
+export type CategoryAttribute = Database['public']['Tables']['category_attributes']['Row'];
+export type ShippingOption = Database['public']['Tables']['auction_shipping_options']['Row'];
+
+export const CONDITION_OPTIONS: { value: ItemCondition; label: string }[] = [
+  { value: 'new', label: 'New' },
+  { value: 'like_new', label: 'Like New' },
+  { value: 'good', label: 'Good' },
+  { value: 'fair', label: 'Fair' },
+  { value: 'for_parts', label: 'For Parts / Not Working' },
+];
+
+export const RETURNS_OPTIONS: { value: ReturnsPolicy; label: string }[] = [
+  { value: 'no_returns', label: 'No returns' },
+  { value: '14_days', label: '14-day returns' },
+  { value: '30_days', label: '30-day returns' },
+];
+
+export const getConditionLabel = (condition: string | null) =>
+  CONDITION_OPTIONS.find(option => option.value === condition)?.label ?? null;
+
+export const getReturnsLabel = (policy: string | null) =>
+  RETURNS_OPTIONS.find(option => option.value === policy)?.label ?? null;
+
+// The fields a category asks for, its parents' fields included, like category_attribute_schema()
+export function getAttributeSchema(
+  categories: Category[],
+  attributes: CategoryAttribute[],
+  categoryId: string | null
+) {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const ancestry = new Set<string>();
+
+  let current = categoryId ? byId.get(categoryId) : undefined;
+  while (current && !ancestry.has(current.id)) {
+    ancestry.add(current.id);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return attributes
+    .filter(attribute => ancestry.has(attribute.category_id))
+    .sort((a, b) => a.position - b.position || a.label.localeCompare(b.label));
+}
+
+// Mirrors check_auction_attributes(), which rejects the same values when a draft is published
+export function validateAttributes(schema: CategoryAttribute[], values: Record<string, string>) {
+  for (const attribute of schema) {
+    const value = values[attribute.key]?.trim();
+
+    if (!value) {
+      if (attribute.required) return `${attribute.label} is required`;
+      continue;
+    }
+
+    if (attribute.type === 'number' && !/^-?[0-9]+(\.[0-9]+)?$/.test(value)) {
+      return `${attribute.label} must be a number`;
+    }
+
+    if (attribute.type === 'select' && !attribute.options.includes(value)) {
+      return `${attribute.label} must be one of: ${attribute.options.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+// Drops empty values and values for fields the chosen category doesn't have
+export function cleanAttributes(schema: CategoryAttribute[], values: Record<string, string>) {
+  const cleaned: Record<string, string> = {};
+  for (const attribute of schema) {
+    const value = values[attribute.key]?.trim();
+    if (value) cleaned[attribute.key] = value;
+  }
+
+  return cleaned;
+}
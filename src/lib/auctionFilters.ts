@@ -0,0 +1,138 @@
+import { CONDITION_OPTIONS, ItemCondition } from './attributes';
+
+export type AuctionSort = 'relevance' | 'ending_soon' | 'newest' | 'price_asc' | 'price_desc' | 'most_bids';
+
+// What the auction grid is showing, mirrored in the page URL so it can be shared and restored
+export type AuctionFilters = {
+  query: string;
+  status: string;
+  categoryId: string | null;
+  sort: AuctionSort;
+  minPrice: string;
+  maxPrice: string;
+  noBids: boolean;
+  endingSoon: boolean;
+  sellerId: string | null;
+  watching: boolean;
+  condition: ItemCondition | null;
+  ships: boolean;
+  pickup: boolean;
+  // Category field values by key, written to the URL as attr.<key>
+  attributes: Record<string, string>;
+};
+
+export const DEFAULT_FILTERS: AuctionFilters = {
+  query: '',
+  status: 'all',
+  categoryId: null,
+  sort: 'relevance',
+  minPrice: '',
+  maxPrice: '',
+  noBids: false,
+  endingSoon: false,
+  sellerId: null,
+  watching: false,
+  condition: null,
+  ships: false,
+  pickup: false,
+  attributes: {},
+};
+
+export const SORT_OPTIONS: { value: AuctionSort; label: string }[] = [
+  { value: 'relevance', label: 'Best Match' },
+  { value: 'ending_soon', label: 'Ending Soonest' },
+  { value: 'newest', label: 'Newly Listed' },
+  { value: 'price_asc', label: 'Price: Low to High' },
+  { value: 'price_desc', label: 'Price: High to Low' },
+  { value: 'most_bids', label: 'Most Bids' },
+];
+
+const STATUSES = ['all', 'upcoming', 'active', 'ended'];
+
+const ATTRIBUTE_PREFIX = 'attr.';
+
+const parsePrice = (value: string | null) =>
+  value !== null && /^[0-9]+(\.[0-9]+)?$/.test(value) ? value : '';
+
+export function filtersFromSearchParams(params: URLSearchParams): AuctionFilters {
+  const sort = params.get('sort');
+  const status = params.get('status');
+  const condition = params.get('cond');
+
+  const attributes: Record<string, string> = {};
+  params.forEach((value, key) => {
+    if (key.startsWith(ATTRIBUTE_PREFIX) && value) {
+      attributes[key.slice(ATTRIBUTE_PREFIX.length)] = value;
+    }
+  });
+
+  return {
+    query: params.get('q') ?? '',
+    status: status && STATUSES.includes(status) ? status : DEFAULT_FILTERS.status,
+    categoryId: params.get('category'),
+    sort: SORT_OPTIONS.some(option => option.value === sort) ? sort as AuctionSort : DEFAULT_FILTERS.sort,
+    minPrice: parsePrice(params.get('min')),
+    maxPrice: parsePrice(params.get('max')),
+    noBids: params.get('no_bids') === '1',
+    endingSoon: params.get('ending') === '1',
+    sellerId: params.get('seller'),
+    watching: params.get('watching') === '1',
+    condition: CONDITION_OPTIONS.some(option => option.value === condition) ? condition as ItemCondition : null,
+    ships: params.get('ships') === '1',
+    pickup: params.get('pickup') === '1',
+    attributes,
+  };
+}
+
+// Only choices that differ from the defaults are written, so the plain grid keeps a clean URL
+export function filtersToSearchParams(filters: AuctionFilters) {
+  const params = new URLSearchParams();
+
+  if (filters.query) params.set('q', filters.query);
+  if (filters.status !== DEFAULT_FILTERS.status) params.set('status', filters.status);
+  if (filters.categoryId) params.set('category', filters.categoryId);
+  if (filters.sort !== DEFAULT_FILTERS.sort) params.set('sort', filters.sort);
+  if (filters.minPrice) params.set('min', String(parseFloat(filters.minPrice)));
+  if (filters.maxPrice) params.set('max', String(parseFloat(filters.maxPrice)));
+  if (filters.noBids) params.set('no_bids', '1');
+  if (filters.endingSoon) params.set('ending', '1');
+  if (filters.sellerId) params.set('seller', filters.sellerId);
+  if (filters.watching) params.set('watching', '1');
+  if (filters.condition) params.set('cond', filters.condition);
+  if (filters.ships) params.set('ships', '1');
+  if (filters.pickup) params.set('pickup', '1');
+  for (const [key, value] of Object.entries(filters.attributes)) {
+    if (value) params.set(ATTRIBUTE_PREFIX + key, value);
+  }
+
+  return params;
+}
+
+// The search_auctions() arguments for a set of filters
+export function filtersToSearchArgs(filters: AuctionFilters) {
+  return {
+    p_query: filters.query.trim() || null,
+    p_status: filters.status,
+    p_category_id: filters.categoryId,
+    p_sort: filters.sort,
+    p_min_price: filters.minPrice ? parseFloat(filters.minPrice) : null,
+    p_max_price: filters.maxPrice ? parseFloat(filters.maxPrice) : null,
+    p_no_bids: filters.noBids,
+    p_ending_soon: filters.endingSoon,
+    p_seller_id: filters.sellerId,
+    p_watching: filters.watching,
+    p_condition: filters.condition,
+    p_ships: filters.ships,
+    p_pickup: filters.pickup,
+    p_attributes: Object.keys(filters.attributes).length > 0 ? filters.attributes : null,
+  };
+}
+
+// Saved searches store their filters under the same keys as the URL
+export function filtersToSavedSearch(filters: AuctionFilters): Record<string, string> {
+  return Object.fromEntries(filtersToSearchParams(filters));
+}
+
+export function filtersFromSavedSearch(saved: Record<string, string>) {
+  return filtersFromSearchParams(new URLSearchParams(saved));
+}
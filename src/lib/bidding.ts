@@ -0,0 +1,129 @@
+import { Database, PublishedAuction } from './supabase';
+
+type Auction = PublishedAuction;
+type Bid = Database['public']['Tables']['bids']['Row'];
+type IncrementTier = Database['public']['Tables']['bid_increment_tiers']['Row'];
+
+const roundToCents = (value: number) => Math.round(value * 100) / 100;
+
+// Retraction rules, enforced by retract_bid() in the database
+export const RETRACTION_WINDOW_MINUTES = 5;
+export const RETRACTION_CUTOFF_MINUTES = 60;
+
+function getDutchDropsElapsed(auction: Auction, now: Date) {
+  if (!auction.decrement_interval_minutes) return 0;
+
+  const elapsed = Math.max(0, now.getTime() - new Date(auction.start_time).getTime());
+  return Math.floor(elapsed / (auction.decrement_interval_minutes * 60 * 1000));
+}
+
+// Mirrors dutch_current_price() in the database
+export function getDutchPrice(auction: Auction, now: Date = new Date()) {
+  const dropped = getDutchDropsElapsed(auction, now) * (auction.price_decrement ?? 0);
+  return roundToCents(Math.max(auction.floor_price ?? 0, auction.starting_price - dropped));
+}
+
+// When the Dutch price drops next, or null once it has reached the floor
+export function getNextDutchDrop(auction: Auction, now: Date = new Date()) {
+  if (!auction.decrement_interval_minutes || getDutchPrice(auction, now) <= (auction.floor_price ?? 0)) {
+    return null;
+  }
+
+  const intervalMs = auction.decrement_interval_minutes * 60 * 1000;
+  return new Date(new Date(auction.start_time).getTime() + (getDutchDropsElapsed(auction, now) + 1) * intervalMs);
+}
+
+export function isSealedAuction(auctionType: string) {
+  return auctionType === 'sealed_first_price' || auctionType === 'sealed_second_price';
+}
+
+// Each bidder's latest bid, best first, the way sealed reveals and lot allocation rank them
+export function rankStandingBids<T extends Bid>(bids: T[]) {
+  const latest = new Map<string, T>();
+  for (const bid of bids) {
+    if (bid.retracted_at) continue;
+
+    const current = latest.get(bid.bidder_id);
+    if (!current || new Date(bid.created_at) > new Date(current.created_at)) {
+      latest.set(bid.bidder_id, bid);
+    }
+  }
+
+  return [...latest.values()].sort((a, b) =>
+    b.amount - a.amount || new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+}
+
+// Increment of the tier that covers the price, null when no tier does
+export function getTierIncrement(tiers: Pick<IncrementTier, 'min_price' | 'increment'>[], price: number) {
+  const tier = tiers
+    .filter(t => t.min_price <= price)
+    .sort((a, b) => b.min_price - a.min_price)[0];
+
+  return tier ? tier.increment : null;
+}
+
+// Mirrors bid_increment_at() in the database
+export function getBidIncrement(auction: Auction, tiers: IncrementTier[], price: number) {
+  if (!auction.use_increment_tiers) return auction.bid_increment;
+
+  const ownTiers = tiers.filter(t => t.auction_id === auction.id);
+  const applicable = ownTiers.length > 0 ? ownTiers : tiers.filter(t => t.auction_id === null);
+
+  return getTierIncrement(applicable, price) ?? auction.bid_increment;
+}
+
+export function getNextMinimumBid(auction: Auction, tiers: IncrementTier[]) {
+  if (auction.highest_bid <= 0) return auction.starting_price;
+
+  return roundToCents(auction.highest_bid + getBidIncrement(auction, tiers, auction.highest_bid));
+}
+
+export function canRetractBid(bid: Bid, auction: Auction, userId: string, isAdmin: boolean, now: Date = new Date()) {
+  if (bid.retracted_at || bid.is_proxy) return false;
+  if (auction.status !== 'active' || new Date(auction.end_time) <= now) return false;
+  if (isAdmin) return true;
+
+  return bid.bidder_id === userId &&
+    now.getTime() - new Date(bid.created_at).getTime() <= RETRACTION_WINDOW_MINUTES * 60 * 1000 &&
+    new Date(auction.end_time).getTime() - now.getTime() > RETRACTION_CUTOFF_MINUTES * 60 * 1000;
+}
+
+// Mirrors lot_allocation() in the database: the last winning bid may be partially filled
+export function allocateLot<T extends Bid>(bids: T[], quantity: number) {
+  const allocations: { bid: T; allocated: number }[] = [];
+  let unitsBefore = 0;
+
+  for (const bid of rankStandingBids(bids)) {
+    if (unitsBefore >= quantity) break;
+
+    allocations.push({ bid, allocated: Math.min(bid.quantity, quantity - unitsBefore) });
+    unitsBefore += bid.quantity;
+  }
+
+  return allocations;
+}
+
+// Mirrors the lot minimum in handle_new_bid(): win at least one unit, never lower your standing bid
+export function getLotMinimumBid(auction: Auction, bids: Bid[], tiers: IncrementTier[], bidderId: string) {
+  let minimum = auction.starting_price;
+  let unitsTaken = 0;
+
+  for (const bid of rankStandingBids(bids.filter(b => b.bidder_id !== bidderId))) {
+    unitsTaken += bid.quantity;
+    if (unitsTaken >= auction.quantity) {
+      minimum = roundToCents(bid.amount + getBidIncrement(auction, tiers, bid.amount));
+      break;
+    }
+  }
+
+  const standingBid = rankStandingBids(bids.filter(b => b.bidder_id === bidderId))[0];
+  return Math.max(minimum, standingBid?.amount ?? 0);
+}
+
+// Reverse auctions count down: the first bid may match the starting price, later ones undercut the leader
+export function getNextMaximumBid(auction: Auction, tiers: IncrementTier[]) {
+  if (auction.highest_bid <= 0) return auction.starting_price;
+
+  return roundToCents(auction.highest_bid - getBidIncrement(auction, tiers, auction.highest_bid));
+}
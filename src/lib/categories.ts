@@ -0,0 +1,70 @@
+import { Database } from './supabase';
+
+export type Category = Database['public']['Tables']['categories']['Row'];
+
+// Per-category counts from category_stats(), subcategories rolled into their parents
+export type CategoryStats = {
+  category_id: string;
+  live_auctions: number;
+  total_auctions: number;
+  total_bids: number;
+};
+
+// Enforced by auctions_tags_check in the database
+export const MAX_TAGS = 10;
+
+// Depth-first order with each category's depth, siblings sorted by position then name
+export function flattenCategoryTree(categories: Category[]) {
+  const children = new Map<string | null, Category[]>();
+  for (const category of categories) {
+    const siblings = children.get(category.parent_id) || [];
+    siblings.push(category);
+    children.set(category.parent_id, siblings);
+  }
+
+  const flattened: { category: Category; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    const siblings = (children.get(parentId) || [])
+      .sort((a, b) => a.position - b.position || a.name.localeCompare(b.name));
+
+    for (const category of siblings) {
+      flattened.push({ category, depth });
+      visit(category.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+
+  return flattened;
+}
+
+// A category's path from the top level, e.g. "Collectibles › Coins"
+export function getCategoryPath(categories: Category[], categoryId: string | null) {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const names: string[] = [];
+
+  let current = categoryId ? byId.get(categoryId) : undefined;
+  while (current && names.length <= categories.length) {
+    names.unshift(current.name);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return names.join(' › ');
+}
+
+// Matches the slug format allowed by the categories table
+export function slugify(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// Comma separated input to unique lowercase tags
+export function parseTags(input: string) {
+  const tags = input
+    .split(',')
+    .map(tag => tag.trim().toLowerCase().replace(/\s+/g, ' '))
+    .filter(tag => tag.length > 0);
+
+  return [...new Set(tags)];
+}
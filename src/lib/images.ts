@@ -0,0 +1,135 @@
+import { supabase } from './supabase';
+
+// Created by the auction images migration, files live under `<user id>/`
+export const AUCTION_IMAGES_BUCKET = 'auction-images';
+export const MAX_IMAGES = 12;
+// Created by the seller profiles migration, laid out the same way
+export const AVATARS_BUCKET = 'avatars';
+
+const IMAGE_MAX_SIZE = 1600;
+const THUMBNAIL_MAX_SIZE = 480;
+const AVATAR_MAX_SIZE = 256;
+
+export type UploadedImage = {
+  path: string;
+  thumbnail_path: string;
+  width: number;
+  height: number;
+};
+
+// Public URL through the configured Supabase client, so a local stack serves its own files
+export function getImageUrl(path: string) {
+  return supabase.storage.from(AUCTION_IMAGES_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+export function getAvatarUrl(path: string) {
+  return supabase.storage.from(AVATARS_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+// Scales the image down to fit maxSize and re-encodes it as JPEG
+async function resizeImage(source: ImageBitmap, maxSize: number, quality: number) {
+  const scale = Math.min(1, maxSize / Math.max(source.width, source.height));
+  const width = Math.round(source.width * scale);
+  const height = Math.round(source.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Your browser cannot process images');
+
+  // JPEG has no transparency, flatten onto white instead of black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(source, 0, 0, width, height);
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      result => result ? resolve(result) : reject(new Error('Could not process image')),
+      'image/jpeg',
+      quality
+    );
+  });
+
+  return { blob, width, height };
+}
+
+// Resizes a photo in the browser and uploads it with its thumbnail
+export async function uploadAuctionImage(userId: string, file: File): Promise<UploadedImage> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error(`${file.name} is not an image`);
+  }
+
+  const source = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    const image = await resizeImage(source, IMAGE_MAX_SIZE, 0.85);
+    const thumbnail = await resizeImage(source, THUMBNAIL_MAX_SIZE, 0.8);
+
+    const name = crypto.randomUUID();
+    const path = `${userId}/${name}.jpg`;
+    const thumbnailPath = `${userId}/${name}_thumb.jpg`;
+    const bucket = supabase.storage.from(AUCTION_IMAGES_BUCKET);
+
+    for (const [filePath, blob] of [[path, image.blob], [thumbnailPath, thumbnail.blob]] as const) {
+      const { error } = await bucket.upload(filePath, blob, {
+        contentType: 'image/jpeg',
+        cacheControl: '31536000',
+      });
+
+      if (error) throw error;
+    }
+
+    return { path, thumbnail_path: thumbnailPath, width: image.width, height: image.height };
+  } finally {
+    source.close();
+  }
+}
+
+// Deletes files no listing uses any more, relists and duplicates share them with the original
+export async function removeUnusedImageFiles(images: Pick<UploadedImage, 'path' | 'thumbnail_path'>[]) {
+  if (images.length === 0) return;
+
+  const { data: stillUsed, error } = await supabase
+    .from('auction_images')
+    .select('path')
+    .in('path', images.map(image => image.path));
+
+  if (error) throw error;
+
+  const usedPaths = new Set((stillUsed || []).map(image => image.path));
+  const unused = images.filter(image => !usedPaths.has(image.path));
+  if (unused.length === 0) return;
+
+  const { error: removeError } = await supabase.storage
+    .from(AUCTION_IMAGES_BUCKET)
+    .remove(unused.flatMap(image => [image.path, image.thumbnail_path]));
+
+  if (removeError) throw removeError;
+}
+
+// Resizes and uploads a profile picture, returns its path for `profiles.avatar_path`
+export async function uploadAvatar(userId: string, file: File) {
+  if (!file.type.startsWith('image/')) {
+    throw new Error(`${file.name} is not an image`);
+  }
+
+  const source = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    const avatar = await resizeImage(source, AVATAR_MAX_SIZE, 0.85);
+    const path = `${userId}/${crypto.randomUUID()}.jpg`;
+
+    const { error } = await supabase.storage.from(AVATARS_BUCKET).upload(path, avatar.blob, {
+      contentType: 'image/jpeg',
+      cacheControl: '31536000',
+    });
+
+    if (error) throw error;
+
+    return path;
+  } finally {
+    source.close();
+  }
+}
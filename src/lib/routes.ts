@@ -0,0 +1,51 @@
+// Every page the app can show, parsed from the URL path
+export type AppRoute =
+  | { name: 'home' }
+  | { name: 'auctions' }
+  | { name: 'auction'; auctionId: string }
+  | { name: 'dashboard' }
+  | { name: 'watching' }
+  | { name: 'seller'; sellerId: string }
+  | { name: 'profile_settings' }
+  | { name: 'not_found' };
+
+export const paths = {
+  home: () => '/',
+  // The grid keeps its filters in the query string, see filtersToSearchParams()
+  auctions: (search = '') => `/auctions${search ? `?${search}` : ''}`,
+  auction: (auctionId: string) => `/auctions/${encodeURIComponent(auctionId)}`,
+  dashboard: () => '/dashboard',
+  watching: () => '/watching',
+  seller: (sellerId: string) => `/sellers/${encodeURIComponent(sellerId)}`,
+  profileSettings: () => '/settings/profile',
+};
+
+const routes: [RegExp, (params: string[]) => AppRoute][] = [
+  [/^\/$/, () => ({ name: 'home' })],
+  [/^\/auctions$/, () => ({ name: 'auctions' })],
+  [/^\/auctions\/([^/]+)$/, ([auctionId]) => ({ name: 'auction', auctionId: decodeURIComponent(auctionId) })],
+  [/^\/dashboard$/, () => ({ name: 'dashboard' })],
+  [/^\/watching$/, () => ({ name: 'watching' })],
+  [/^\/sellers\/([^/]+)$/, ([sellerId]) => ({ name: 'seller', sellerId: decodeURIComponent(sellerId) })],
+  [/^\/settings\/profile$/, () => ({ name: 'profile_settings' })],
+];
+
+export function matchRoute(pathname: string): AppRoute {
+  // A trailing slash points at the same page
+  const path = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+
+  for (const [pattern, toRoute] of routes) {
+    const match = path.match(pattern);
+    if (!match) continue;
+
+    try {
+      return toRoute(match.slice(1));
+    } catch (error) {
+      // A mangled link such as /auctions/%E0 cannot be decoded
+      if (error instanceof URIError) return { name: 'not_found' };
+      throw error;
+    }
+  }
+
+  return { name: 'not_found' };
+}
@@ -17,18 +17,27 @@ export type Database = {
           id: string;
           email: string;
           full_name: string | null;
+          role: 'anon' | 'authenticated' | 'service_role' | 'admin';
+          avatar_path: string | null;
+          bio: string | null;
           created_at: string;
         };
         Insert: {
           id: string;
           email: string;
           full_name?: string | null;
+          role?: 'anon' | 'authenticated' | 'service_role' | 'admin';
+          avatar_path?: string | null;
+          bio?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
           email?: string;
           full_name?: string | null;
+          role?: 'anon' | 'authenticated' | 'service_role' | 'admin';
+          avatar_path?: string | null;
+          bio?: string | null;
           created_at?: string;
         };
       };
@@ -38,13 +47,41 @@ export type Database = {
           seller_id: string;
           title: string;
           description: string;
-          starting_price: number;
-          bid_increment: number;
-          start_time: string;
-          end_time: string;
-          status: 'draft' | 'active' | 'ended' | 'cancelled';
+          starting_price: number | null;
+          bid_increment: number | null;
+          start_time: string | null;
+          end_time: string | null;
+          status: 'draft' | 'scheduled' | 'active' | 'ended' | 'cancelled';
           highest_bid: number;
           highest_bidder_id: string | null;
+          soft_close_window_minutes: number | null;
+          soft_close_extension_minutes: number | null;
+          soft_close_max_extension_minutes: number | null;
+          extended_minutes: number;
+          has_reserve: boolean;
+          reserve_met: boolean;
+          result: 'sold' | 'reserve_not_met' | 'no_bids' | null;
+          buy_now_price: number | null;
+          buy_now_cutoff_percent: number;
+          auction_type: 'english' | 'dutch' | 'sealed_first_price' | 'sealed_second_price' | 'reverse';
+          floor_price: number | null;
+          price_decrement: number | null;
+          decrement_interval_minutes: number | null;
+          use_increment_tiers: boolean;
+          quantity: number;
+          cancelled_at: string | null;
+          cancellation_reason: string | null;
+          relisted_from: string | null;
+          auto_relist_limit: number;
+          relist_count: number;
+          search_vector: unknown;
+          category_id: string | null;
+          tags: string[];
+          published_at: string | null;
+          condition: 'new' | 'like_new' | 'good' | 'fair' | 'for_parts' | null;
+          pickup_location: string | null;
+          returns_policy: 'no_returns' | '14_days' | '30_days' | null;
+          attributes: Record<string, string>;
           created_at: string;
         };
         Insert: {
@@ -52,13 +89,40 @@ export type Database = {
           seller_id: string;
           title: string;
           description: string;
-          starting_price: number;
-          bid_increment: number;
-          start_time: string;
-          end_time: string;
-          status?: 'draft' | 'active' | 'ended' | 'cancelled';
+          starting_price?: number | null;
+          bid_increment?: number | null;
+          start_time?: string | null;
+          end_time?: string | null;
+          status?: 'draft' | 'scheduled' | 'active' | 'ended' | 'cancelled';
           highest_bid?: number;
           highest_bidder_id?: string | null;
+          soft_close_window_minutes?: number | null;
+          soft_close_extension_minutes?: number | null;
+          soft_close_max_extension_minutes?: number | null;
+          extended_minutes?: number;
+          has_reserve?: boolean;
+          reserve_met?: boolean;
+          result?: 'sold' | 'reserve_not_met' | 'no_bids' | null;
+          buy_now_price?: number | null;
+          buy_now_cutoff_percent?: number;
+          auction_type?: 'english' | 'dutch' | 'sealed_first_price' | 'sealed_second_price' | 'reverse';
+          floor_price?: number | null;
+          price_decrement?: number | null;
+          decrement_interval_minutes?: number | null;
+          use_increment_tiers?: boolean;
+          quantity?: number;
+          cancelled_at?: string | null;
+          cancellation_reason?: string | null;
+          relisted_from?: string | null;
+          auto_relist_limit?: number;
+          relist_count?: number;
+          category_id?: string | null;
+          tags?: string[];
+          published_at?: string | null;
+          condition?: 'new' | 'like_new' | 'good' | 'fair' | 'for_parts' | null;
+          pickup_location?: string | null;
+          returns_policy?: 'no_returns' | '14_days' | '30_days' | null;
+          attributes?: Record<string, string>;
           created_at?: string;
         };
         Update: {
@@ -66,13 +130,40 @@ export type Database = {
           seller_id?: string;
           title?: string;
           description?: string;
-          starting_price?: number;
-          bid_increment?: number;
-          start_time?: string;
-          end_time?: string;
-          status?: 'draft' | 'active' | 'ended' | 'cancelled';
+          starting_price?: number | null;
+          bid_increment?: number | null;
+          start_time?: string | null;
+          end_time?: string | null;
+          status?: 'draft' | 'scheduled' | 'active' | 'ended' | 'cancelled';
           highest_bid?: number;
           highest_bidder_id?: string | null;
+          soft_close_window_minutes?: number | null;
+          soft_close_extension_minutes?: number | null;
+          soft_close_max_extension_minutes?: number | null;
+          extended_minutes?: number;
+          has_reserve?: boolean;
+          reserve_met?: boolean;
+          result?: 'sold' | 'reserve_not_met' | 'no_bids' | null;
+          buy_now_price?: number | null;
+          buy_now_cutoff_percent?: number;
+          auction_type?: 'english' | 'dutch' | 'sealed_first_price' | 'sealed_second_price' | 'reverse';
+          floor_price?: number | null;
+          price_decrement?: number | null;
+          decrement_interval_minutes?: number | null;
+          use_increment_tiers?: boolean;
+          quantity?: number;
+          cancelled_at?: string | null;
+          cancellation_reason?: string | null;
+          relisted_from?: string | null;
+          auto_relist_limit?: number;
+          relist_count?: number;
+          category_id?: string | null;
+          tags?: string[];
+          published_at?: string | null;
+          condition?: 'new' | 'like_new' | 'good' | 'fair' | 'for_parts' | null;
+          pickup_location?: string | null;
+          returns_policy?: 'no_returns' | '14_days' | '30_days' | null;
+          attributes?: Record<string, string>;
           created_at?: string;
         };
       };
@@ -82,6 +173,12 @@ export type Database = {
           auction_id: string;
           bidder_id: string;
           amount: number;
+          is_proxy: boolean;
+          is_buy_now: boolean;
+          retracted_at: string | null;
+          retracted_by: string | null;
+          retraction_reason: string | null;
+          quantity: number;
           created_at: string;
         };
         Insert: {
@@ -89,6 +186,12 @@ export type Database = {
           auction_id: string;
           bidder_id: string;
           amount: number;
+          is_proxy?: boolean;
+          is_buy_now?: boolean;
+          retracted_at?: string | null;
+          retracted_by?: string | null;
+          retraction_reason?: string | null;
+          quantity?: number;
           created_at?: string;
         };
         Update: {
@@ -96,6 +199,38 @@ export type Database = {
           auction_id?: string;
           bidder_id?: string;
           amount?: number;
+          is_proxy?: boolean;
+          is_buy_now?: boolean;
+          retracted_at?: string | null;
+          retracted_by?: string | null;
+          retraction_reason?: string | null;
+          quantity?: number;
+          created_at?: string;
+        };
+      };
+      max_bids: {
+        Row: {
+          id: string;
+          auction_id: string;
+          bidder_id: string;
+          max_amount: number;
+          placed_at: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          auction_id: string;
+          bidder_id: string;
+          max_amount: number;
+          placed_at?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          auction_id?: string;
+          bidder_id?: string;
+          max_amount?: number;
+          placed_at?: string;
           created_at?: string;
         };
       };
@@ -104,7 +239,7 @@ export type Database = {
           id: string;
           user_id: string;
           auction_id: string | null;
-          type: 'new_bid' | 'outbid' | 'auction_ended' | 'bid_accepted' | 'bid_rejected' | 'counter_offer';
+          type: 'new_bid' | 'outbid' | 'auction_ended' | 'bid_accepted' | 'bid_rejected' | 'counter_offer' | 'bid_retracted' | 'auction_cancelled' | 'watch_starts_soon' | 'watch_ending_soon' | 'watch_price_changed' | 'saved_search_match';
           message: string;
           read: boolean;
           created_at: string;
@@ -113,7 +248,7 @@ export type Database = {
           id?: string;
           user_id: string;
           auction_id?: string | null;
-          type: 'new_bid' | 'outbid' | 'auction_ended' | 'bid_accepted' | 'bid_rejected' | 'counter_offer';
+          type: 'new_bid' | 'outbid' | 'auction_ended' | 'bid_accepted' | 'bid_rejected' | 'counter_offer' | 'bid_retracted' | 'auction_cancelled' | 'watch_starts_soon' | 'watch_ending_soon' | 'watch_price_changed' | 'saved_search_match';
           message: string;
           read?: boolean;
           created_at?: string;
@@ -122,12 +257,342 @@ export type Database = {
           id?: string;
           user_id?: string;
           auction_id?: string | null;
-          type?: 'new_bid' | 'outbid' | 'auction_ended' | 'bid_accepted' | 'bid_rejected' | 'counter_offer';
+          type?: 'new_bid' | 'outbid' | 'auction_ended' | 'bid_accepted' | 'bid_rejected' | 'counter_offer' | 'bid_retracted' | 'auction_cancelled' | 'watch_starts_soon' | 'watch_ending_soon' | 'watch_price_changed' | 'saved_search_match';
           message?: string;
           read?: boolean;
           created_at?: string;
         };
       };
+      auction_reserves: {
+        Row: {
+          auction_id: string;
+          reserve_price: number;
+          created_at: string;
+        };
+        Insert: {
+          auction_id: string;
+          reserve_price: number;
+          created_at?: string;
+        };
+        Update: {
+          auction_id?: string;
+          reserve_price?: number;
+          created_at?: string;
+        };
+      };
+      auction_offers: {
+        Row: {
+          id: string;
+          auction_id: string;
+          seller_id: string;
+          bidder_id: string;
+          bid_amount: number;
+          counter_amount: number | null;
+          counter_expires_at: string | null;
+          status: 'pending' | 'accepted' | 'rejected' | 'countered' | 'counter_accepted' | 'counter_declined' | 'counter_expired';
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          auction_id: string;
+          seller_id: string;
+          bidder_id: string;
+          bid_amount: number;
+          counter_amount?: number | null;
+          counter_expires_at?: string | null;
+          status?: 'pending' | 'accepted' | 'rejected' | 'countered' | 'counter_accepted' | 'counter_declined' | 'counter_expired';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          auction_id?: string;
+          seller_id?: string;
+          bidder_id?: string;
+          bid_amount?: number;
+          counter_amount?: number | null;
+          counter_expires_at?: string | null;
+          status?: 'pending' | 'accepted' | 'rejected' | 'countered' | 'counter_accepted' | 'counter_declined' | 'counter_expired';
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      bid_increment_tiers: {
+        Row: {
+          id: string;
+          auction_id: string | null;
+          min_price: number;
+          increment: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          auction_id?: string | null;
+          min_price: number;
+          increment: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          auction_id?: string | null;
+          min_price?: number;
+          increment?: number;
+          created_at?: string;
+        };
+      };
+      lot_allocations: {
+        Row: {
+          id: string;
+          auction_id: string;
+          bidder_id: string;
+          bid_id: string;
+          quantity: number;
+          unit_price: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          auction_id: string;
+          bidder_id: string;
+          bid_id: string;
+          quantity: number;
+          unit_price: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          auction_id?: string;
+          bidder_id?: string;
+          bid_id?: string;
+          quantity?: number;
+          unit_price?: number;
+          created_at?: string;
+        };
+      };
+      bid_requests: {
+        Row: {
+          bidder_id: string;
+          idempotency_key: string;
+          auction_id: string;
+          bid_id: string | null;
+          result: PlaceBidResult | null;
+          created_at: string;
+        };
+        Insert: {
+          bidder_id: string;
+          idempotency_key: string;
+          auction_id: string;
+          bid_id?: string | null;
+          result?: PlaceBidResult | null;
+          created_at?: string;
+        };
+        Update: {
+          bidder_id?: string;
+          idempotency_key?: string;
+          auction_id?: string;
+          bid_id?: string | null;
+          result?: PlaceBidResult | null;
+          created_at?: string;
+        };
+      };
+      categories: {
+        Row: {
+          id: string;
+          parent_id: string | null;
+          name: string;
+          slug: string;
+          position: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          parent_id?: string | null;
+          name: string;
+          slug: string;
+          position?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          parent_id?: string | null;
+          name?: string;
+          slug?: string;
+          position?: number;
+          created_at?: string;
+        };
+      };
+      watchlist: {
+        Row: {
+          user_id: string;
+          auction_id: string;
+          created_at: string;
+          starts_soon_sent_at: string | null;
+          ending_soon_sent_at: string | null;
+          alerted_price: number | null;
+          price_alerted_at: string | null;
+        };
+        Insert: {
+          user_id: string;
+          auction_id: string;
+          created_at?: string;
+          starts_soon_sent_at?: string | null;
+          ending_soon_sent_at?: string | null;
+          alerted_price?: number | null;
+          price_alerted_at?: string | null;
+        };
+        Update: {
+          user_id?: string;
+          auction_id?: string;
+          created_at?: string;
+          starts_soon_sent_at?: string | null;
+          ending_soon_sent_at?: string | null;
+          alerted_price?: number | null;
+          price_alerted_at?: string | null;
+        };
+      };
+      saved_searches: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          filters: Record<string, string>;
+          frequency: 'immediate' | 'daily' | 'off';
+          last_checked_at: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          filters?: Record<string, string>;
+          frequency?: 'immediate' | 'daily' | 'off';
+          last_checked_at?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          filters?: Record<string, string>;
+          frequency?: 'immediate' | 'daily' | 'off';
+          last_checked_at?: string;
+          created_at?: string;
+        };
+      };
+      auction_images: {
+        Row: {
+          id: string;
+          auction_id: string;
+          path: string;
+          thumbnail_path: string;
+          width: number;
+          height: number;
+          position: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          auction_id: string;
+          path: string;
+          thumbnail_path: string;
+          width: number;
+          height: number;
+          position?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          auction_id?: string;
+          path?: string;
+          thumbnail_path?: string;
+          width?: number;
+          height?: number;
+          position?: number;
+          created_at?: string;
+        };
+      };
+      category_attributes: {
+        Row: {
+          id: string;
+          category_id: string;
+          key: string;
+          label: string;
+          type: 'text' | 'number' | 'select';
+          options: string[];
+          required: boolean;
+          position: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          category_id: string;
+          key: string;
+          label: string;
+          type?: 'text' | 'number' | 'select';
+          options?: string[];
+          required?: boolean;
+          position?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          category_id?: string;
+          key?: string;
+          label?: string;
+          type?: 'text' | 'number' | 'select';
+          options?: string[];
+          required?: boolean;
+          position?: number;
+          created_at?: string;
+        };
+      };
+      auction_shipping_options: {
+        Row: {
+          id: string;
+          auction_id: string;
+          method: string;
+          cost: number;
+          position: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          auction_id: string;
+          method: string;
+          cost: number;
+          position?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          auction_id?: string;
+          method?: string;
+          cost?: number;
+          position?: number;
+          created_at?: string;
+        };
+      };
     };
   };
-};
\ No newline at end of file
+};
+
+// Outcome of the place_bid() RPC
+export type PlaceBidResult =
+  | { status: 'accepted'; bid_id: string }
+  | { status: 'outbid_by_proxy'; bid_id: string; highest_bid: number; minimum_bid: number }
+  | { status: 'outbid_by_proxy'; bid_id: string; highest_bid: number; maximum_bid: number }
+  | { status: 'too_low'; minimum_bid: number }
+  | { status: 'too_high'; maximum_bid: number }
+  | { status: 'auction_closed' };
+
+// Only drafts may leave pricing and schedule empty, see auctions_publishable_check
+export type PublishedAuction = Omit<
+  Database['public']['Tables']['auctions']['Row'],
+  'starting_price' | 'bid_increment' | 'start_time' | 'end_time'
+> & {
+  starting_price: number;
+  bid_increment: number;
+  start_time: string;
+  end_time: string;
+};
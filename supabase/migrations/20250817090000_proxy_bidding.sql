@@ -0,0 +1,280 @@
+/*
+  # Proxy (Automatic) Bidding
+
+  1. New Tables
+    - `max_bids`
+      - `id` (uuid, primary key)
+      - `auction_id` (uuid, references auctions)
+      - `bidder_id` (uuid, references profiles)
+      - `max_amount` (decimal) - the bidder's secret ceiling
+      - `placed_at` (timestamp) - when the ceiling was last set, earlier ceilings win ties
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `bids.is_proxy` (boolean) marks bids the system placed on a bidder's behalf
+
+  3. Functions
+    - `resolve_proxy_bids()` settles competing ceilings eBay-style: the highest
+      ceiling leads at one increment above the strongest competing position
+    - `place_proxy_bid()` stores a ceiling and places the opening bid
+    - `handle_new_bid()` runs proxy resolution after every manual bid
+
+  4. Security
+    - Max bids are private, a bidder can only read their own ceiling
+    - Ceilings are only written through `place_proxy_bid()`
+*/
+
+ALTER TABLE bids ADD COLUMN IF NOT EXISTS is_proxy boolean NOT NULL DEFAULT false;
+
+-- Create max bids table
+CREATE TABLE IF NOT EXISTS max_bids (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  auction_id uuid REFERENCES auctions(id) ON DELETE CASCADE NOT NULL,
+  bidder_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  max_amount decimal(10,2) NOT NULL CHECK (max_amount > 0),
+  placed_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (auction_id, bidder_id)
+);
+
+ALTER TABLE max_bids ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Bidders can read their own max bids"
+  ON max_bids FOR SELECT
+  TO authenticated
+  USING (auth.uid() = bidder_id);
+
+CREATE INDEX IF NOT EXISTS max_bids_auction_id_idx ON max_bids(auction_id, max_amount DESC);
+
+-- Settle competing ceilings after a manual bid or a new ceiling
+CREATE OR REPLACE FUNCTION resolve_proxy_bids(p_auction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  leader max_bids%ROWTYPE;
+  challenger max_bids%ROWTYPE;
+  competing_amount NUMERIC(10,2);
+  target_amount NUMERIC(10,2);
+BEGIN
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id;
+
+  IF auction_record IS NULL OR auction_record.status != 'active' THEN
+    RETURN;
+  END IF;
+
+  -- The winning ceiling is the highest one, the earliest placed on ties
+  SELECT * INTO leader
+  FROM max_bids
+  WHERE auction_id = p_auction_id
+  ORDER BY max_amount DESC, placed_at ASC
+  LIMIT 1;
+
+  IF leader.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO challenger
+  FROM max_bids
+  WHERE auction_id = p_auction_id
+    AND bidder_id != leader.bidder_id
+  ORDER BY max_amount DESC, placed_at ASC
+  LIMIT 1;
+
+  -- Strongest position held by anyone else: their ceiling or their best bid
+  SELECT GREATEST(COALESCE(challenger.max_amount, 0), COALESCE(MAX(amount), 0))
+  INTO competing_amount
+  FROM bids
+  WHERE auction_id = p_auction_id
+    AND bidder_id != leader.bidder_id;
+
+  -- A manual bid above the ceiling beats it outright
+  IF competing_amount > leader.max_amount THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.proxy_bidding', 'on', true);
+
+  -- The losing ceiling bids all the way up before it is beaten
+  IF challenger.id IS NOT NULL
+     AND challenger.max_amount > auction_record.highest_bid
+     AND challenger.max_amount >= auction_record.starting_price THEN
+    INSERT INTO bids (auction_id, bidder_id, amount, is_proxy)
+    VALUES (p_auction_id, challenger.bidder_id, challenger.max_amount, true);
+
+    SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id;
+  END IF;
+
+  IF competing_amount = 0 THEN
+    target_amount := auction_record.starting_price;
+  ELSE
+    target_amount := LEAST(leader.max_amount, competing_amount + auction_record.bid_increment);
+  END IF;
+
+  IF NOT (auction_record.highest_bidder_id = leader.bidder_id AND auction_record.highest_bid >= target_amount)
+     AND target_amount >= auction_record.highest_bid THEN
+    INSERT INTO bids (auction_id, bidder_id, amount, is_proxy)
+    VALUES (p_auction_id, leader.bidder_id, target_amount, true);
+  END IF;
+
+  PERFORM set_config('app.proxy_bidding', 'off', true);
+END;
+$$;
+
+-- Store the caller's ceiling and open bidding on their behalf
+CREATE OR REPLACE FUNCTION place_proxy_bid(p_auction_id uuid, p_max_amount numeric)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  existing_max NUMERIC(10,2);
+  minimum_bid NUMERIC(10,2);
+BEGIN
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id;
+
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.status != 'active' OR auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Auction is not active';
+  END IF;
+
+  IF auction_record.seller_id = auth.uid() THEN
+    RAISE EXCEPTION 'Sellers cannot bid on their own auctions';
+  END IF;
+
+  SELECT max_amount INTO existing_max
+  FROM max_bids
+  WHERE auction_id = p_auction_id AND bidder_id = auth.uid();
+
+  IF existing_max IS NOT NULL AND p_max_amount <= existing_max THEN
+    RAISE EXCEPTION 'Maximum bid must be higher than your current maximum of %', existing_max;
+  END IF;
+
+  IF COALESCE(auction_record.highest_bid, 0) = 0 THEN
+    minimum_bid := auction_record.starting_price;
+  ELSE
+    minimum_bid := auction_record.highest_bid + auction_record.bid_increment;
+  END IF;
+
+  IF auction_record.highest_bidder_id IS DISTINCT FROM auth.uid() AND p_max_amount < minimum_bid THEN
+    RAISE EXCEPTION 'Bid amount must be at least %', minimum_bid;
+  END IF;
+
+  INSERT INTO max_bids (auction_id, bidder_id, max_amount)
+  VALUES (p_auction_id, auth.uid(), p_max_amount)
+  ON CONFLICT (auction_id, bidder_id)
+  DO UPDATE SET max_amount = EXCLUDED.max_amount, placed_at = now();
+
+  IF auction_record.highest_bidder_id = auth.uid() THEN
+    -- Already leading: a higher ceiling only matters against other ceilings
+    PERFORM resolve_proxy_bids(p_auction_id);
+  ELSE
+    -- Opening bid at the minimum, handle_new_bid() resolves from there
+    INSERT INTO bids (auction_id, bidder_id, amount)
+    VALUES (p_auction_id, auth.uid(), minimum_bid);
+  END IF;
+END;
+$$;
+
+-- Validate bids, skipping the increment rule for system proxy bids
+CREATE OR REPLACE FUNCTION handle_new_bid()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  current_highest_bid NUMERIC(10,2);
+  minimum_bid NUMERIC(10,2);
+BEGIN
+  -- Get the auction record
+  SELECT * INTO auction_record FROM auctions WHERE id = NEW.auction_id;
+
+  -- Check if auction exists and is active
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.status != 'active' THEN
+    RAISE EXCEPTION 'Auction is not active';
+  END IF;
+
+  -- Check if auction has ended
+  IF auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Auction has ended';
+  END IF;
+
+  -- Prevent seller from bidding on their own auction
+  IF auction_record.seller_id = NEW.bidder_id THEN
+    RAISE EXCEPTION 'Sellers cannot bid on their own auctions';
+  END IF;
+
+  current_highest_bid := COALESCE(auction_record.highest_bid, 0);
+
+  IF NEW.is_proxy THEN
+    -- Proxy bids are only ever placed by resolve_proxy_bids()
+    IF COALESCE(current_setting('app.proxy_bidding', true), 'off') != 'on' THEN
+      RAISE EXCEPTION 'Proxy bids can only be placed by the system';
+    END IF;
+
+    -- A ceiling may match the current bid when it wins the tie
+    minimum_bid := GREATEST(current_highest_bid, auction_record.starting_price);
+  ELSIF current_highest_bid = 0 THEN
+    -- First bid must be at least the starting price
+    minimum_bid := auction_record.starting_price;
+  ELSE
+    -- Subsequent bids must be at least current highest + increment
+    minimum_bid := current_highest_bid + auction_record.bid_increment;
+  END IF;
+
+  -- Validate bid amount
+  IF NEW.amount < minimum_bid THEN
+    RAISE EXCEPTION 'Bid amount must be at least %', minimum_bid;
+  END IF;
+
+  -- Update auction with new highest bid
+  UPDATE auctions
+  SET
+    highest_bid = NEW.amount,
+    highest_bidder_id = NEW.bidder_id
+  WHERE id = NEW.auction_id;
+
+  -- Create notification for the seller
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  VALUES (
+    auction_record.seller_id,
+    NEW.auction_id,
+    'new_bid',
+    'New bid of $' || NEW.amount || ' placed on your auction "' || auction_record.title || '"'
+  );
+
+  -- Create notification for previous highest bidder (if exists and different)
+  IF auction_record.highest_bidder_id IS NOT NULL
+     AND auction_record.highest_bidder_id != NEW.bidder_id THEN
+    INSERT INTO notifications (user_id, auction_id, type, message)
+    VALUES (
+      auction_record.highest_bidder_id,
+      NEW.auction_id,
+      'outbid',
+      'You have been outbid on "' || auction_record.title || '". New highest bid: $' || NEW.amount
+    );
+  END IF;
+
+  -- Let ceilings respond to manual bids
+  IF NOT NEW.is_proxy THEN
+    PERFORM resolve_proxy_bids(NEW.auction_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION place_proxy_bid(uuid, numeric) TO authenticated;
+REVOKE EXECUTE ON FUNCTION resolve_proxy_bids(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,139 @@
+/*
+  # Anti-Sniping Soft Close
+
+  1. Changes
+    - `auctions.soft_close_window_minutes` (integer) - bids in the final N minutes extend the auction
+    - `auctions.soft_close_extension_minutes` (integer) - how far each late bid pushes `end_time`
+    - `auctions.soft_close_max_extension_minutes` (integer) - optional cap on the total extension
+    - `auctions.extended_minutes` (integer) - total extension applied so far
+
+  2. Functions
+    - `handle_new_bid()` extends `end_time` when a manual bid lands inside the
+      soft-close window. Proxy responses to that bid do not extend it again.
+*/
+
+ALTER TABLE auctions
+  ADD COLUMN IF NOT EXISTS soft_close_window_minutes integer CHECK (soft_close_window_minutes > 0),
+  ADD COLUMN IF NOT EXISTS soft_close_extension_minutes integer CHECK (soft_close_extension_minutes > 0),
+  ADD COLUMN IF NOT EXISTS soft_close_max_extension_minutes integer CHECK (soft_close_max_extension_minutes > 0),
+  ADD COLUMN IF NOT EXISTS extended_minutes integer NOT NULL DEFAULT 0;
+
+ALTER TABLE auctions
+  ADD CONSTRAINT auctions_soft_close_check
+  CHECK ((soft_close_window_minutes IS NULL) = (soft_close_extension_minutes IS NULL));
+
+-- Extend late bids in handle_new_bid()
+CREATE OR REPLACE FUNCTION handle_new_bid()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  current_highest_bid NUMERIC(10,2);
+  minimum_bid NUMERIC(10,2);
+  extension_minutes INTEGER;
+BEGIN
+  -- Get the auction record
+  SELECT * INTO auction_record FROM auctions WHERE id = NEW.auction_id;
+
+  -- Check if auction exists and is active
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.status != 'active' THEN
+    RAISE EXCEPTION 'Auction is not active';
+  END IF;
+
+  -- Check if auction has ended
+  IF auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Auction has ended';
+  END IF;
+
+  -- Prevent seller from bidding on their own auction
+  IF auction_record.seller_id = NEW.bidder_id THEN
+    RAISE EXCEPTION 'Sellers cannot bid on their own auctions';
+  END IF;
+
+  current_highest_bid := COALESCE(auction_record.highest_bid, 0);
+
+  IF NEW.is_proxy THEN
+    -- Proxy bids are only ever placed by resolve_proxy_bids()
+    IF COALESCE(current_setting('app.proxy_bidding', true), 'off') != 'on' THEN
+      RAISE EXCEPTION 'Proxy bids can only be placed by the system';
+    END IF;
+
+    -- A ceiling may match the current bid when it wins the tie
+    minimum_bid := GREATEST(current_highest_bid, auction_record.starting_price);
+  ELSIF current_highest_bid = 0 THEN
+    -- First bid must be at least the starting price
+    minimum_bid := auction_record.starting_price;
+  ELSE
+    -- Subsequent bids must be at least current highest + increment
+    minimum_bid := current_highest_bid + auction_record.bid_increment;
+  END IF;
+
+  -- Validate bid amount
+  IF NEW.amount < minimum_bid THEN
+    RAISE EXCEPTION 'Bid amount must be at least %', minimum_bid;
+  END IF;
+
+  -- Update auction with new highest bid
+  UPDATE auctions
+  SET
+    highest_bid = NEW.amount,
+    highest_bidder_id = NEW.bidder_id
+  WHERE id = NEW.auction_id;
+
+  -- Create notification for the seller
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  VALUES (
+    auction_record.seller_id,
+    NEW.auction_id,
+    'new_bid',
+    'New bid of $' || NEW.amount || ' placed on your auction "' || auction_record.title || '"'
+  );
+
+  -- Create notification for previous highest bidder (if exists and different)
+  IF auction_record.highest_bidder_id IS NOT NULL
+     AND auction_record.highest_bidder_id != NEW.bidder_id THEN
+    INSERT INTO notifications (user_id, auction_id, type, message)
+    VALUES (
+      auction_record.highest_bidder_id,
+      NEW.auction_id,
+      'outbid',
+      'You have been outbid on "' || auction_record.title || '". New highest bid: $' || NEW.amount
+    );
+  END IF;
+
+  -- Soft close: a late manual bid pushes the end time out, up to the cap
+  IF NOT NEW.is_proxy
+     AND auction_record.soft_close_window_minutes IS NOT NULL
+     AND auction_record.end_time - now() <= make_interval(mins => auction_record.soft_close_window_minutes) THEN
+    extension_minutes := auction_record.soft_close_extension_minutes;
+
+    IF auction_record.soft_close_max_extension_minutes IS NOT NULL THEN
+      extension_minutes := LEAST(
+        extension_minutes,
+        auction_record.soft_close_max_extension_minutes - auction_record.extended_minutes
+      );
+    END IF;
+
+    IF extension_minutes > 0 THEN
+      UPDATE auctions
+      SET
+        end_time = end_time + make_interval(mins => extension_minutes),
+        extended_minutes = extended_minutes + extension_minutes
+      WHERE id = NEW.auction_id;
+    END IF;
+  END IF;
+
+  -- Let ceilings respond to manual bids
+  IF NOT NEW.is_proxy THEN
+    PERFORM resolve_proxy_bids(NEW.auction_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,333 @@
+/*
+  # Reserve Prices
+
+  1. New Tables
+    - `auction_reserves`
+      - `auction_id` (uuid, primary key, references auctions)
+      - `reserve_price` (decimal) - the seller's hidden minimum
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `auctions.has_reserve` (boolean) - public flag, kept in sync from `auction_reserves`
+    - `auctions.reserve_met` (boolean) - whether the highest bid covers the reserve
+    - `auctions.result` (enum: sold, reserve_not_met, no_bids) - recorded when the auction ends
+
+  3. Functions
+    - `sync_auction_reserve()` keeps the public flags in step with the reserve
+    - `handle_new_bid()` re-evaluates `reserve_met` on every bid
+    - `resolve_proxy_bids()` bids a ceiling straight up to the reserve when it covers it
+    - `update_auction_status()` records the result and notifies the seller and
+      top bidder when the reserve was not met
+
+  4. Security
+    - Auctions stay publicly readable, so the amount lives in its own table
+      that only the seller can read or change
+*/
+
+CREATE TYPE auction_result AS ENUM ('sold', 'reserve_not_met', 'no_bids');
+
+ALTER TABLE auctions
+  ADD COLUMN IF NOT EXISTS has_reserve boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS reserve_met boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS result auction_result;
+
+-- Create auction reserves table
+CREATE TABLE IF NOT EXISTS auction_reserves (
+  auction_id uuid PRIMARY KEY REFERENCES auctions(id) ON DELETE CASCADE,
+  reserve_price decimal(10,2) NOT NULL CHECK (reserve_price > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE auction_reserves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sellers can read their own reserves"
+  ON auction_reserves FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM auctions WHERE auctions.id = auction_id AND auctions.seller_id = auth.uid()
+  ));
+
+CREATE POLICY "Sellers can set reserves before bidding starts"
+  ON auction_reserves FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM auctions
+    WHERE auctions.id = auction_id
+      AND auctions.seller_id = auth.uid()
+      AND auctions.highest_bidder_id IS NULL
+  ));
+
+CREATE POLICY "Sellers can change reserves before bidding starts"
+  ON auction_reserves FOR UPDATE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM auctions
+    WHERE auctions.id = auction_id
+      AND auctions.seller_id = auth.uid()
+      AND auctions.highest_bidder_id IS NULL
+  ));
+
+-- Keep the public reserve flags in sync
+CREATE OR REPLACE FUNCTION sync_auction_reserve()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE auctions
+  SET
+    has_reserve = true,
+    reserve_met = highest_bid >= NEW.reserve_price
+  WHERE id = NEW.auction_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auction_reserve_changed ON auction_reserves;
+CREATE TRIGGER on_auction_reserve_changed
+  AFTER INSERT OR UPDATE ON auction_reserves
+  FOR EACH ROW EXECUTE FUNCTION sync_auction_reserve();
+
+CREATE OR REPLACE FUNCTION update_auction_status()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Update auctions that should be active
+  UPDATE auctions 
+  SET status = 'active'
+  WHERE status = 'draft' 
+    AND start_time <= now() 
+    AND end_time > now();
+    
+  -- Update auctions that should be ended, recording how they ended
+  WITH ended AS (
+    UPDATE auctions
+    SET
+      status = 'ended',
+      result = CASE
+        WHEN highest_bidder_id IS NULL THEN 'no_bids'
+        WHEN has_reserve AND NOT reserve_met THEN 'reserve_not_met'
+        ELSE 'sold'
+      END::auction_result
+    WHERE status IN ('draft', 'active')
+      AND end_time <= now()
+    RETURNING *
+  )
+  -- Tell the seller and the top bidder when the reserve stopped the sale
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT recipient.user_id, ended.id, 'auction_ended', recipient.message
+  FROM ended
+  CROSS JOIN LATERAL (
+    VALUES
+      (ended.seller_id, 'Your auction "' || ended.title || '" ended without meeting your reserve price. Top bid: $' || ended.highest_bid),
+      (ended.highest_bidder_id, 'The auction "' || ended.title || '" ended without meeting the reserve price, so your bid of $' || ended.highest_bid || ' did not win')
+  ) AS recipient(user_id, message)
+  WHERE ended.result = 'reserve_not_met';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_new_bid()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  current_highest_bid NUMERIC(10,2);
+  minimum_bid NUMERIC(10,2);
+  extension_minutes INTEGER;
+BEGIN
+  -- Get the auction record
+  SELECT * INTO auction_record FROM auctions WHERE id = NEW.auction_id;
+
+  -- Check if auction exists and is active
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.status != 'active' THEN
+    RAISE EXCEPTION 'Auction is not active';
+  END IF;
+
+  -- Check if auction has ended
+  IF auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Auction has ended';
+  END IF;
+
+  -- Prevent seller from bidding on their own auction
+  IF auction_record.seller_id = NEW.bidder_id THEN
+    RAISE EXCEPTION 'Sellers cannot bid on their own auctions';
+  END IF;
+
+  current_highest_bid := COALESCE(auction_record.highest_bid, 0);
+
+  IF NEW.is_proxy THEN
+    -- Proxy bids are only ever placed by resolve_proxy_bids()
+    IF COALESCE(current_setting('app.proxy_bidding', true), 'off') != 'on' THEN
+      RAISE EXCEPTION 'Proxy bids can only be placed by the system';
+    END IF;
+
+    -- A ceiling may match the current bid when it wins the tie
+    minimum_bid := GREATEST(current_highest_bid, auction_record.starting_price);
+  ELSIF current_highest_bid = 0 THEN
+    -- First bid must be at least the starting price
+    minimum_bid := auction_record.starting_price;
+  ELSE
+    -- Subsequent bids must be at least current highest + increment
+    minimum_bid := current_highest_bid + auction_record.bid_increment;
+  END IF;
+
+  -- Validate bid amount
+  IF NEW.amount < minimum_bid THEN
+    RAISE EXCEPTION 'Bid amount must be at least %', minimum_bid;
+  END IF;
+
+  -- Update auction with new highest bid
+  UPDATE auctions
+  SET
+    highest_bid = NEW.amount,
+    highest_bidder_id = NEW.bidder_id,
+    reserve_met = NEW.amount >= COALESCE(
+      (SELECT reserve_price FROM auction_reserves WHERE auction_id = NEW.auction_id),
+      0
+    )
+  WHERE id = NEW.auction_id;
+
+  -- Create notification for the seller
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  VALUES (
+    auction_record.seller_id,
+    NEW.auction_id,
+    'new_bid',
+    'New bid of $' || NEW.amount || ' placed on your auction "' || auction_record.title || '"'
+  );
+
+  -- Create notification for previous highest bidder (if exists and different)
+  IF auction_record.highest_bidder_id IS NOT NULL
+     AND auction_record.highest_bidder_id != NEW.bidder_id THEN
+    INSERT INTO notifications (user_id, auction_id, type, message)
+    VALUES (
+      auction_record.highest_bidder_id,
+      NEW.auction_id,
+      'outbid',
+      'You have been outbid on "' || auction_record.title || '". New highest bid: $' || NEW.amount
+    );
+  END IF;
+
+  -- Soft close: a late manual bid pushes the end time out, up to the cap
+  IF NOT NEW.is_proxy
+     AND auction_record.soft_close_window_minutes IS NOT NULL
+     AND auction_record.end_time - now() <= make_interval(mins => auction_record.soft_close_window_minutes) THEN
+    extension_minutes := auction_record.soft_close_extension_minutes;
+
+    IF auction_record.soft_close_max_extension_minutes IS NOT NULL THEN
+      extension_minutes := LEAST(
+        extension_minutes,
+        auction_record.soft_close_max_extension_minutes - auction_record.extended_minutes
+      );
+    END IF;
+
+    IF extension_minutes > 0 THEN
+      UPDATE auctions
+      SET
+        end_time = end_time + make_interval(mins => extension_minutes),
+        extended_minutes = extended_minutes + extension_minutes
+      WHERE id = NEW.auction_id;
+    END IF;
+  END IF;
+
+  -- Let ceilings respond to manual bids
+  IF NOT NEW.is_proxy THEN
+    PERFORM resolve_proxy_bids(NEW.auction_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION resolve_proxy_bids(p_auction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  leader max_bids%ROWTYPE;
+  challenger max_bids%ROWTYPE;
+  competing_amount NUMERIC(10,2);
+  target_amount NUMERIC(10,2);
+  reserve_amount NUMERIC(10,2);
+BEGIN
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id;
+
+  IF auction_record IS NULL OR auction_record.status != 'active' THEN
+    RETURN;
+  END IF;
+
+  -- The winning ceiling is the highest one, the earliest placed on ties
+  SELECT * INTO leader
+  FROM max_bids
+  WHERE auction_id = p_auction_id
+  ORDER BY max_amount DESC, placed_at ASC
+  LIMIT 1;
+
+  IF leader.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO challenger
+  FROM max_bids
+  WHERE auction_id = p_auction_id
+    AND bidder_id != leader.bidder_id
+  ORDER BY max_amount DESC, placed_at ASC
+  LIMIT 1;
+
+  -- Strongest position held by anyone else: their ceiling or their best bid
+  SELECT GREATEST(COALESCE(challenger.max_amount, 0), COALESCE(MAX(amount), 0))
+  INTO competing_amount
+  FROM bids
+  WHERE auction_id = p_auction_id
+    AND bidder_id != leader.bidder_id;
+
+  -- A manual bid above the ceiling beats it outright
+  IF competing_amount > leader.max_amount THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.proxy_bidding', 'on', true);
+
+  -- The losing ceiling bids all the way up before it is beaten
+  IF challenger.id IS NOT NULL
+     AND challenger.max_amount > auction_record.highest_bid
+     AND challenger.max_amount >= auction_record.starting_price THEN
+    INSERT INTO bids (auction_id, bidder_id, amount, is_proxy)
+    VALUES (p_auction_id, challenger.bidder_id, challenger.max_amount, true);
+
+    SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id;
+  END IF;
+
+  IF competing_amount = 0 THEN
+    target_amount := auction_record.starting_price;
+  ELSE
+    target_amount := LEAST(leader.max_amount, competing_amount + auction_record.bid_increment);
+  END IF;
+
+  -- A ceiling that covers the reserve bids straight up to it
+  SELECT reserve_price INTO reserve_amount FROM auction_reserves WHERE auction_id = p_auction_id;
+
+  IF reserve_amount IS NOT NULL AND leader.max_amount >= reserve_amount THEN
+    target_amount := GREATEST(target_amount, reserve_amount);
+  END IF;
+
+  IF NOT (auction_record.highest_bidder_id = leader.bidder_id AND auction_record.highest_bid >= target_amount)
+     AND target_amount >= auction_record.highest_bid THEN
+    INSERT INTO bids (auction_id, bidder_id, amount, is_proxy)
+    VALUES (p_auction_id, leader.bidder_id, target_amount, true);
+  END IF;
+
+  PERFORM set_config('app.proxy_bidding', 'off', true);
+END;
+$$;
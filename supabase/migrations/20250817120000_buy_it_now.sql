@@ -0,0 +1,228 @@
+/*
+  # Buy It Now
+
+  1. Changes
+    - `auctions.buy_now_price` (decimal) - optional price that ends the auction at once
+    - `auctions.buy_now_cutoff_percent` (integer) - Buy It Now disappears once a bid
+      reaches this share of the Buy It Now price
+    - `bids.is_buy_now` (boolean) - marks the purchase in the bidding history
+
+  2. Functions
+    - `buy_now()` locks the auction, records the purchase as a bid, ends the
+      auction and notifies the seller and the other bidders
+    - `handle_new_bid()` locks the auction row too, so a regular bid arriving at
+      the same instant either lands first or finds the auction ended
+*/
+
+ALTER TABLE auctions
+  ADD COLUMN IF NOT EXISTS buy_now_price decimal(10,2) CHECK (buy_now_price > 0),
+  ADD COLUMN IF NOT EXISTS buy_now_cutoff_percent integer NOT NULL DEFAULT 50
+    CHECK (buy_now_cutoff_percent BETWEEN 1 AND 100);
+
+ALTER TABLE auctions
+  ADD CONSTRAINT auctions_buy_now_above_starting_price_check
+  CHECK (buy_now_price IS NULL OR buy_now_price > starting_price);
+
+ALTER TABLE bids ADD COLUMN IF NOT EXISTS is_buy_now boolean NOT NULL DEFAULT false;
+
+-- Buy the item outright and end the auction
+CREATE OR REPLACE FUNCTION buy_now(p_auction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+BEGIN
+  -- Lock the auction so a bid arriving at the same instant waits for the outcome
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id FOR UPDATE;
+
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.status != 'active' OR auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Auction is not active';
+  END IF;
+
+  IF auction_record.seller_id = auth.uid() THEN
+    RAISE EXCEPTION 'Sellers cannot buy their own auctions';
+  END IF;
+
+  IF auction_record.buy_now_price IS NULL THEN
+    RAISE EXCEPTION 'This auction has no Buy It Now price';
+  END IF;
+
+  IF auction_record.highest_bid >= auction_record.buy_now_price * auction_record.buy_now_cutoff_percent / 100.0 THEN
+    RAISE EXCEPTION 'Buy It Now is no longer available';
+  END IF;
+
+  PERFORM set_config('app.buy_now', 'on', true);
+
+  INSERT INTO bids (auction_id, bidder_id, amount, is_buy_now)
+  VALUES (p_auction_id, auth.uid(), auction_record.buy_now_price, true);
+
+  PERFORM set_config('app.buy_now', 'off', true);
+
+  UPDATE auctions
+  SET
+    status = 'ended',
+    end_time = now(),
+    result = 'sold'
+  WHERE id = p_auction_id;
+
+  -- Notify the seller
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  VALUES (
+    auction_record.seller_id,
+    p_auction_id,
+    'auction_ended',
+    'Your auction "' || auction_record.title || '" sold with Buy It Now for $' || auction_record.buy_now_price
+  );
+
+  -- Notify everyone else who bid
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT DISTINCT
+    bids.bidder_id,
+    p_auction_id,
+    'auction_ended'::notification_type,
+    'The auction "' || auction_record.title || '" ended early: the item was bought with Buy It Now'
+  FROM bids
+  WHERE bids.auction_id = p_auction_id
+    AND bids.bidder_id != auth.uid();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_new_bid()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  current_highest_bid NUMERIC(10,2);
+  minimum_bid NUMERIC(10,2);
+  extension_minutes INTEGER;
+BEGIN
+  -- Get the auction record, locked so concurrent bids and Buy It Now serialize
+  SELECT * INTO auction_record FROM auctions WHERE id = NEW.auction_id FOR UPDATE;
+
+  -- Check if auction exists and is active
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.status != 'active' THEN
+    RAISE EXCEPTION 'Auction is not active';
+  END IF;
+
+  -- Check if auction has ended
+  IF auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Auction has ended';
+  END IF;
+
+  -- Prevent seller from bidding on their own auction
+  IF auction_record.seller_id = NEW.bidder_id THEN
+    RAISE EXCEPTION 'Sellers cannot bid on their own auctions';
+  END IF;
+
+  current_highest_bid := COALESCE(auction_record.highest_bid, 0);
+
+  IF NEW.is_buy_now THEN
+    -- Buy It Now purchases are only ever placed by buy_now()
+    IF COALESCE(current_setting('app.buy_now', true), 'off') != 'on' THEN
+      RAISE EXCEPTION 'Buy It Now purchases must go through buy_now()';
+    END IF;
+
+    minimum_bid := auction_record.buy_now_price;
+  ELSIF NEW.is_proxy THEN
+    -- Proxy bids are only ever placed by resolve_proxy_bids()
+    IF COALESCE(current_setting('app.proxy_bidding', true), 'off') != 'on' THEN
+      RAISE EXCEPTION 'Proxy bids can only be placed by the system';
+    END IF;
+
+    -- A ceiling may match the current bid when it wins the tie
+    minimum_bid := GREATEST(current_highest_bid, auction_record.starting_price);
+  ELSIF current_highest_bid = 0 THEN
+    -- First bid must be at least the starting price
+    minimum_bid := auction_record.starting_price;
+  ELSE
+    -- Subsequent bids must be at least current highest + increment
+    minimum_bid := current_highest_bid + auction_record.bid_increment;
+  END IF;
+
+  -- Validate bid amount
+  IF NEW.amount < minimum_bid THEN
+    RAISE EXCEPTION 'Bid amount must be at least %', minimum_bid;
+  END IF;
+
+  -- Update auction with new highest bid
+  UPDATE auctions
+  SET
+    highest_bid = NEW.amount,
+    highest_bidder_id = NEW.bidder_id,
+    reserve_met = NEW.amount >= COALESCE(
+      (SELECT reserve_price FROM auction_reserves WHERE auction_id = NEW.auction_id),
+      0
+    )
+  WHERE id = NEW.auction_id;
+
+  -- Buy It Now settles the auction, buy_now() notifies everyone involved
+  IF NEW.is_buy_now THEN
+    RETURN NEW;
+  END IF;
+
+  -- Create notification for the seller
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  VALUES (
+    auction_record.seller_id,
+    NEW.auction_id,
+    'new_bid',
+    'New bid of $' || NEW.amount || ' placed on your auction "' || auction_record.title || '"'
+  );
+
+  -- Create notification for previous highest bidder (if exists and different)
+  IF auction_record.highest_bidder_id IS NOT NULL
+     AND auction_record.highest_bidder_id != NEW.bidder_id THEN
+    INSERT INTO notifications (user_id, auction_id, type, message)
+    VALUES (
+      auction_record.highest_bidder_id,
+      NEW.auction_id,
+      'outbid',
+      'You have been outbid on "' || auction_record.title || '". New highest bid: $' || NEW.amount
+    );
+  END IF;
+
+  -- Soft close: a late manual bid pushes the end time out, up to the cap
+  IF NOT NEW.is_proxy
+     AND auction_record.soft_close_window_minutes IS NOT NULL
+     AND auction_record.end_time - now() <= make_interval(mins => auction_record.soft_close_window_minutes) THEN
+    extension_minutes := auction_record.soft_close_extension_minutes;
+
+    IF auction_record.soft_close_max_extension_minutes IS NOT NULL THEN
+      extension_minutes := LEAST(
+        extension_minutes,
+        auction_record.soft_close_max_extension_minutes - auction_record.extended_minutes
+      );
+    END IF;
+
+    IF extension_minutes > 0 THEN
+      UPDATE auctions
+      SET
+        end_time = end_time + make_interval(mins => extension_minutes),
+        extended_minutes = extended_minutes + extension_minutes
+      WHERE id = NEW.auction_id;
+    END IF;
+  END IF;
+
+  -- Let ceilings respond to manual bids
+  IF NOT NEW.is_proxy THEN
+    PERFORM resolve_proxy_bids(NEW.auction_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION buy_now(uuid) TO authenticated;
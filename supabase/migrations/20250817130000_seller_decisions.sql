@@ -0,0 +1,297 @@
+/*
+  # Seller Post-Auction Decisions
+
+  1. New Tables
+    - `auction_offers`
+      - `id` (uuid, primary key)
+      - `auction_id` (uuid, references auctions, one decision per auction)
+      - `seller_id` (uuid, references profiles)
+      - `bidder_id` (uuid, references profiles) - the top bidder
+      - `bid_amount` (decimal) - the winning bid
+      - `counter_amount` (decimal) - the seller's counter offer, if any
+      - `counter_expires_at` (timestamp) - deadline for the bidder to answer
+      - `status` (enum: pending, accepted, rejected, countered, counter_accepted,
+        counter_declined, counter_expired)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Functions
+    - `update_auction_status()` opens a pending decision for every sold auction
+      and expires unanswered counter offers
+    - `accept_top_bid()`, `reject_top_bid()`, `counter_top_bid()` are the seller's moves
+    - `respond_to_counter()` is the bidder's answer to a counter offer
+    - Each transition sends a `bid_accepted`, `bid_rejected` or `counter_offer` notification
+
+  3. Security
+    - Only the seller and the top bidder can read a decision
+    - Decisions only change through the transition functions
+*/
+
+CREATE TYPE offer_status AS ENUM (
+  'pending', 'accepted', 'rejected', 'countered', 'counter_accepted', 'counter_declined', 'counter_expired'
+);
+
+-- Create auction offers table
+CREATE TABLE IF NOT EXISTS auction_offers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  auction_id uuid REFERENCES auctions(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  seller_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  bidder_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  bid_amount decimal(10,2) NOT NULL CHECK (bid_amount > 0),
+  counter_amount decimal(10,2) CHECK (counter_amount > 0),
+  counter_expires_at timestamptz,
+  status offer_status NOT NULL DEFAULT 'pending',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE auction_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sellers and top bidders can read their decisions"
+  ON auction_offers FOR SELECT
+  TO authenticated
+  USING (auth.uid() = seller_id OR auth.uid() = bidder_id);
+
+CREATE INDEX IF NOT EXISTS auction_offers_seller_id_idx ON auction_offers(seller_id, status);
+CREATE INDEX IF NOT EXISTS auction_offers_bidder_id_idx ON auction_offers(bidder_id, status);
+
+-- Seller accepts the winning bid
+CREATE OR REPLACE FUNCTION accept_top_bid(p_offer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  offer_record auction_offers%ROWTYPE;
+  auction_title TEXT;
+BEGIN
+  SELECT * INTO offer_record FROM auction_offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF offer_record IS NULL OR offer_record.seller_id != auth.uid() THEN
+    RAISE EXCEPTION 'Decision not found';
+  END IF;
+
+  IF offer_record.status != 'pending' THEN
+    RAISE EXCEPTION 'This bid has already been decided';
+  END IF;
+
+  UPDATE auction_offers
+  SET status = 'accepted', updated_at = now()
+  WHERE id = p_offer_id;
+
+  SELECT title INTO auction_title FROM auctions WHERE id = offer_record.auction_id;
+
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  VALUES (
+    offer_record.bidder_id,
+    offer_record.auction_id,
+    'bid_accepted',
+    'The seller accepted your winning bid of $' || offer_record.bid_amount || ' on "' || auction_title || '"'
+  );
+END;
+$$;
+
+-- Seller rejects the winning bid
+CREATE OR REPLACE FUNCTION reject_top_bid(p_offer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  offer_record auction_offers%ROWTYPE;
+  auction_title TEXT;
+BEGIN
+  SELECT * INTO offer_record FROM auction_offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF offer_record IS NULL OR offer_record.seller_id != auth.uid() THEN
+    RAISE EXCEPTION 'Decision not found';
+  END IF;
+
+  IF offer_record.status != 'pending' THEN
+    RAISE EXCEPTION 'This bid has already been decided';
+  END IF;
+
+  UPDATE auction_offers
+  SET status = 'rejected', updated_at = now()
+  WHERE id = p_offer_id;
+
+  SELECT title INTO auction_title FROM auctions WHERE id = offer_record.auction_id;
+
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  VALUES (
+    offer_record.bidder_id,
+    offer_record.auction_id,
+    'bid_rejected',
+    'The seller declined your winning bid of $' || offer_record.bid_amount || ' on "' || auction_title || '"'
+  );
+END;
+$$;
+
+-- Seller counters the winning bid with a higher price
+CREATE OR REPLACE FUNCTION counter_top_bid(p_offer_id uuid, p_counter_amount numeric, p_expires_in_hours integer DEFAULT 48)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  offer_record auction_offers%ROWTYPE;
+  auction_title TEXT;
+BEGIN
+  SELECT * INTO offer_record FROM auction_offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF offer_record IS NULL OR offer_record.seller_id != auth.uid() THEN
+    RAISE EXCEPTION 'Decision not found';
+  END IF;
+
+  IF offer_record.status != 'pending' THEN
+    RAISE EXCEPTION 'This bid has already been decided';
+  END IF;
+
+  IF p_counter_amount <= offer_record.bid_amount THEN
+    RAISE EXCEPTION 'Counter offer must be higher than the winning bid of %', offer_record.bid_amount;
+  END IF;
+
+  IF p_expires_in_hours < 1 OR p_expires_in_hours > 168 THEN
+    RAISE EXCEPTION 'Counter offers must expire within 1 to 168 hours';
+  END IF;
+
+  UPDATE auction_offers
+  SET
+    status = 'countered',
+    counter_amount = p_counter_amount,
+    counter_expires_at = now() + make_interval(hours => p_expires_in_hours),
+    updated_at = now()
+  WHERE id = p_offer_id;
+
+  SELECT title INTO auction_title FROM auctions WHERE id = offer_record.auction_id;
+
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  VALUES (
+    offer_record.bidder_id,
+    offer_record.auction_id,
+    'counter_offer',
+    'The seller countered your bid on "' || auction_title || '" with $' || p_counter_amount ||
+      '. Respond within ' || p_expires_in_hours || ' hours.'
+  );
+END;
+$$;
+
+-- Top bidder accepts or declines the counter offer
+CREATE OR REPLACE FUNCTION respond_to_counter(p_offer_id uuid, p_accept boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  offer_record auction_offers%ROWTYPE;
+  auction_title TEXT;
+BEGIN
+  SELECT * INTO offer_record FROM auction_offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF offer_record IS NULL OR offer_record.bidder_id != auth.uid() THEN
+    RAISE EXCEPTION 'Decision not found';
+  END IF;
+
+  IF offer_record.status != 'countered' THEN
+    RAISE EXCEPTION 'There is no counter offer to respond to';
+  END IF;
+
+  IF offer_record.counter_expires_at <= now() THEN
+    RAISE EXCEPTION 'This counter offer has expired';
+  END IF;
+
+  UPDATE auction_offers
+  SET
+    status = CASE WHEN p_accept THEN 'counter_accepted' ELSE 'counter_declined' END::offer_status,
+    updated_at = now()
+  WHERE id = p_offer_id;
+
+  SELECT title INTO auction_title FROM auctions WHERE id = offer_record.auction_id;
+
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  VALUES (
+    offer_record.seller_id,
+    offer_record.auction_id,
+    CASE WHEN p_accept THEN 'bid_accepted' ELSE 'bid_rejected' END::notification_type,
+    'The top bidder ' || CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END ||
+      ' your counter offer of $' || offer_record.counter_amount || ' on "' || auction_title || '"'
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_auction_status()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Update auctions that should be active
+  UPDATE auctions 
+  SET status = 'active'
+  WHERE status = 'draft' 
+    AND start_time <= now() 
+    AND end_time > now();
+    
+  -- Update auctions that should be ended, recording how they ended
+  WITH ended AS (
+    UPDATE auctions
+    SET
+      status = 'ended',
+      result = CASE
+        WHEN highest_bidder_id IS NULL THEN 'no_bids'
+        WHEN has_reserve AND NOT reserve_met THEN 'reserve_not_met'
+        ELSE 'sold'
+      END::auction_result
+    WHERE status IN ('draft', 'active')
+      AND end_time <= now()
+    RETURNING *
+  ),
+  -- Sold auctions wait for the seller to accept, reject or counter the top bid
+  offers AS (
+    INSERT INTO auction_offers (auction_id, seller_id, bidder_id, bid_amount)
+    SELECT id, seller_id, highest_bidder_id, highest_bid
+    FROM ended
+    WHERE result = 'sold'
+    RETURNING auction_id
+  )
+  -- Tell the seller and the top bidder how the auction ended
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT recipient.user_id, ended.id, 'auction_ended', recipient.message
+  FROM ended
+  CROSS JOIN LATERAL (
+    VALUES
+      (ended.seller_id, CASE ended.result
+        WHEN 'reserve_not_met' THEN 'Your auction "' || ended.title || '" ended without meeting your reserve price. Top bid: $' || ended.highest_bid
+        WHEN 'sold' THEN 'Your auction "' || ended.title || '" ended with a top bid of $' || ended.highest_bid || '. Accept, reject or counter it.'
+      END),
+      (ended.highest_bidder_id, CASE ended.result
+        WHEN 'reserve_not_met' THEN 'The auction "' || ended.title || '" ended without meeting the reserve price, so your bid of $' || ended.highest_bid || ' did not win'
+        WHEN 'sold' THEN 'You are the top bidder on "' || ended.title || '" at $' || ended.highest_bid || '. The seller will confirm the sale.'
+      END)
+  ) AS recipient(user_id, message)
+  WHERE recipient.user_id IS NOT NULL
+    AND recipient.message IS NOT NULL;
+
+  -- Counter offers the bidder never answered lapse
+  WITH expired AS (
+    UPDATE auction_offers
+    SET status = 'counter_expired', updated_at = now()
+    WHERE status = 'countered'
+      AND counter_expires_at <= now()
+    RETURNING *
+  )
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT
+    expired.seller_id,
+    expired.auction_id,
+    'bid_rejected',
+    'Your counter offer of $' || expired.counter_amount || ' expired without a response'
+  FROM expired;
+END;
+$$;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION accept_top_bid(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION reject_top_bid(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION counter_top_bid(uuid, numeric, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION respond_to_counter(uuid, boolean) TO authenticated;
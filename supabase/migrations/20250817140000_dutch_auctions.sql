@@ -0,0 +1,279 @@
+/*
+  # Dutch (Descending-Price) Auctions
+
+  1. Changes
+    - `auctions.auction_type` (enum: english, dutch) - defaults to the ascending English auction
+    - `auctions.floor_price` (decimal) - the price never drops below this
+    - `auctions.price_decrement` (decimal) - how much the price drops each interval
+    - `auctions.decrement_interval_minutes` (integer) - how often the price drops
+    - A Dutch auction starts at `starting_price`
+
+  2. Functions
+    - `dutch_current_price()` computes the asking price from the schedule
+    - `handle_new_bid()` accepts the first Dutch bid that covers the current
+      price, records it at that price and ends the auction
+    - `place_proxy_bid()` is limited to English auctions
+*/
+
+CREATE TYPE auction_type AS ENUM ('english', 'dutch');
+
+ALTER TABLE auctions
+  ADD COLUMN IF NOT EXISTS auction_type auction_type NOT NULL DEFAULT 'english',
+  ADD COLUMN IF NOT EXISTS floor_price decimal(10,2) CHECK (floor_price > 0),
+  ADD COLUMN IF NOT EXISTS price_decrement decimal(10,2) CHECK (price_decrement > 0),
+  ADD COLUMN IF NOT EXISTS decrement_interval_minutes integer CHECK (decrement_interval_minutes > 0);
+
+ALTER TABLE auctions
+  ADD CONSTRAINT auctions_dutch_schedule_check
+  CHECK (
+    auction_type != 'dutch' OR (
+      floor_price IS NOT NULL
+      AND price_decrement IS NOT NULL
+      AND decrement_interval_minutes IS NOT NULL
+      AND floor_price < starting_price
+    )
+  );
+
+-- Current asking price of a Dutch auction
+CREATE OR REPLACE FUNCTION dutch_current_price(auction_record auctions)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT GREATEST(
+    auction_record.floor_price,
+    auction_record.starting_price - auction_record.price_decrement * FLOOR(
+      GREATEST(EXTRACT(EPOCH FROM now() - auction_record.start_time), 0)
+        / (auction_record.decrement_interval_minutes * 60)
+    )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION handle_new_bid()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  current_highest_bid NUMERIC(10,2);
+  minimum_bid NUMERIC(10,2);
+  extension_minutes INTEGER;
+  dutch_price NUMERIC(10,2);
+BEGIN
+  -- Get the auction record, locked so concurrent bids and Buy It Now serialize
+  SELECT * INTO auction_record FROM auctions WHERE id = NEW.auction_id FOR UPDATE;
+
+  -- Check if auction exists and is active
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.status != 'active' THEN
+    RAISE EXCEPTION 'Auction is not active';
+  END IF;
+
+  -- Check if auction has ended
+  IF auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Auction has ended';
+  END IF;
+
+  -- Prevent seller from bidding on their own auction
+  IF auction_record.seller_id = NEW.bidder_id THEN
+    RAISE EXCEPTION 'Sellers cannot bid on their own auctions';
+  END IF;
+
+  -- Dutch auctions sell to the first taker at the current price
+  IF auction_record.auction_type = 'dutch' THEN
+    IF NEW.is_proxy OR NEW.is_buy_now THEN
+      RAISE EXCEPTION 'Dutch auctions only accept the current price';
+    END IF;
+
+    dutch_price := dutch_current_price(auction_record);
+
+    IF NEW.amount < dutch_price THEN
+      RAISE EXCEPTION 'Bid amount must be at least %', dutch_price;
+    END IF;
+
+    -- Settle at the current price even if the bidder offered more
+    UPDATE bids SET amount = dutch_price WHERE id = NEW.id;
+
+    UPDATE auctions
+    SET
+      highest_bid = dutch_price,
+      highest_bidder_id = NEW.bidder_id,
+      status = 'ended',
+      end_time = now(),
+      result = 'sold'
+    WHERE id = NEW.auction_id;
+
+    INSERT INTO notifications (user_id, auction_id, type, message)
+    VALUES (
+      auction_record.seller_id,
+      NEW.auction_id,
+      'auction_ended',
+      'Your Dutch auction "' || auction_record.title || '" sold for $' || dutch_price
+    );
+
+    RETURN NEW;
+  END IF;
+
+  current_highest_bid := COALESCE(auction_record.highest_bid, 0);
+
+  IF NEW.is_buy_now THEN
+    -- Buy It Now purchases are only ever placed by buy_now()
+    IF COALESCE(current_setting('app.buy_now', true), 'off') != 'on' THEN
+      RAISE EXCEPTION 'Buy It Now purchases must go through buy_now()';
+    END IF;
+
+    minimum_bid := auction_record.buy_now_price;
+  ELSIF NEW.is_proxy THEN
+    -- Proxy bids are only ever placed by resolve_proxy_bids()
+    IF COALESCE(current_setting('app.proxy_bidding', true), 'off') != 'on' THEN
+      RAISE EXCEPTION 'Proxy bids can only be placed by the system';
+    END IF;
+
+    -- A ceiling may match the current bid when it wins the tie
+    minimum_bid := GREATEST(current_highest_bid, auction_record.starting_price);
+  ELSIF current_highest_bid = 0 THEN
+    -- First bid must be at least the starting price
+    minimum_bid := auction_record.starting_price;
+  ELSE
+    -- Subsequent bids must be at least current highest + increment
+    minimum_bid := current_highest_bid + auction_record.bid_increment;
+  END IF;
+
+  -- Validate bid amount
+  IF NEW.amount < minimum_bid THEN
+    RAISE EXCEPTION 'Bid amount must be at least %', minimum_bid;
+  END IF;
+
+  -- Update auction with new highest bid
+  UPDATE auctions
+  SET
+    highest_bid = NEW.amount,
+    highest_bidder_id = NEW.bidder_id,
+    reserve_met = NEW.amount >= COALESCE(
+      (SELECT reserve_price FROM auction_reserves WHERE auction_id = NEW.auction_id),
+      0
+    )
+  WHERE id = NEW.auction_id;
+
+  -- Buy It Now settles the auction, buy_now() notifies everyone involved
+  IF NEW.is_buy_now THEN
+    RETURN NEW;
+  END IF;
+
+  -- Create notification for the seller
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  VALUES (
+    auction_record.seller_id,
+    NEW.auction_id,
+    'new_bid',
+    'New bid of $' || NEW.amount || ' placed on your auction "' || auction_record.title || '"'
+  );
+
+  -- Create notification for previous highest bidder (if exists and different)
+  IF auction_record.highest_bidder_id IS NOT NULL
+     AND auction_record.highest_bidder_id != NEW.bidder_id THEN
+    INSERT INTO notifications (user_id, auction_id, type, message)
+    VALUES (
+      auction_record.highest_bidder_id,
+      NEW.auction_id,
+      'outbid',
+      'You have been outbid on "' || auction_record.title || '". New highest bid: $' || NEW.amount
+    );
+  END IF;
+
+  -- Soft close: a late manual bid pushes the end time out, up to the cap
+  IF NOT NEW.is_proxy
+     AND auction_record.soft_close_window_minutes IS NOT NULL
+     AND auction_record.end_time - now() <= make_interval(mins => auction_record.soft_close_window_minutes) THEN
+    extension_minutes := auction_record.soft_close_extension_minutes;
+
+    IF auction_record.soft_close_max_extension_minutes IS NOT NULL THEN
+      extension_minutes := LEAST(
+        extension_minutes,
+        auction_record.soft_close_max_extension_minutes - auction_record.extended_minutes
+      );
+    END IF;
+
+    IF extension_minutes > 0 THEN
+      UPDATE auctions
+      SET
+        end_time = end_time + make_interval(mins => extension_minutes),
+        extended_minutes = extended_minutes + extension_minutes
+      WHERE id = NEW.auction_id;
+    END IF;
+  END IF;
+
+  -- Let ceilings respond to manual bids
+  IF NOT NEW.is_proxy THEN
+    PERFORM resolve_proxy_bids(NEW.auction_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION place_proxy_bid(p_auction_id uuid, p_max_amount numeric)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  existing_max NUMERIC(10,2);
+  minimum_bid NUMERIC(10,2);
+BEGIN
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id;
+
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.status != 'active' OR auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Auction is not active';
+  END IF;
+
+  IF auction_record.seller_id = auth.uid() THEN
+    RAISE EXCEPTION 'Sellers cannot bid on their own auctions';
+  END IF;
+
+  IF auction_record.auction_type != 'english' THEN
+    RAISE EXCEPTION 'Automatic bidding is only available in ascending auctions';
+  END IF;
+
+  SELECT max_amount INTO existing_max
+  FROM max_bids
+  WHERE auction_id = p_auction_id AND bidder_id = auth.uid();
+
+  IF existing_max IS NOT NULL AND p_max_amount <= existing_max THEN
+    RAISE EXCEPTION 'Maximum bid must be higher than your current maximum of %', existing_max;
+  END IF;
+
+  IF COALESCE(auction_record.highest_bid, 0) = 0 THEN
+    minimum_bid := auction_record.starting_price;
+  ELSE
+    minimum_bid := auction_record.highest_bid + auction_record.bid_increment;
+  END IF;
+
+  IF auction_record.highest_bidder_id IS DISTINCT FROM auth.uid() AND p_max_amount < minimum_bid THEN
+    RAISE EXCEPTION 'Bid amount must be at least %', minimum_bid;
+  END IF;
+
+  INSERT INTO max_bids (auction_id, bidder_id, max_amount)
+  VALUES (p_auction_id, auth.uid(), p_max_amount)
+  ON CONFLICT (auction_id, bidder_id)
+  DO UPDATE SET max_amount = EXCLUDED.max_amount, placed_at = now();
+
+  IF auction_record.highest_bidder_id = auth.uid() THEN
+    -- Already leading: a higher ceiling only matters against other ceilings
+    PERFORM resolve_proxy_bids(p_auction_id);
+  ELSE
+    -- Opening bid at the minimum, handle_new_bid() resolves from there
+    INSERT INTO bids (auction_id, bidder_id, amount)
+    VALUES (p_auction_id, auth.uid(), minimum_bid);
+  END IF;
+END;
+$$;
@@ -0,0 +1,14 @@
+/*
+  # Sealed-Bid Auction Types
+
+  Adds the sealed auction formats on their own so the values are committed
+  before `20250817150100_sealed_bids.sql` uses them.
+
+  1. Changes
+    - `auction_type` gains `sealed_first_price` (the winner pays their own bid)
+      and `sealed_second_price` (Vickrey, the winner pays the runner-up bid plus
+      one increment)
+*/
+
+ALTER TYPE auction_type ADD VALUE IF NOT EXISTS 'sealed_first_price';
+ALTER TYPE auction_type ADD VALUE IF NOT EXISTS 'sealed_second_price';
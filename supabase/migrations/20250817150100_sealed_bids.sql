@@ -0,0 +1,351 @@
+/*
+  # Sealed-Bid Auctions
+
+  1. Changes
+    - Sealed auctions take no Buy It Now price and no soft close
+    - Bidders may revise a sealed bid, their latest bid is the one that counts
+
+  2. Functions
+    - `handle_new_bid()` records sealed bids without touching the auction, so
+      `highest_bid` and `highest_bidder_id` stay empty until close
+    - `update_auction_status()` reveals the winner at close: first price pays the
+      winning bid, second price pays the runner-up bid plus one increment
+
+  3. Security
+    - Bids on sealed auctions are hidden from everyone, the seller included,
+      until the auction ends. Bidders can always read their own bids.
+*/
+
+ALTER TABLE auctions
+  ADD CONSTRAINT auctions_sealed_format_check
+  CHECK (
+    auction_type NOT IN ('sealed_first_price', 'sealed_second_price') OR (
+      buy_now_price IS NULL
+      AND soft_close_window_minutes IS NULL
+    )
+  );
+
+DROP POLICY IF EXISTS "Bids are publicly readable" ON bids;
+
+CREATE POLICY "Bids are publicly readable unless sealed"
+  ON bids FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = bidder_id
+    OR EXISTS (
+      SELECT 1 FROM auctions
+      WHERE auctions.id = bids.auction_id
+        AND (
+          auctions.auction_type NOT IN ('sealed_first_price', 'sealed_second_price')
+          OR auctions.status = 'ended'
+        )
+    )
+  );
+
+-- Accept sealed bids without revealing them on the auction
+CREATE OR REPLACE FUNCTION handle_new_bid()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  current_highest_bid NUMERIC(10,2);
+  minimum_bid NUMERIC(10,2);
+  extension_minutes INTEGER;
+  dutch_price NUMERIC(10,2);
+BEGIN
+  -- Get the auction record, locked so concurrent bids and Buy It Now serialize
+  SELECT * INTO auction_record FROM auctions WHERE id = NEW.auction_id FOR UPDATE;
+
+  -- Check if auction exists and is active
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.status != 'active' THEN
+    RAISE EXCEPTION 'Auction is not active';
+  END IF;
+
+  -- Check if auction has ended
+  IF auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Auction has ended';
+  END IF;
+
+  -- Prevent seller from bidding on their own auction
+  IF auction_record.seller_id = NEW.bidder_id THEN
+    RAISE EXCEPTION 'Sellers cannot bid on their own auctions';
+  END IF;
+
+  -- Dutch auctions sell to the first taker at the current price
+  IF auction_record.auction_type = 'dutch' THEN
+    IF NEW.is_proxy OR NEW.is_buy_now THEN
+      RAISE EXCEPTION 'Dutch auctions only accept the current price';
+    END IF;
+
+    dutch_price := dutch_current_price(auction_record);
+
+    IF NEW.amount < dutch_price THEN
+      RAISE EXCEPTION 'Bid amount must be at least %', dutch_price;
+    END IF;
+
+    -- Settle at the current price even if the bidder offered more
+    UPDATE bids SET amount = dutch_price WHERE id = NEW.id;
+
+    UPDATE auctions
+    SET
+      highest_bid = dutch_price,
+      highest_bidder_id = NEW.bidder_id,
+      status = 'ended',
+      end_time = now(),
+      result = 'sold'
+    WHERE id = NEW.auction_id;
+
+    INSERT INTO notifications (user_id, auction_id, type, message)
+    VALUES (
+      auction_record.seller_id,
+      NEW.auction_id,
+      'auction_ended',
+      'Your Dutch auction "' || auction_record.title || '" sold for $' || dutch_price
+    );
+
+    RETURN NEW;
+  END IF;
+
+  -- Sealed bids stay hidden until close, so the auction itself is left untouched
+  IF auction_record.auction_type IN ('sealed_first_price', 'sealed_second_price') THEN
+    IF NEW.is_proxy OR NEW.is_buy_now THEN
+      RAISE EXCEPTION 'Sealed auctions only accept sealed bids';
+    END IF;
+
+    IF NEW.amount < auction_record.starting_price THEN
+      RAISE EXCEPTION 'Bid amount must be at least %', auction_record.starting_price;
+    END IF;
+
+    -- Revisions replace the bidder's earlier bid, only a new bidder is news
+    IF NOT EXISTS (
+      SELECT 1 FROM bids
+      WHERE auction_id = NEW.auction_id
+        AND bidder_id = NEW.bidder_id
+        AND id != NEW.id
+    ) THEN
+      INSERT INTO notifications (user_id, auction_id, type, message)
+      VALUES (
+        auction_record.seller_id,
+        NEW.auction_id,
+        'new_bid',
+        'A sealed bid was placed on your auction "' || auction_record.title || '"'
+      );
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  current_highest_bid := COALESCE(auction_record.highest_bid, 0);
+
+  IF NEW.is_buy_now THEN
+    -- Buy It Now purchases are only ever placed by buy_now()
+    IF COALESCE(current_setting('app.buy_now', true), 'off') != 'on' THEN
+      RAISE EXCEPTION 'Buy It Now purchases must go through buy_now()';
+    END IF;
+
+    minimum_bid := auction_record.buy_now_price;
+  ELSIF NEW.is_proxy THEN
+    -- Proxy bids are only ever placed by resolve_proxy_bids()
+    IF COALESCE(current_setting('app.proxy_bidding', true), 'off') != 'on' THEN
+      RAISE EXCEPTION 'Proxy bids can only be placed by the system';
+    END IF;
+
+    -- A ceiling may match the current bid when it wins the tie
+    minimum_bid := GREATEST(current_highest_bid, auction_record.starting_price);
+  ELSIF current_highest_bid = 0 THEN
+    -- First bid must be at least the starting price
+    minimum_bid := auction_record.starting_price;
+  ELSE
+    -- Subsequent bids must be at least current highest + increment
+    minimum_bid := current_highest_bid + auction_record.bid_increment;
+  END IF;
+
+  -- Validate bid amount
+  IF NEW.amount < minimum_bid THEN
+    RAISE EXCEPTION 'Bid amount must be at least %', minimum_bid;
+  END IF;
+
+  -- Update auction with new highest bid
+  UPDATE auctions
+  SET
+    highest_bid = NEW.amount,
+    highest_bidder_id = NEW.bidder_id,
+    reserve_met = NEW.amount >= COALESCE(
+      (SELECT reserve_price FROM auction_reserves WHERE auction_id = NEW.auction_id),
+      0
+    )
+  WHERE id = NEW.auction_id;
+
+  -- Buy It Now settles the auction, buy_now() notifies everyone involved
+  IF NEW.is_buy_now THEN
+    RETURN NEW;
+  END IF;
+
+  -- Create notification for the seller
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  VALUES (
+    auction_record.seller_id,
+    NEW.auction_id,
+    'new_bid',
+    'New bid of $' || NEW.amount || ' placed on your auction "' || auction_record.title || '"'
+  );
+
+  -- Create notification for previous highest bidder (if exists and different)
+  IF auction_record.highest_bidder_id IS NOT NULL
+     AND auction_record.highest_bidder_id != NEW.bidder_id THEN
+    INSERT INTO notifications (user_id, auction_id, type, message)
+    VALUES (
+      auction_record.highest_bidder_id,
+      NEW.auction_id,
+      'outbid',
+      'You have been outbid on "' || auction_record.title || '". New highest bid: $' || NEW.amount
+    );
+  END IF;
+
+  -- Soft close: a late manual bid pushes the end time out, up to the cap
+  IF NOT NEW.is_proxy
+     AND auction_record.soft_close_window_minutes IS NOT NULL
+     AND auction_record.end_time - now() <= make_interval(mins => auction_record.soft_close_window_minutes) THEN
+    extension_minutes := auction_record.soft_close_extension_minutes;
+
+    IF auction_record.soft_close_max_extension_minutes IS NOT NULL THEN
+      extension_minutes := LEAST(
+        extension_minutes,
+        auction_record.soft_close_max_extension_minutes - auction_record.extended_minutes
+      );
+    END IF;
+
+    IF extension_minutes > 0 THEN
+      UPDATE auctions
+      SET
+        end_time = end_time + make_interval(mins => extension_minutes),
+        extended_minutes = extended_minutes + extension_minutes
+      WHERE id = NEW.auction_id;
+    END IF;
+  END IF;
+
+  -- Let ceilings respond to manual bids
+  IF NOT NEW.is_proxy THEN
+    PERFORM resolve_proxy_bids(NEW.auction_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Reveal sealed winners as auctions close
+CREATE OR REPLACE FUNCTION update_auction_status()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Update auctions that should be active
+  UPDATE auctions 
+  SET status = 'active'
+  WHERE status = 'draft' 
+    AND start_time <= now() 
+    AND end_time > now();
+    
+  -- Reveal sealed auctions: each bidder's latest bid counts, earliest wins ties
+  WITH latest AS (
+    SELECT DISTINCT ON (bids.auction_id, bids.bidder_id)
+      bids.auction_id, bids.bidder_id, bids.amount, bids.created_at
+    FROM bids
+    JOIN auctions ON auctions.id = bids.auction_id
+    WHERE auctions.auction_type IN ('sealed_first_price', 'sealed_second_price')
+      AND auctions.status = 'active'
+      AND auctions.end_time <= now()
+    ORDER BY bids.auction_id, bids.bidder_id, bids.created_at DESC
+  ),
+  ranked AS (
+    SELECT
+      latest.*,
+      row_number() OVER w AS position,
+      lead(latest.amount) OVER w AS runner_up_amount
+    FROM latest
+    WINDOW w AS (PARTITION BY latest.auction_id ORDER BY latest.amount DESC, latest.created_at ASC)
+  )
+  UPDATE auctions
+  SET
+    highest_bidder_id = ranked.bidder_id,
+    highest_bid = CASE auctions.auction_type
+      WHEN 'sealed_first_price' THEN ranked.amount
+      -- Second price: runner-up plus one increment, lifted to a reserve the winner covers
+      ELSE LEAST(
+        ranked.amount,
+        GREATEST(
+          COALESCE(ranked.runner_up_amount + auctions.bid_increment, auctions.starting_price),
+          COALESCE(auction_reserves.reserve_price, 0)
+        )
+      )
+    END,
+    reserve_met = ranked.amount >= COALESCE(auction_reserves.reserve_price, 0)
+  FROM ranked
+  LEFT JOIN auction_reserves ON auction_reserves.auction_id = ranked.auction_id
+  WHERE auctions.id = ranked.auction_id
+    AND ranked.position = 1;
+
+  -- Update auctions that should be ended, recording how they ended
+  WITH ended AS (
+    UPDATE auctions
+    SET
+      status = 'ended',
+      result = CASE
+        WHEN highest_bidder_id IS NULL THEN 'no_bids'
+        WHEN has_reserve AND NOT reserve_met THEN 'reserve_not_met'
+        ELSE 'sold'
+      END::auction_result
+    WHERE status IN ('draft', 'active')
+      AND end_time <= now()
+    RETURNING *
+  ),
+  -- Sold auctions wait for the seller to accept, reject or counter the top bid
+  offers AS (
+    INSERT INTO auction_offers (auction_id, seller_id, bidder_id, bid_amount)
+    SELECT id, seller_id, highest_bidder_id, highest_bid
+    FROM ended
+    WHERE result = 'sold'
+    RETURNING auction_id
+  )
+  -- Tell the seller and the top bidder how the auction ended
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT recipient.user_id, ended.id, 'auction_ended', recipient.message
+  FROM ended
+  CROSS JOIN LATERAL (
+    VALUES
+      (ended.seller_id, CASE ended.result
+        WHEN 'reserve_not_met' THEN 'Your auction "' || ended.title || '" ended without meeting your reserve price. Top bid: $' || ended.highest_bid
+        WHEN 'sold' THEN 'Your auction "' || ended.title || '" ended with a top bid of $' || ended.highest_bid || '. Accept, reject or counter it.'
+      END),
+      (ended.highest_bidder_id, CASE ended.result
+        WHEN 'reserve_not_met' THEN 'The auction "' || ended.title || '" ended without meeting the reserve price, so your bid of $' || ended.highest_bid || ' did not win'
+        WHEN 'sold' THEN 'You are the top bidder on "' || ended.title || '" at $' || ended.highest_bid || '. The seller will confirm the sale.'
+      END)
+  ) AS recipient(user_id, message)
+  WHERE recipient.user_id IS NOT NULL
+    AND recipient.message IS NOT NULL;
+
+  -- Counter offers the bidder never answered lapse
+  WITH expired AS (
+    UPDATE auction_offers
+    SET status = 'counter_expired', updated_at = now()
+    WHERE status = 'countered'
+      AND counter_expires_at <= now()
+    RETURNING *
+  )
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT
+    expired.seller_id,
+    expired.auction_id,
+    'bid_rejected',
+    'Your counter offer of $' || expired.counter_amount || ' expired without a response'
+  FROM expired;
+END;
+$$;
@@ -0,0 +1,573 @@
+/*
+  # Tiered Bid Increments
+
+  1. New Tables
+    - `bid_increment_tiers`
+      - `id` (uuid, primary key)
+      - `auction_id` (uuid, references auctions) - null for the platform default tiers
+      - `min_price` (decimal) - the tier applies once the current price reaches this
+      - `increment` (decimal) - the increment within the tier
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `auctions.use_increment_tiers` (boolean) - when set, the increment follows the
+      auction's own tiers, or the platform default tiers if it has none. Otherwise
+      the flat `bid_increment` applies as before.
+    - Platform default tiers: $1 under $50, $5 under $500, $25 from $500
+
+  3. Functions
+    - `bid_increment_at()` returns the increment for an auction at a given price
+    - `handle_new_bid()`, `place_proxy_bid()`, `resolve_proxy_bids()` and the
+      second-price reveal in `update_auction_status()` use it
+
+  4. Security
+    - Tiers are publicly readable so bidders can see the steps
+    - Sellers can set their auction's tiers before bidding starts
+*/
+
+ALTER TABLE auctions ADD COLUMN IF NOT EXISTS use_increment_tiers boolean NOT NULL DEFAULT false;
+
+-- Create bid increment tiers table
+CREATE TABLE IF NOT EXISTS bid_increment_tiers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  auction_id uuid REFERENCES auctions(id) ON DELETE CASCADE,
+  min_price decimal(10,2) NOT NULL CHECK (min_price >= 0),
+  increment decimal(10,2) NOT NULL CHECK (increment > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS bid_increment_tiers_auction_price_idx
+  ON bid_increment_tiers(auction_id, min_price)
+  WHERE auction_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS bid_increment_tiers_default_price_idx
+  ON bid_increment_tiers(min_price)
+  WHERE auction_id IS NULL;
+
+ALTER TABLE bid_increment_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Bid increment tiers are publicly readable"
+  ON bid_increment_tiers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Sellers can set tiers before bidding starts"
+  ON bid_increment_tiers FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM auctions
+    WHERE auctions.id = auction_id
+      AND auctions.seller_id = auth.uid()
+      AND auctions.highest_bidder_id IS NULL
+  ));
+
+CREATE POLICY "Sellers can remove tiers before bidding starts"
+  ON bid_increment_tiers FOR DELETE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM auctions
+    WHERE auctions.id = auction_id
+      AND auctions.seller_id = auth.uid()
+      AND auctions.highest_bidder_id IS NULL
+  ));
+
+-- Platform default tiers
+INSERT INTO bid_increment_tiers (auction_id, min_price, increment)
+VALUES
+  (NULL, 0, 1),
+  (NULL, 50, 5),
+  (NULL, 500, 25)
+ON CONFLICT DO NOTHING;
+
+-- Increment that applies to an auction at the given price
+CREATE OR REPLACE FUNCTION bid_increment_at(auction_record auctions, price numeric)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  tier_increment NUMERIC(10,2);
+BEGIN
+  IF NOT auction_record.use_increment_tiers THEN
+    RETURN auction_record.bid_increment;
+  END IF;
+
+  -- The auction's own tiers win over the platform defaults
+  SELECT increment INTO tier_increment
+  FROM bid_increment_tiers
+  WHERE auction_id = auction_record.id
+    AND min_price <= price
+  ORDER BY min_price DESC
+  LIMIT 1;
+
+  IF tier_increment IS NULL AND NOT EXISTS (
+    SELECT 1 FROM bid_increment_tiers WHERE auction_id = auction_record.id
+  ) THEN
+    SELECT increment INTO tier_increment
+    FROM bid_increment_tiers
+    WHERE auction_id IS NULL
+      AND min_price <= price
+    ORDER BY min_price DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN COALESCE(tier_increment, auction_record.bid_increment);
+END;
+$$;
+
+-- Enforce the increment for the current price
+CREATE OR REPLACE FUNCTION handle_new_bid()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  current_highest_bid NUMERIC(10,2);
+  minimum_bid NUMERIC(10,2);
+  extension_minutes INTEGER;
+  dutch_price NUMERIC(10,2);
+BEGIN
+  -- Get the auction record, locked so concurrent bids and Buy It Now serialize
+  SELECT * INTO auction_record FROM auctions WHERE id = NEW.auction_id FOR UPDATE;
+
+  -- Check if auction exists and is active
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.status != 'active' THEN
+    RAISE EXCEPTION 'Auction is not active';
+  END IF;
+
+  -- Check if auction has ended
+  IF auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Auction has ended';
+  END IF;
+
+  -- Prevent seller from bidding on their own auction
+  IF auction_record.seller_id = NEW.bidder_id THEN
+    RAISE EXCEPTION 'Sellers cannot bid on their own auctions';
+  END IF;
+
+  -- Dutch auctions sell to the first taker at the current price
+  IF auction_record.auction_type = 'dutch' THEN
+    IF NEW.is_proxy OR NEW.is_buy_now THEN
+      RAISE EXCEPTION 'Dutch auctions only accept the current price';
+    END IF;
+
+    dutch_price := dutch_current_price(auction_record);
+
+    IF NEW.amount < dutch_price THEN
+      RAISE EXCEPTION 'Bid amount must be at least %', dutch_price;
+    END IF;
+
+    -- Settle at the current price even if the bidder offered more
+    UPDATE bids SET amount = dutch_price WHERE id = NEW.id;
+
+    UPDATE auctions
+    SET
+      highest_bid = dutch_price,
+      highest_bidder_id = NEW.bidder_id,
+      status = 'ended',
+      end_time = now(),
+      result = 'sold'
+    WHERE id = NEW.auction_id;
+
+    INSERT INTO notifications (user_id, auction_id, type, message)
+    VALUES (
+      auction_record.seller_id,
+      NEW.auction_id,
+      'auction_ended',
+      'Your Dutch auction "' || auction_record.title || '" sold for $' || dutch_price
+    );
+
+    RETURN NEW;
+  END IF;
+
+  -- Sealed bids stay hidden until close, so the auction itself is left untouched
+  IF auction_record.auction_type IN ('sealed_first_price', 'sealed_second_price') THEN
+    IF NEW.is_proxy OR NEW.is_buy_now THEN
+      RAISE EXCEPTION 'Sealed auctions only accept sealed bids';
+    END IF;
+
+    IF NEW.amount < auction_record.starting_price THEN
+      RAISE EXCEPTION 'Bid amount must be at least %', auction_record.starting_price;
+    END IF;
+
+    -- Revisions replace the bidder's earlier bid, only a new bidder is news
+    IF NOT EXISTS (
+      SELECT 1 FROM bids
+      WHERE auction_id = NEW.auction_id
+        AND bidder_id = NEW.bidder_id
+        AND id != NEW.id
+    ) THEN
+      INSERT INTO notifications (user_id, auction_id, type, message)
+      VALUES (
+        auction_record.seller_id,
+        NEW.auction_id,
+        'new_bid',
+        'A sealed bid was placed on your auction "' || auction_record.title || '"'
+      );
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  current_highest_bid := COALESCE(auction_record.highest_bid, 0);
+
+  IF NEW.is_buy_now THEN
+    -- Buy It Now purchases are only ever placed by buy_now()
+    IF COALESCE(current_setting('app.buy_now', true), 'off') != 'on' THEN
+      RAISE EXCEPTION 'Buy It Now purchases must go through buy_now()';
+    END IF;
+
+    minimum_bid := auction_record.buy_now_price;
+  ELSIF NEW.is_proxy THEN
+    -- Proxy bids are only ever placed by resolve_proxy_bids()
+    IF COALESCE(current_setting('app.proxy_bidding', true), 'off') != 'on' THEN
+      RAISE EXCEPTION 'Proxy bids can only be placed by the system';
+    END IF;
+
+    -- A ceiling may match the current bid when it wins the tie
+    minimum_bid := GREATEST(current_highest_bid, auction_record.starting_price);
+  ELSIF current_highest_bid = 0 THEN
+    -- First bid must be at least the starting price
+    minimum_bid := auction_record.starting_price;
+  ELSE
+    -- Subsequent bids must be at least current highest + the increment for that price
+    minimum_bid := current_highest_bid + bid_increment_at(auction_record, current_highest_bid);
+  END IF;
+
+  -- Validate bid amount
+  IF NEW.amount < minimum_bid THEN
+    RAISE EXCEPTION 'Bid amount must be at least %', minimum_bid;
+  END IF;
+
+  -- Update auction with new highest bid
+  UPDATE auctions
+  SET
+    highest_bid = NEW.amount,
+    highest_bidder_id = NEW.bidder_id,
+    reserve_met = NEW.amount >= COALESCE(
+      (SELECT reserve_price FROM auction_reserves WHERE auction_id = NEW.auction_id),
+      0
+    )
+  WHERE id = NEW.auction_id;
+
+  -- Buy It Now settles the auction, buy_now() notifies everyone involved
+  IF NEW.is_buy_now THEN
+    RETURN NEW;
+  END IF;
+
+  -- Create notification for the seller
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  VALUES (
+    auction_record.seller_id,
+    NEW.auction_id,
+    'new_bid',
+    'New bid of $' || NEW.amount || ' placed on your auction "' || auction_record.title || '"'
+  );
+
+  -- Create notification for previous highest bidder (if exists and different)
+  IF auction_record.highest_bidder_id IS NOT NULL
+     AND auction_record.highest_bidder_id != NEW.bidder_id THEN
+    INSERT INTO notifications (user_id, auction_id, type, message)
+    VALUES (
+      auction_record.highest_bidder_id,
+      NEW.auction_id,
+      'outbid',
+      'You have been outbid on "' || auction_record.title || '". New highest bid: $' || NEW.amount
+    );
+  END IF;
+
+  -- Soft close: a late manual bid pushes the end time out, up to the cap
+  IF NOT NEW.is_proxy
+     AND auction_record.soft_close_window_minutes IS NOT NULL
+     AND auction_record.end_time - now() <= make_interval(mins => auction_record.soft_close_window_minutes) THEN
+    extension_minutes := auction_record.soft_close_extension_minutes;
+
+    IF auction_record.soft_close_max_extension_minutes IS NOT NULL THEN
+      extension_minutes := LEAST(
+        extension_minutes,
+        auction_record.soft_close_max_extension_minutes - auction_record.extended_minutes
+      );
+    END IF;
+
+    IF extension_minutes > 0 THEN
+      UPDATE auctions
+      SET
+        end_time = end_time + make_interval(mins => extension_minutes),
+        extended_minutes = extended_minutes + extension_minutes
+      WHERE id = NEW.auction_id;
+    END IF;
+  END IF;
+
+  -- Let ceilings respond to manual bids
+  IF NOT NEW.is_proxy THEN
+    PERFORM resolve_proxy_bids(NEW.auction_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Proxy bids step up by the increment at the competing price
+CREATE OR REPLACE FUNCTION resolve_proxy_bids(p_auction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  leader max_bids%ROWTYPE;
+  challenger max_bids%ROWTYPE;
+  competing_amount NUMERIC(10,2);
+  target_amount NUMERIC(10,2);
+  reserve_amount NUMERIC(10,2);
+BEGIN
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id;
+
+  IF auction_record IS NULL OR auction_record.status != 'active' THEN
+    RETURN;
+  END IF;
+
+  -- The winning ceiling is the highest one, the earliest placed on ties
+  SELECT * INTO leader
+  FROM max_bids
+  WHERE auction_id = p_auction_id
+  ORDER BY max_amount DESC, placed_at ASC
+  LIMIT 1;
+
+  IF leader.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO challenger
+  FROM max_bids
+  WHERE auction_id = p_auction_id
+    AND bidder_id != leader.bidder_id
+  ORDER BY max_amount DESC, placed_at ASC
+  LIMIT 1;
+
+  -- Strongest position held by anyone else: their ceiling or their best bid
+  SELECT GREATEST(COALESCE(challenger.max_amount, 0), COALESCE(MAX(amount), 0))
+  INTO competing_amount
+  FROM bids
+  WHERE auction_id = p_auction_id
+    AND bidder_id != leader.bidder_id;
+
+  -- A manual bid above the ceiling beats it outright
+  IF competing_amount > leader.max_amount THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.proxy_bidding', 'on', true);
+
+  -- The losing ceiling bids all the way up before it is beaten
+  IF challenger.id IS NOT NULL
+     AND challenger.max_amount > auction_record.highest_bid
+     AND challenger.max_amount >= auction_record.starting_price THEN
+    INSERT INTO bids (auction_id, bidder_id, amount, is_proxy)
+    VALUES (p_auction_id, challenger.bidder_id, challenger.max_amount, true);
+
+    SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id;
+  END IF;
+
+  IF competing_amount = 0 THEN
+    target_amount := auction_record.starting_price;
+  ELSE
+    target_amount := LEAST(leader.max_amount, competing_amount + bid_increment_at(auction_record, competing_amount));
+  END IF;
+
+  -- A ceiling that covers the reserve bids straight up to it
+  SELECT reserve_price INTO reserve_amount FROM auction_reserves WHERE auction_id = p_auction_id;
+
+  IF reserve_amount IS NOT NULL AND leader.max_amount >= reserve_amount THEN
+    target_amount := GREATEST(target_amount, reserve_amount);
+  END IF;
+
+  IF NOT (auction_record.highest_bidder_id = leader.bidder_id AND auction_record.highest_bid >= target_amount)
+     AND target_amount >= auction_record.highest_bid THEN
+    INSERT INTO bids (auction_id, bidder_id, amount, is_proxy)
+    VALUES (p_auction_id, leader.bidder_id, target_amount, true);
+  END IF;
+
+  PERFORM set_config('app.proxy_bidding', 'off', true);
+END;
+$$;
+
+-- Opening proxy bids follow the tiered minimum
+CREATE OR REPLACE FUNCTION place_proxy_bid(p_auction_id uuid, p_max_amount numeric)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  existing_max NUMERIC(10,2);
+  minimum_bid NUMERIC(10,2);
+BEGIN
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id;
+
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.status != 'active' OR auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Auction is not active';
+  END IF;
+
+  IF auction_record.seller_id = auth.uid() THEN
+    RAISE EXCEPTION 'Sellers cannot bid on their own auctions';
+  END IF;
+
+  IF auction_record.auction_type != 'english' THEN
+    RAISE EXCEPTION 'Automatic bidding is only available in ascending auctions';
+  END IF;
+
+  SELECT max_amount INTO existing_max
+  FROM max_bids
+  WHERE auction_id = p_auction_id AND bidder_id = auth.uid();
+
+  IF existing_max IS NOT NULL AND p_max_amount <= existing_max THEN
+    RAISE EXCEPTION 'Maximum bid must be higher than your current maximum of %', existing_max;
+  END IF;
+
+  IF COALESCE(auction_record.highest_bid, 0) = 0 THEN
+    minimum_bid := auction_record.starting_price;
+  ELSE
+    minimum_bid := auction_record.highest_bid + bid_increment_at(auction_record, auction_record.highest_bid);
+  END IF;
+
+  IF auction_record.highest_bidder_id IS DISTINCT FROM auth.uid() AND p_max_amount < minimum_bid THEN
+    RAISE EXCEPTION 'Bid amount must be at least %', minimum_bid;
+  END IF;
+
+  INSERT INTO max_bids (auction_id, bidder_id, max_amount)
+  VALUES (p_auction_id, auth.uid(), p_max_amount)
+  ON CONFLICT (auction_id, bidder_id)
+  DO UPDATE SET max_amount = EXCLUDED.max_amount, placed_at = now();
+
+  IF auction_record.highest_bidder_id = auth.uid() THEN
+    -- Already leading: a higher ceiling only matters against other ceilings
+    PERFORM resolve_proxy_bids(p_auction_id);
+  ELSE
+    -- Opening bid at the minimum, handle_new_bid() resolves from there
+    INSERT INTO bids (auction_id, bidder_id, amount)
+    VALUES (p_auction_id, auth.uid(), minimum_bid);
+  END IF;
+END;
+$$;
+
+-- Second-price winners pay the runner-up plus the increment at that price
+CREATE OR REPLACE FUNCTION update_auction_status()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Update auctions that should be active
+  UPDATE auctions 
+  SET status = 'active'
+  WHERE status = 'draft' 
+    AND start_time <= now() 
+    AND end_time > now();
+    
+  -- Reveal sealed auctions: each bidder's latest bid counts, earliest wins ties
+  WITH latest AS (
+    SELECT DISTINCT ON (bids.auction_id, bids.bidder_id)
+      bids.auction_id, bids.bidder_id, bids.amount, bids.created_at
+    FROM bids
+    JOIN auctions ON auctions.id = bids.auction_id
+    WHERE auctions.auction_type IN ('sealed_first_price', 'sealed_second_price')
+      AND auctions.status = 'active'
+      AND auctions.end_time <= now()
+    ORDER BY bids.auction_id, bids.bidder_id, bids.created_at DESC
+  ),
+  ranked AS (
+    SELECT
+      latest.*,
+      row_number() OVER w AS position,
+      lead(latest.amount) OVER w AS runner_up_amount
+    FROM latest
+    WINDOW w AS (PARTITION BY latest.auction_id ORDER BY latest.amount DESC, latest.created_at ASC)
+  )
+  UPDATE auctions
+  SET
+    highest_bidder_id = ranked.bidder_id,
+    highest_bid = CASE auctions.auction_type
+      WHEN 'sealed_first_price' THEN ranked.amount
+      -- Second price: runner-up plus one increment, lifted to a reserve the winner covers
+      ELSE LEAST(
+        ranked.amount,
+        GREATEST(
+          COALESCE(ranked.runner_up_amount + bid_increment_at(auctions, ranked.runner_up_amount), auctions.starting_price),
+          COALESCE(auction_reserves.reserve_price, 0)
+        )
+      )
+    END,
+    reserve_met = ranked.amount >= COALESCE(auction_reserves.reserve_price, 0)
+  FROM ranked
+  LEFT JOIN auction_reserves ON auction_reserves.auction_id = ranked.auction_id
+  WHERE auctions.id = ranked.auction_id
+    AND ranked.position = 1;
+
+  -- Update auctions that should be ended, recording how they ended
+  WITH ended AS (
+    UPDATE auctions
+    SET
+      status = 'ended',
+      result = CASE
+        WHEN highest_bidder_id IS NULL THEN 'no_bids'
+        WHEN has_reserve AND NOT reserve_met THEN 'reserve_not_met'
+        ELSE 'sold'
+      END::auction_result
+    WHERE status IN ('draft', 'active')
+      AND end_time <= now()
+    RETURNING *
+  ),
+  -- Sold auctions wait for the seller to accept, reject or counter the top bid
+  offers AS (
+    INSERT INTO auction_offers (auction_id, seller_id, bidder_id, bid_amount)
+    SELECT id, seller_id, highest_bidder_id, highest_bid
+    FROM ended
+    WHERE result = 'sold'
+    RETURNING auction_id
+  )
+  -- Tell the seller and the top bidder how the auction ended
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT recipient.user_id, ended.id, 'auction_ended', recipient.message
+  FROM ended
+  CROSS JOIN LATERAL (
+    VALUES
+      (ended.seller_id, CASE ended.result
+        WHEN 'reserve_not_met' THEN 'Your auction "' || ended.title || '" ended without meeting your reserve price. Top bid: $' || ended.highest_bid
+        WHEN 'sold' THEN 'Your auction "' || ended.title || '" ended with a top bid of $' || ended.highest_bid || '. Accept, reject or counter it.'
+      END),
+      (ended.highest_bidder_id, CASE ended.result
+        WHEN 'reserve_not_met' THEN 'The auction "' || ended.title || '" ended without meeting the reserve price, so your bid of $' || ended.highest_bid || ' did not win'
+        WHEN 'sold' THEN 'You are the top bidder on "' || ended.title || '" at $' || ended.highest_bid || '. The seller will confirm the sale.'
+      END)
+  ) AS recipient(user_id, message)
+  WHERE recipient.user_id IS NOT NULL
+    AND recipient.message IS NOT NULL;
+
+  -- Counter offers the bidder never answered lapse
+  WITH expired AS (
+    UPDATE auction_offers
+    SET status = 'counter_expired', updated_at = now()
+    WHERE status = 'countered'
+      AND counter_expires_at <= now()
+    RETURNING *
+  )
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT
+    expired.seller_id,
+    expired.auction_id,
+    'bid_rejected',
+    'Your counter offer of $' || expired.counter_amount || ' expired without a response'
+  FROM expired;
+END;
+$$;
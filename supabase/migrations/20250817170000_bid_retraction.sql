@@ -0,0 +1,391 @@
+/*
+  # Bid Retraction
+
+  1. Changes
+    - `profiles.role` (user_role) - `admin` unlocks forced retractions
+    - `bids.retracted_at` (timestamp), `bids.retracted_by` (uuid, references profiles)
+      and `bids.retraction_reason` (text) keep the audit trail, retracted bids
+      are never deleted
+    - New `bid_retracted` notification type
+
+  2. Functions
+    - `is_admin()` checks the caller's role
+    - `retract_bid()` retracts a bid together with the automatic bids that followed
+      it, cancels the bidder's maximum bid, recomputes the auction's highest bid
+      from the remaining bids and notifies everyone affected
+    - Bidders may retract their own bid within 5 minutes of placing it, and never
+      in the final hour of the auction. Admins may retract any bid while the
+      auction is active.
+    - `resolve_proxy_bids()` and the sealed reveal in `update_auction_status()`
+      ignore retracted bids
+
+  3. Security
+    - Only admins can change a profile's role
+*/
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'bid_retracted';
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS role user_role NOT NULL DEFAULT 'authenticated';
+
+ALTER TABLE bids
+  ADD COLUMN IF NOT EXISTS retracted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS retracted_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS retraction_reason text;
+
+-- Whether the caller is a platform admin
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+  );
+$$;
+
+-- Users can update their own profile, but not promote themselves
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := 'authenticated';
+  ELSIF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_role ON profiles;
+CREATE TRIGGER protect_profile_role
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_role();
+
+-- Retract a bid and fall back to the best remaining bid
+CREATE OR REPLACE FUNCTION retract_bid(p_bid_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  bid_record bids%ROWTYPE;
+  auction_record auctions%ROWTYPE;
+  new_leader bids%ROWTYPE;
+  previous_leader_id UUID;
+  caller_is_admin BOOLEAN := is_admin();
+BEGIN
+  SELECT * INTO bid_record FROM bids WHERE id = p_bid_id;
+
+  IF bid_record IS NULL THEN
+    RAISE EXCEPTION 'Bid not found';
+  END IF;
+
+  -- Lock the auction so no bid lands while the leader is recomputed
+  SELECT * INTO auction_record FROM auctions WHERE id = bid_record.auction_id FOR UPDATE;
+  previous_leader_id := auction_record.highest_bidder_id;
+
+  IF NOT caller_is_admin AND bid_record.bidder_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only retract your own bids';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to retract a bid';
+  END IF;
+
+  IF bid_record.retracted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Bid has already been retracted';
+  END IF;
+
+  IF bid_record.is_proxy THEN
+    RAISE EXCEPTION 'Automatic bids are retracted with the bid that set them off';
+  END IF;
+
+  IF auction_record.status != 'active' OR auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Bids can only be retracted while the auction is active';
+  END IF;
+
+  IF NOT caller_is_admin THEN
+    IF now() - bid_record.created_at > interval '5 minutes' THEN
+      RAISE EXCEPTION 'Bids can only be retracted within 5 minutes of placing them';
+    END IF;
+
+    IF auction_record.end_time - now() <= interval '1 hour' THEN
+      RAISE EXCEPTION 'Bids cannot be retracted in the final hour of an auction';
+    END IF;
+  END IF;
+
+  -- The bid and the automatic bids it set off on the bidder's behalf
+  UPDATE bids
+  SET
+    retracted_at = now(),
+    retracted_by = auth.uid(),
+    retraction_reason = p_reason
+  WHERE auction_id = bid_record.auction_id
+    AND bidder_id = bid_record.bidder_id
+    AND retracted_at IS NULL
+    AND (id = bid_record.id OR (is_proxy AND created_at >= bid_record.created_at));
+
+  -- A mistyped bid usually came with a mistyped maximum
+  DELETE FROM max_bids
+  WHERE auction_id = bid_record.auction_id
+    AND bidder_id = bid_record.bidder_id;
+
+  -- Sealed auctions pick their winner at close
+  IF auction_record.auction_type NOT IN ('sealed_first_price', 'sealed_second_price') THEN
+    SELECT * INTO new_leader
+    FROM bids
+    WHERE auction_id = bid_record.auction_id
+      AND retracted_at IS NULL
+    ORDER BY amount DESC, created_at ASC
+    LIMIT 1;
+
+    UPDATE auctions
+    SET
+      highest_bid = COALESCE(new_leader.amount, 0),
+      highest_bidder_id = new_leader.bidder_id,
+      reserve_met = new_leader.amount IS NOT NULL AND new_leader.amount >= COALESCE(
+        (SELECT reserve_price FROM auction_reserves WHERE auction_id = bid_record.auction_id),
+        0
+      )
+    WHERE id = bid_record.auction_id;
+
+    -- Remaining ceilings respond to the lower price
+    PERFORM resolve_proxy_bids(bid_record.auction_id);
+
+    SELECT * INTO auction_record FROM auctions WHERE id = bid_record.auction_id;
+  END IF;
+
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT recipient.user_id, bid_record.auction_id, 'bid_retracted', recipient.message
+  FROM (
+    VALUES
+      (bid_record.bidder_id, CASE
+        WHEN bid_record.bidder_id IS DISTINCT FROM auth.uid() THEN
+          'An admin retracted your bid of $' || bid_record.amount || ' on "' || auction_record.title || '": ' || p_reason
+      END),
+      (auction_record.seller_id, CASE
+        WHEN auction_record.auction_type IN ('sealed_first_price', 'sealed_second_price') THEN
+          'A sealed bid was retracted on your auction "' || auction_record.title || '"'
+        ELSE
+          'A bid of $' || bid_record.amount || ' was retracted on your auction "' || auction_record.title || '"'
+      END),
+      (auction_record.highest_bidder_id, CASE
+        WHEN auction_record.highest_bidder_id IS DISTINCT FROM previous_leader_id THEN
+          'A higher bid was retracted on "' || auction_record.title || '". You are now the highest bidder at $' || auction_record.highest_bid
+      END)
+  ) AS recipient(user_id, message)
+  WHERE recipient.user_id IS NOT NULL
+    AND recipient.message IS NOT NULL;
+END;
+$$;
+
+-- Retracted bids no longer compete
+CREATE OR REPLACE FUNCTION resolve_proxy_bids(p_auction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  leader max_bids%ROWTYPE;
+  challenger max_bids%ROWTYPE;
+  competing_amount NUMERIC(10,2);
+  target_amount NUMERIC(10,2);
+  reserve_amount NUMERIC(10,2);
+BEGIN
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id;
+
+  IF auction_record IS NULL OR auction_record.status != 'active' THEN
+    RETURN;
+  END IF;
+
+  -- The winning ceiling is the highest one, the earliest placed on ties
+  SELECT * INTO leader
+  FROM max_bids
+  WHERE auction_id = p_auction_id
+  ORDER BY max_amount DESC, placed_at ASC
+  LIMIT 1;
+
+  IF leader.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO challenger
+  FROM max_bids
+  WHERE auction_id = p_auction_id
+    AND bidder_id != leader.bidder_id
+  ORDER BY max_amount DESC, placed_at ASC
+  LIMIT 1;
+
+  -- Strongest position held by anyone else: their ceiling or their best bid
+  SELECT GREATEST(COALESCE(challenger.max_amount, 0), COALESCE(MAX(amount), 0))
+  INTO competing_amount
+  FROM bids
+  WHERE auction_id = p_auction_id
+    AND bidder_id != leader.bidder_id
+    AND retracted_at IS NULL;
+
+  -- A manual bid above the ceiling beats it outright
+  IF competing_amount > leader.max_amount THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.proxy_bidding', 'on', true);
+
+  -- The losing ceiling bids all the way up before it is beaten
+  IF challenger.id IS NOT NULL
+     AND challenger.max_amount > auction_record.highest_bid
+     AND challenger.max_amount >= auction_record.starting_price THEN
+    INSERT INTO bids (auction_id, bidder_id, amount, is_proxy)
+    VALUES (p_auction_id, challenger.bidder_id, challenger.max_amount, true);
+
+    SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id;
+  END IF;
+
+  IF competing_amount = 0 THEN
+    target_amount := auction_record.starting_price;
+  ELSE
+    target_amount := LEAST(leader.max_amount, competing_amount + bid_increment_at(auction_record, competing_amount));
+  END IF;
+
+  -- A ceiling that covers the reserve bids straight up to it
+  SELECT reserve_price INTO reserve_amount FROM auction_reserves WHERE auction_id = p_auction_id;
+
+  IF reserve_amount IS NOT NULL AND leader.max_amount >= reserve_amount THEN
+    target_amount := GREATEST(target_amount, reserve_amount);
+  END IF;
+
+  IF NOT (auction_record.highest_bidder_id = leader.bidder_id AND auction_record.highest_bid >= target_amount)
+     AND target_amount >= auction_record.highest_bid THEN
+    INSERT INTO bids (auction_id, bidder_id, amount, is_proxy)
+    VALUES (p_auction_id, leader.bidder_id, target_amount, true);
+  END IF;
+
+  PERFORM set_config('app.proxy_bidding', 'off', true);
+END;
+$$;
+
+-- Retracted sealed bids are left out of the reveal
+CREATE OR REPLACE FUNCTION update_auction_status()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Update auctions that should be active
+  UPDATE auctions 
+  SET status = 'active'
+  WHERE status = 'draft' 
+    AND start_time <= now() 
+    AND end_time > now();
+    
+  -- Reveal sealed auctions: each bidder's latest bid counts, earliest wins ties
+  WITH latest AS (
+    SELECT DISTINCT ON (bids.auction_id, bids.bidder_id)
+      bids.auction_id, bids.bidder_id, bids.amount, bids.created_at
+    FROM bids
+    JOIN auctions ON auctions.id = bids.auction_id
+    WHERE auctions.auction_type IN ('sealed_first_price', 'sealed_second_price')
+      AND auctions.status = 'active'
+      AND auctions.end_time <= now()
+      AND bids.retracted_at IS NULL
+    ORDER BY bids.auction_id, bids.bidder_id, bids.created_at DESC
+  ),
+  ranked AS (
+    SELECT
+      latest.*,
+      row_number() OVER w AS position,
+      lead(latest.amount) OVER w AS runner_up_amount
+    FROM latest
+    WINDOW w AS (PARTITION BY latest.auction_id ORDER BY latest.amount DESC, latest.created_at ASC)
+  )
+  UPDATE auctions
+  SET
+    highest_bidder_id = ranked.bidder_id,
+    highest_bid = CASE auctions.auction_type
+      WHEN 'sealed_first_price' THEN ranked.amount
+      -- Second price: runner-up plus one increment, lifted to a reserve the winner covers
+      ELSE LEAST(
+        ranked.amount,
+        GREATEST(
+          COALESCE(ranked.runner_up_amount + bid_increment_at(auctions, ranked.runner_up_amount), auctions.starting_price),
+          COALESCE(auction_reserves.reserve_price, 0)
+        )
+      )
+    END,
+    reserve_met = ranked.amount >= COALESCE(auction_reserves.reserve_price, 0)
+  FROM ranked
+  LEFT JOIN auction_reserves ON auction_reserves.auction_id = ranked.auction_id
+  WHERE auctions.id = ranked.auction_id
+    AND ranked.position = 1;
+
+  -- Update auctions that should be ended, recording how they ended
+  WITH ended AS (
+    UPDATE auctions
+    SET
+      status = 'ended',
+      result = CASE
+        WHEN highest_bidder_id IS NULL THEN 'no_bids'
+        WHEN has_reserve AND NOT reserve_met THEN 'reserve_not_met'
+        ELSE 'sold'
+      END::auction_result
+    WHERE status IN ('draft', 'active')
+      AND end_time <= now()
+    RETURNING *
+  ),
+  -- Sold auctions wait for the seller to accept, reject or counter the top bid
+  offers AS (
+    INSERT INTO auction_offers (auction_id, seller_id, bidder_id, bid_amount)
+    SELECT id, seller_id, highest_bidder_id, highest_bid
+    FROM ended
+    WHERE result = 'sold'
+    RETURNING auction_id
+  )
+  -- Tell the seller and the top bidder how the auction ended
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT recipient.user_id, ended.id, 'auction_ended', recipient.message
+  FROM ended
+  CROSS JOIN LATERAL (
+    VALUES
+      (ended.seller_id, CASE ended.result
+        WHEN 'reserve_not_met' THEN 'Your auction "' || ended.title || '" ended without meeting your reserve price. Top bid: $' || ended.highest_bid
+        WHEN 'sold' THEN 'Your auction "' || ended.title || '" ended with a top bid of $' || ended.highest_bid || '. Accept, reject or counter it.'
+      END),
+      (ended.highest_bidder_id, CASE ended.result
+        WHEN 'reserve_not_met' THEN 'The auction "' || ended.title || '" ended without meeting the reserve price, so your bid of $' || ended.highest_bid || ' did not win'
+        WHEN 'sold' THEN 'You are the top bidder on "' || ended.title || '" at $' || ended.highest_bid || '. The seller will confirm the sale.'
+      END)
+  ) AS recipient(user_id, message)
+  WHERE recipient.user_id IS NOT NULL
+    AND recipient.message IS NOT NULL;
+
+  -- Counter offers the bidder never answered lapse
+  WITH expired AS (
+    UPDATE auction_offers
+    SET status = 'counter_expired', updated_at = now()
+    WHERE status = 'countered'
+      AND counter_expires_at <= now()
+    RETURNING *
+  )
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT
+    expired.seller_id,
+    expired.auction_id,
+    'bid_rejected',
+    'Your counter offer of $' || expired.counter_amount || ' expired without a response'
+  FROM expired;
+END;
+$$;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION retract_bid(uuid, text) TO authenticated;
@@ -0,0 +1,735 @@
+/*
+  # Multi-Quantity Lot Auctions
+
+  1. New Tables
+    - `lot_allocations`
+      - `id` (uuid, primary key)
+      - `auction_id` (uuid, references auctions)
+      - `bidder_id` (uuid, references profiles)
+      - `bid_id` (uuid, references bids) - the standing bid that won
+      - `quantity` (integer) - units awarded, may be fewer than requested
+      - `unit_price` (decimal) - the lot's clearing price
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `auctions.quantity` (integer) - identical units on offer, 1 for a single item
+    - `bids.quantity` (integer) - units the bidder wants at the bid price
+    - Lots are ascending auctions without Buy It Now or automatic bidding
+
+  3. Allocation Rules
+    - Each bidder's latest bid is their standing bid and replaces earlier ones
+    - Standing bids are ranked by amount, highest first. Equal amounts rank by
+      time, the earlier bid first.
+    - Units are filled in rank order. The last bid that still fits takes
+      whatever units remain, so it may be partially filled.
+    - Every winner pays the clearing price, the lowest amount among winning bids
+    - `auctions.highest_bid` holds the current clearing price while the lot runs
+
+  4. Functions
+    - `lot_allocation()` applies the rules to an auction's standing bids
+    - `lot_minimum_bid()` is the lowest bid that still wins at least one unit
+    - `refresh_lot_standing()` keeps the clearing price and reserve flag current
+    - `handle_new_bid()`, `retract_bid()` and `update_auction_status()` handle lots
+
+  5. Security
+    - Allocations are readable by the winning bidder and the seller
+    - `lot_allocation()`, `lot_minimum_bid()` and `refresh_lot_standing()` see
+      every standing bid, so only the bidding functions may call them
+*/
+
+ALTER TABLE auctions ADD COLUMN IF NOT EXISTS quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0);
+ALTER TABLE bids ADD COLUMN IF NOT EXISTS quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0);
+
+ALTER TABLE auctions
+  ADD CONSTRAINT auctions_lot_format_check
+  CHECK (quantity = 1 OR (auction_type = 'english' AND buy_now_price IS NULL));
+
+-- Create lot allocations table
+CREATE TABLE IF NOT EXISTS lot_allocations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  auction_id uuid REFERENCES auctions(id) ON DELETE CASCADE NOT NULL,
+  bidder_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  bid_id uuid REFERENCES bids(id) ON DELETE CASCADE NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  unit_price decimal(10,2) NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (auction_id, bidder_id)
+);
+
+ALTER TABLE lot_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Winners and sellers can read lot allocations"
+  ON lot_allocations FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = bidder_id
+    OR EXISTS (
+      SELECT 1 FROM auctions WHERE auctions.id = auction_id AND auctions.seller_id = auth.uid()
+    )
+  );
+
+-- Winning standing bids of a lot, best first, optionally ignoring one bid
+CREATE OR REPLACE FUNCTION lot_allocation(p_auction_id uuid, p_excluding_bid_id uuid DEFAULT NULL)
+RETURNS TABLE (bid_id uuid, bidder_id uuid, amount numeric, requested integer, allocated integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  WITH standing AS (
+    SELECT DISTINCT ON (bids.bidder_id) bids.id, bids.bidder_id, bids.amount, bids.quantity, bids.created_at
+    FROM bids
+    WHERE bids.auction_id = p_auction_id
+      AND bids.retracted_at IS NULL
+      AND bids.id IS DISTINCT FROM p_excluding_bid_id
+    ORDER BY bids.bidder_id, bids.created_at DESC
+  ),
+  ranked AS (
+    SELECT
+      standing.*,
+      COALESCE(SUM(standing.quantity) OVER (
+        ORDER BY standing.amount DESC, standing.created_at ASC
+        ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+      ), 0) AS units_before
+    FROM standing
+  )
+  SELECT
+    ranked.id,
+    ranked.bidder_id,
+    ranked.amount,
+    ranked.quantity,
+    LEAST(ranked.quantity, auctions.quantity - ranked.units_before)::integer
+  FROM ranked
+  JOIN auctions ON auctions.id = p_auction_id
+  WHERE ranked.units_before < auctions.quantity
+  ORDER BY ranked.amount DESC, ranked.created_at ASC;
+$$;
+
+-- Lowest bid that wins at least one unit against everyone else's standing bids
+CREATE OR REPLACE FUNCTION lot_minimum_bid(auction_record auctions, p_bidder_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  standing RECORD;
+  units_taken INTEGER := 0;
+BEGIN
+  FOR standing IN
+    SELECT latest.amount, latest.quantity
+    FROM (
+      SELECT DISTINCT ON (bidder_id) amount, quantity, created_at
+      FROM bids
+      WHERE auction_id = auction_record.id
+        AND bidder_id != p_bidder_id
+        AND retracted_at IS NULL
+      ORDER BY bidder_id, created_at DESC
+    ) AS latest
+    ORDER BY latest.amount DESC, latest.created_at ASC
+  LOOP
+    units_taken := units_taken + standing.quantity;
+
+    -- Once the lot is full, the marginal bid has to be beaten by an increment
+    IF units_taken >= auction_record.quantity THEN
+      RETURN standing.amount + bid_increment_at(auction_record, standing.amount);
+    END IF;
+  END LOOP;
+
+  RETURN auction_record.starting_price;
+END;
+$$;
+
+-- Keep a lot's clearing price, top bidder and reserve flag current
+CREATE OR REPLACE FUNCTION refresh_lot_standing(p_auction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  clearing_price NUMERIC(10,2);
+  top_bidder_id UUID;
+BEGIN
+  SELECT MIN(amount) INTO clearing_price FROM lot_allocation(p_auction_id);
+  SELECT bidder_id INTO top_bidder_id FROM lot_allocation(p_auction_id) LIMIT 1;
+
+  UPDATE auctions
+  SET
+    highest_bid = COALESCE(clearing_price, 0),
+    highest_bidder_id = top_bidder_id,
+    reserve_met = clearing_price IS NOT NULL AND clearing_price >= COALESCE(
+      (SELECT reserve_price FROM auction_reserves WHERE auction_id = p_auction_id),
+      0
+    )
+  WHERE id = p_auction_id;
+END;
+$$;
+
+-- Validate lot bids and track the clearing price
+CREATE OR REPLACE FUNCTION handle_new_bid()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  current_highest_bid NUMERIC(10,2);
+  minimum_bid NUMERIC(10,2);
+  extension_minutes INTEGER;
+  dutch_price NUMERIC(10,2);
+BEGIN
+  -- Get the auction record, locked so concurrent bids and Buy It Now serialize
+  SELECT * INTO auction_record FROM auctions WHERE id = NEW.auction_id FOR UPDATE;
+
+  -- Check if auction exists and is active
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.status != 'active' THEN
+    RAISE EXCEPTION 'Auction is not active';
+  END IF;
+
+  -- Check if auction has ended
+  IF auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Auction has ended';
+  END IF;
+
+  -- Prevent seller from bidding on their own auction
+  IF auction_record.seller_id = NEW.bidder_id THEN
+    RAISE EXCEPTION 'Sellers cannot bid on their own auctions';
+  END IF;
+
+  IF NEW.quantity > auction_record.quantity THEN
+    RAISE EXCEPTION 'Bid quantity cannot exceed the % units on offer', auction_record.quantity;
+  END IF;
+
+  -- Dutch auctions sell to the first taker at the current price
+  IF auction_record.auction_type = 'dutch' THEN
+    IF NEW.is_proxy OR NEW.is_buy_now THEN
+      RAISE EXCEPTION 'Dutch auctions only accept the current price';
+    END IF;
+
+    dutch_price := dutch_current_price(auction_record);
+
+    IF NEW.amount < dutch_price THEN
+      RAISE EXCEPTION 'Bid amount must be at least %', dutch_price;
+    END IF;
+
+    -- Settle at the current price even if the bidder offered more
+    UPDATE bids SET amount = dutch_price WHERE id = NEW.id;
+
+    UPDATE auctions
+    SET
+      highest_bid = dutch_price,
+      highest_bidder_id = NEW.bidder_id,
+      status = 'ended',
+      end_time = now(),
+      result = 'sold'
+    WHERE id = NEW.auction_id;
+
+    INSERT INTO notifications (user_id, auction_id, type, message)
+    VALUES (
+      auction_record.seller_id,
+      NEW.auction_id,
+      'auction_ended',
+      'Your Dutch auction "' || auction_record.title || '" sold for $' || dutch_price
+    );
+
+    RETURN NEW;
+  END IF;
+
+  -- Sealed bids stay hidden until close, so the auction itself is left untouched
+  IF auction_record.auction_type IN ('sealed_first_price', 'sealed_second_price') THEN
+    IF NEW.is_proxy OR NEW.is_buy_now THEN
+      RAISE EXCEPTION 'Sealed auctions only accept sealed bids';
+    END IF;
+
+    IF NEW.amount < auction_record.starting_price THEN
+      RAISE EXCEPTION 'Bid amount must be at least %', auction_record.starting_price;
+    END IF;
+
+    -- Revisions replace the bidder's earlier bid, only a new bidder is news
+    IF NOT EXISTS (
+      SELECT 1 FROM bids
+      WHERE auction_id = NEW.auction_id
+        AND bidder_id = NEW.bidder_id
+        AND id != NEW.id
+    ) THEN
+      INSERT INTO notifications (user_id, auction_id, type, message)
+      VALUES (
+        auction_record.seller_id,
+        NEW.auction_id,
+        'new_bid',
+        'A sealed bid was placed on your auction "' || auction_record.title || '"'
+      );
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  current_highest_bid := COALESCE(auction_record.highest_bid, 0);
+
+  IF NEW.is_buy_now THEN
+    -- Buy It Now purchases are only ever placed by buy_now()
+    IF COALESCE(current_setting('app.buy_now', true), 'off') != 'on' THEN
+      RAISE EXCEPTION 'Buy It Now purchases must go through buy_now()';
+    END IF;
+
+    minimum_bid := auction_record.buy_now_price;
+  ELSIF NEW.is_proxy THEN
+    -- Proxy bids are only ever placed by resolve_proxy_bids()
+    IF COALESCE(current_setting('app.proxy_bidding', true), 'off') != 'on' THEN
+      RAISE EXCEPTION 'Proxy bids can only be placed by the system';
+    END IF;
+
+    -- A ceiling may match the current bid when it wins the tie
+    minimum_bid := GREATEST(current_highest_bid, auction_record.starting_price);
+  ELSIF auction_record.quantity > 1 THEN
+    -- Lots: enough to win at least one unit, and never below the bidder's standing bid
+    minimum_bid := GREATEST(
+      lot_minimum_bid(auction_record, NEW.bidder_id),
+      COALESCE((
+        SELECT amount FROM bids
+        WHERE auction_id = NEW.auction_id
+          AND bidder_id = NEW.bidder_id
+          AND id != NEW.id
+          AND retracted_at IS NULL
+        ORDER BY created_at DESC
+        LIMIT 1
+      ), 0)
+    );
+  ELSIF current_highest_bid = 0 THEN
+    -- First bid must be at least the starting price
+    minimum_bid := auction_record.starting_price;
+  ELSE
+    -- Subsequent bids must be at least current highest + the increment for that price
+    minimum_bid := current_highest_bid + bid_increment_at(auction_record, current_highest_bid);
+  END IF;
+
+  -- Validate bid amount
+  IF NEW.amount < minimum_bid THEN
+    RAISE EXCEPTION 'Bid amount must be at least %', minimum_bid;
+  END IF;
+
+  IF auction_record.quantity > 1 THEN
+    -- Lots track the clearing price instead of the single highest bid
+    PERFORM refresh_lot_standing(NEW.auction_id);
+  ELSE
+    -- Update auction with new highest bid
+    UPDATE auctions
+    SET
+      highest_bid = NEW.amount,
+      highest_bidder_id = NEW.bidder_id,
+      reserve_met = NEW.amount >= COALESCE(
+        (SELECT reserve_price FROM auction_reserves WHERE auction_id = NEW.auction_id),
+        0
+      )
+    WHERE id = NEW.auction_id;
+  END IF;
+
+  -- Buy It Now settles the auction, buy_now() notifies everyone involved
+  IF NEW.is_buy_now THEN
+    RETURN NEW;
+  END IF;
+
+  -- Create notification for the seller
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  VALUES (
+    auction_record.seller_id,
+    NEW.auction_id,
+    'new_bid',
+    'New bid of $' || NEW.amount || ' placed on your auction "' || auction_record.title || '"'
+  );
+
+  IF auction_record.quantity > 1 THEN
+    -- Tell lot bidders who lost units to the new bid
+    INSERT INTO notifications (user_id, auction_id, type, message)
+    SELECT
+      before.bidder_id,
+      NEW.auction_id,
+      'outbid',
+      'You have been outbid on "' || auction_record.title || '". You are now winning ' ||
+        COALESCE(after.allocated, 0) || ' of ' || auction_record.quantity || ' units'
+    FROM lot_allocation(NEW.auction_id, NEW.id) AS before
+    LEFT JOIN lot_allocation(NEW.auction_id) AS after ON after.bidder_id = before.bidder_id
+    WHERE before.bidder_id != NEW.bidder_id
+      AND COALESCE(after.allocated, 0) < before.allocated;
+  -- Create notification for previous highest bidder (if exists and different)
+  ELSIF auction_record.highest_bidder_id IS NOT NULL
+     AND auction_record.highest_bidder_id != NEW.bidder_id THEN
+    INSERT INTO notifications (user_id, auction_id, type, message)
+    VALUES (
+      auction_record.highest_bidder_id,
+      NEW.auction_id,
+      'outbid',
+      'You have been outbid on "' || auction_record.title || '". New highest bid: $' || NEW.amount
+    );
+  END IF;
+
+  -- Soft close: a late manual bid pushes the end time out, up to the cap
+  IF NOT NEW.is_proxy
+     AND auction_record.soft_close_window_minutes IS NOT NULL
+     AND auction_record.end_time - now() <= make_interval(mins => auction_record.soft_close_window_minutes) THEN
+    extension_minutes := auction_record.soft_close_extension_minutes;
+
+    IF auction_record.soft_close_max_extension_minutes IS NOT NULL THEN
+      extension_minutes := LEAST(
+        extension_minutes,
+        auction_record.soft_close_max_extension_minutes - auction_record.extended_minutes
+      );
+    END IF;
+
+    IF extension_minutes > 0 THEN
+      UPDATE auctions
+      SET
+        end_time = end_time + make_interval(mins => extension_minutes),
+        extended_minutes = extended_minutes + extension_minutes
+      WHERE id = NEW.auction_id;
+    END IF;
+  END IF;
+
+  -- Let ceilings respond to manual bids
+  IF NOT NEW.is_proxy THEN
+    PERFORM resolve_proxy_bids(NEW.auction_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Lots are not eligible for automatic bidding
+CREATE OR REPLACE FUNCTION place_proxy_bid(p_auction_id uuid, p_max_amount numeric)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  existing_max NUMERIC(10,2);
+  minimum_bid NUMERIC(10,2);
+BEGIN
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id;
+
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.status != 'active' OR auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Auction is not active';
+  END IF;
+
+  IF auction_record.seller_id = auth.uid() THEN
+    RAISE EXCEPTION 'Sellers cannot bid on their own auctions';
+  END IF;
+
+  IF auction_record.auction_type != 'english' THEN
+    RAISE EXCEPTION 'Automatic bidding is only available in ascending auctions';
+  END IF;
+
+  IF auction_record.quantity > 1 THEN
+    RAISE EXCEPTION 'Automatic bidding is not available for multi-unit lots';
+  END IF;
+
+  SELECT max_amount INTO existing_max
+  FROM max_bids
+  WHERE auction_id = p_auction_id AND bidder_id = auth.uid();
+
+  IF existing_max IS NOT NULL AND p_max_amount <= existing_max THEN
+    RAISE EXCEPTION 'Maximum bid must be higher than your current maximum of %', existing_max;
+  END IF;
+
+  IF COALESCE(auction_record.highest_bid, 0) = 0 THEN
+    minimum_bid := auction_record.starting_price;
+  ELSE
+    minimum_bid := auction_record.highest_bid + bid_increment_at(auction_record, auction_record.highest_bid);
+  END IF;
+
+  IF auction_record.highest_bidder_id IS DISTINCT FROM auth.uid() AND p_max_amount < minimum_bid THEN
+    RAISE EXCEPTION 'Bid amount must be at least %', minimum_bid;
+  END IF;
+
+  INSERT INTO max_bids (auction_id, bidder_id, max_amount)
+  VALUES (p_auction_id, auth.uid(), p_max_amount)
+  ON CONFLICT (auction_id, bidder_id)
+  DO UPDATE SET max_amount = EXCLUDED.max_amount, placed_at = now();
+
+  IF auction_record.highest_bidder_id = auth.uid() THEN
+    -- Already leading: a higher ceiling only matters against other ceilings
+    PERFORM resolve_proxy_bids(p_auction_id);
+  ELSE
+    -- Opening bid at the minimum, handle_new_bid() resolves from there
+    INSERT INTO bids (auction_id, bidder_id, amount)
+    VALUES (p_auction_id, auth.uid(), minimum_bid);
+  END IF;
+END;
+$$;
+
+-- Retracting a lot bid recomputes the clearing price
+CREATE OR REPLACE FUNCTION retract_bid(p_bid_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  bid_record bids%ROWTYPE;
+  auction_record auctions%ROWTYPE;
+  new_leader bids%ROWTYPE;
+  previous_leader_id UUID;
+  caller_is_admin BOOLEAN := is_admin();
+BEGIN
+  SELECT * INTO bid_record FROM bids WHERE id = p_bid_id;
+
+  IF bid_record IS NULL THEN
+    RAISE EXCEPTION 'Bid not found';
+  END IF;
+
+  -- Lock the auction so no bid lands while the leader is recomputed
+  SELECT * INTO auction_record FROM auctions WHERE id = bid_record.auction_id FOR UPDATE;
+  previous_leader_id := auction_record.highest_bidder_id;
+
+  IF NOT caller_is_admin AND bid_record.bidder_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only retract your own bids';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to retract a bid';
+  END IF;
+
+  IF bid_record.retracted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Bid has already been retracted';
+  END IF;
+
+  IF bid_record.is_proxy THEN
+    RAISE EXCEPTION 'Automatic bids are retracted with the bid that set them off';
+  END IF;
+
+  IF auction_record.status != 'active' OR auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Bids can only be retracted while the auction is active';
+  END IF;
+
+  IF NOT caller_is_admin THEN
+    IF now() - bid_record.created_at > interval '5 minutes' THEN
+      RAISE EXCEPTION 'Bids can only be retracted within 5 minutes of placing them';
+    END IF;
+
+    IF auction_record.end_time - now() <= interval '1 hour' THEN
+      RAISE EXCEPTION 'Bids cannot be retracted in the final hour of an auction';
+    END IF;
+  END IF;
+
+  -- The bid and the automatic bids it set off on the bidder's behalf
+  UPDATE bids
+  SET
+    retracted_at = now(),
+    retracted_by = auth.uid(),
+    retraction_reason = p_reason
+  WHERE auction_id = bid_record.auction_id
+    AND bidder_id = bid_record.bidder_id
+    AND retracted_at IS NULL
+    AND (id = bid_record.id OR (is_proxy AND created_at >= bid_record.created_at));
+
+  -- A mistyped bid usually came with a mistyped maximum
+  DELETE FROM max_bids
+  WHERE auction_id = bid_record.auction_id
+    AND bidder_id = bid_record.bidder_id;
+
+  IF auction_record.quantity > 1 THEN
+    PERFORM refresh_lot_standing(bid_record.auction_id);
+
+    SELECT * INTO auction_record FROM auctions WHERE id = bid_record.auction_id;
+  -- Sealed auctions pick their winner at close
+  ELSIF auction_record.auction_type NOT IN ('sealed_first_price', 'sealed_second_price') THEN
+    SELECT * INTO new_leader
+    FROM bids
+    WHERE auction_id = bid_record.auction_id
+      AND retracted_at IS NULL
+    ORDER BY amount DESC, created_at ASC
+    LIMIT 1;
+
+    UPDATE auctions
+    SET
+      highest_bid = COALESCE(new_leader.amount, 0),
+      highest_bidder_id = new_leader.bidder_id,
+      reserve_met = new_leader.amount IS NOT NULL AND new_leader.amount >= COALESCE(
+        (SELECT reserve_price FROM auction_reserves WHERE auction_id = bid_record.auction_id),
+        0
+      )
+    WHERE id = bid_record.auction_id;
+
+    -- Remaining ceilings respond to the lower price
+    PERFORM resolve_proxy_bids(bid_record.auction_id);
+
+    SELECT * INTO auction_record FROM auctions WHERE id = bid_record.auction_id;
+  END IF;
+
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT recipient.user_id, bid_record.auction_id, 'bid_retracted', recipient.message
+  FROM (
+    VALUES
+      (bid_record.bidder_id, CASE
+        WHEN bid_record.bidder_id IS DISTINCT FROM auth.uid() THEN
+          'An admin retracted your bid of $' || bid_record.amount || ' on "' || auction_record.title || '": ' || p_reason
+      END),
+      (auction_record.seller_id, CASE
+        WHEN auction_record.auction_type IN ('sealed_first_price', 'sealed_second_price') THEN
+          'A sealed bid was retracted on your auction "' || auction_record.title || '"'
+        ELSE
+          'A bid of $' || bid_record.amount || ' was retracted on your auction "' || auction_record.title || '"'
+      END),
+      (auction_record.highest_bidder_id, CASE
+        WHEN auction_record.quantity = 1
+          AND auction_record.highest_bidder_id IS DISTINCT FROM previous_leader_id THEN
+          'A higher bid was retracted on "' || auction_record.title || '". You are now the highest bidder at $' || auction_record.highest_bid
+      END)
+  ) AS recipient(user_id, message)
+  WHERE recipient.user_id IS NOT NULL
+    AND recipient.message IS NOT NULL;
+END;
+$$;
+
+
+-- Allocate lots at close
+CREATE OR REPLACE FUNCTION update_auction_status()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Update auctions that should be active
+  UPDATE auctions 
+  SET status = 'active'
+  WHERE status = 'draft' 
+    AND start_time <= now() 
+    AND end_time > now();
+    
+  -- Reveal sealed auctions: each bidder's latest bid counts, earliest wins ties
+  WITH latest AS (
+    SELECT DISTINCT ON (bids.auction_id, bids.bidder_id)
+      bids.auction_id, bids.bidder_id, bids.amount, bids.created_at
+    FROM bids
+    JOIN auctions ON auctions.id = bids.auction_id
+    WHERE auctions.auction_type IN ('sealed_first_price', 'sealed_second_price')
+      AND auctions.status = 'active'
+      AND auctions.end_time <= now()
+      AND bids.retracted_at IS NULL
+    ORDER BY bids.auction_id, bids.bidder_id, bids.created_at DESC
+  ),
+  ranked AS (
+    SELECT
+      latest.*,
+      row_number() OVER w AS position,
+      lead(latest.amount) OVER w AS runner_up_amount
+    FROM latest
+    WINDOW w AS (PARTITION BY latest.auction_id ORDER BY latest.amount DESC, latest.created_at ASC)
+  )
+  UPDATE auctions
+  SET
+    highest_bidder_id = ranked.bidder_id,
+    highest_bid = CASE auctions.auction_type
+      WHEN 'sealed_first_price' THEN ranked.amount
+      -- Second price: runner-up plus one increment, lifted to a reserve the winner covers
+      ELSE LEAST(
+        ranked.amount,
+        GREATEST(
+          COALESCE(ranked.runner_up_amount + bid_increment_at(auctions, ranked.runner_up_amount), auctions.starting_price),
+          COALESCE(auction_reserves.reserve_price, 0)
+        )
+      )
+    END,
+    reserve_met = ranked.amount >= COALESCE(auction_reserves.reserve_price, 0)
+  FROM ranked
+  LEFT JOIN auction_reserves ON auction_reserves.auction_id = ranked.auction_id
+  WHERE auctions.id = ranked.auction_id
+    AND ranked.position = 1;
+
+  -- Allocate lots closing now at their clearing price, if the reserve allows a sale
+  WITH allocations AS (
+    INSERT INTO lot_allocations (auction_id, bidder_id, bid_id, quantity, unit_price)
+    SELECT auctions.id, allocation.bidder_id, allocation.bid_id, allocation.allocated, auctions.highest_bid
+    FROM auctions
+    CROSS JOIN LATERAL lot_allocation(auctions.id) AS allocation
+    WHERE auctions.quantity > 1
+      AND auctions.status = 'active'
+      AND auctions.end_time <= now()
+      AND (NOT auctions.has_reserve OR auctions.reserve_met)
+    ON CONFLICT (auction_id, bidder_id) DO NOTHING
+    RETURNING *
+  )
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT
+    allocations.bidder_id,
+    allocations.auction_id,
+    'auction_ended',
+    'You won ' || allocations.quantity || ' of ' || auctions.quantity || ' units of "' || auctions.title ||
+      '" at $' || allocations.unit_price || ' each'
+  FROM allocations
+  JOIN auctions ON auctions.id = allocations.auction_id;
+
+  -- Update auctions that should be ended, recording how they ended
+  WITH ended AS (
+    UPDATE auctions
+    SET
+      status = 'ended',
+      result = CASE
+        WHEN highest_bidder_id IS NULL THEN 'no_bids'
+        WHEN has_reserve AND NOT reserve_met THEN 'reserve_not_met'
+        ELSE 'sold'
+      END::auction_result
+    WHERE status IN ('draft', 'active')
+      AND end_time <= now()
+    RETURNING *
+  ),
+  -- Sold auctions wait for the seller to accept, reject or counter the top bid
+  offers AS (
+    INSERT INTO auction_offers (auction_id, seller_id, bidder_id, bid_amount)
+    SELECT id, seller_id, highest_bidder_id, highest_bid
+    FROM ended
+    WHERE result = 'sold'
+      AND quantity = 1
+    RETURNING auction_id
+  )
+  -- Tell the seller and the top bidder how the auction ended
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT recipient.user_id, ended.id, 'auction_ended', recipient.message
+  FROM ended
+  CROSS JOIN LATERAL (
+    VALUES
+      (ended.seller_id, CASE ended.result
+        WHEN 'reserve_not_met' THEN 'Your auction "' || ended.title || '" ended without meeting your reserve price. Top bid: $' || ended.highest_bid
+        WHEN 'sold' THEN CASE
+          WHEN ended.quantity > 1 THEN 'Your lot "' || ended.title || '" sold at a clearing price of $' || ended.highest_bid || ' per unit'
+          ELSE 'Your auction "' || ended.title || '" ended with a top bid of $' || ended.highest_bid || '. Accept, reject or counter it.'
+        END
+      END),
+      (ended.highest_bidder_id, CASE ended.result
+        WHEN 'reserve_not_met' THEN 'The auction "' || ended.title || '" ended without meeting the reserve price, so your bid of $' || ended.highest_bid || ' did not win'
+        -- Lot winners hear about their units from the allocation above
+        WHEN 'sold' THEN CASE
+          WHEN ended.quantity = 1 THEN 'You are the top bidder on "' || ended.title || '" at $' || ended.highest_bid || '. The seller will confirm the sale.'
+        END
+      END)
+  ) AS recipient(user_id, message)
+  WHERE recipient.user_id IS NOT NULL
+    AND recipient.message IS NOT NULL;
+
+  -- Counter offers the bidder never answered lapse
+  WITH expired AS (
+    UPDATE auction_offers
+    SET status = 'counter_expired', updated_at = now()
+    WHERE status = 'countered'
+      AND counter_expires_at <= now()
+    RETURNING *
+  )
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT
+    expired.seller_id,
+    expired.auction_id,
+    'bid_rejected',
+    'Your counter offer of $' || expired.counter_amount || ' expired without a response'
+  FROM expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION lot_allocation(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION lot_minimum_bid(auctions, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_lot_standing(uuid) FROM PUBLIC, anon, authenticated;
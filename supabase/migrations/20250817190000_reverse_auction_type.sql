@@ -0,0 +1,12 @@
+/*
+  # Reverse Auction Type
+
+  Adds the reverse format on its own so the value is committed before
+  `20250817190100_reverse_auctions.sql` uses it.
+
+  1. Changes
+    - `auction_type` gains `reverse`, a procurement auction where suppliers bid
+      the price down and the lowest bid wins
+*/
+
+ALTER TYPE auction_type ADD VALUE IF NOT EXISTS 'reverse';
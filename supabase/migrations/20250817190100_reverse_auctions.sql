@@ -0,0 +1,450 @@
+/*
+  # Reverse (Procurement) Auctions
+
+  1. Changes
+    - In a reverse auction the seller is the buyer posting a request, and
+      `starting_price` is the most they will pay
+    - `highest_bid` and `highest_bidder_id` hold the leading, lowest bid
+    - Reverse auctions take no Buy It Now price and no reserve
+
+  2. Functions
+    - `handle_new_bid()` accepts a first bid at or below the starting price, then
+      bids at least one increment below the current lowest bid
+    - `retract_bid()` falls back to the lowest remaining bid
+    - `counter_top_bid()` lets the buyer counter with a lower price
+*/
+
+ALTER TABLE auctions
+  ADD CONSTRAINT auctions_reverse_format_check
+  CHECK (auction_type != 'reverse' OR (buy_now_price IS NULL AND NOT has_reserve));
+
+-- Bids in reverse auctions must undercut the leader
+CREATE OR REPLACE FUNCTION handle_new_bid()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  current_highest_bid NUMERIC(10,2);
+  minimum_bid NUMERIC(10,2);
+  maximum_bid NUMERIC(10,2);
+  extension_minutes INTEGER;
+  dutch_price NUMERIC(10,2);
+BEGIN
+  -- Get the auction record, locked so concurrent bids and Buy It Now serialize
+  SELECT * INTO auction_record FROM auctions WHERE id = NEW.auction_id FOR UPDATE;
+
+  -- Check if auction exists and is active
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.status != 'active' THEN
+    RAISE EXCEPTION 'Auction is not active';
+  END IF;
+
+  -- Check if auction has ended
+  IF auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Auction has ended';
+  END IF;
+
+  -- Prevent seller from bidding on their own auction
+  IF auction_record.seller_id = NEW.bidder_id THEN
+    RAISE EXCEPTION 'Sellers cannot bid on their own auctions';
+  END IF;
+
+  IF NEW.quantity > auction_record.quantity THEN
+    RAISE EXCEPTION 'Bid quantity cannot exceed the % units on offer', auction_record.quantity;
+  END IF;
+
+  -- Dutch auctions sell to the first taker at the current price
+  IF auction_record.auction_type = 'dutch' THEN
+    IF NEW.is_proxy OR NEW.is_buy_now THEN
+      RAISE EXCEPTION 'Dutch auctions only accept the current price';
+    END IF;
+
+    dutch_price := dutch_current_price(auction_record);
+
+    IF NEW.amount < dutch_price THEN
+      RAISE EXCEPTION 'Bid amount must be at least %', dutch_price;
+    END IF;
+
+    -- Settle at the current price even if the bidder offered more
+    UPDATE bids SET amount = dutch_price WHERE id = NEW.id;
+
+    UPDATE auctions
+    SET
+      highest_bid = dutch_price,
+      highest_bidder_id = NEW.bidder_id,
+      status = 'ended',
+      end_time = now(),
+      result = 'sold'
+    WHERE id = NEW.auction_id;
+
+    INSERT INTO notifications (user_id, auction_id, type, message)
+    VALUES (
+      auction_record.seller_id,
+      NEW.auction_id,
+      'auction_ended',
+      'Your Dutch auction "' || auction_record.title || '" sold for $' || dutch_price
+    );
+
+    RETURN NEW;
+  END IF;
+
+  -- Sealed bids stay hidden until close, so the auction itself is left untouched
+  IF auction_record.auction_type IN ('sealed_first_price', 'sealed_second_price') THEN
+    IF NEW.is_proxy OR NEW.is_buy_now THEN
+      RAISE EXCEPTION 'Sealed auctions only accept sealed bids';
+    END IF;
+
+    IF NEW.amount < auction_record.starting_price THEN
+      RAISE EXCEPTION 'Bid amount must be at least %', auction_record.starting_price;
+    END IF;
+
+    -- Revisions replace the bidder's earlier bid, only a new bidder is news
+    IF NOT EXISTS (
+      SELECT 1 FROM bids
+      WHERE auction_id = NEW.auction_id
+        AND bidder_id = NEW.bidder_id
+        AND id != NEW.id
+    ) THEN
+      INSERT INTO notifications (user_id, auction_id, type, message)
+      VALUES (
+        auction_record.seller_id,
+        NEW.auction_id,
+        'new_bid',
+        'A sealed bid was placed on your auction "' || auction_record.title || '"'
+      );
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  current_highest_bid := COALESCE(auction_record.highest_bid, 0);
+
+  IF NEW.is_buy_now THEN
+    -- Buy It Now purchases are only ever placed by buy_now()
+    IF COALESCE(current_setting('app.buy_now', true), 'off') != 'on' THEN
+      RAISE EXCEPTION 'Buy It Now purchases must go through buy_now()';
+    END IF;
+
+    minimum_bid := auction_record.buy_now_price;
+  ELSIF NEW.is_proxy THEN
+    -- Proxy bids are only ever placed by resolve_proxy_bids()
+    IF COALESCE(current_setting('app.proxy_bidding', true), 'off') != 'on' THEN
+      RAISE EXCEPTION 'Proxy bids can only be placed by the system';
+    END IF;
+
+    -- A ceiling may match the current bid when it wins the tie
+    minimum_bid := GREATEST(current_highest_bid, auction_record.starting_price);
+  ELSIF auction_record.quantity > 1 THEN
+    -- Lots: enough to win at least one unit, and never below the bidder's standing bid
+    minimum_bid := GREATEST(
+      lot_minimum_bid(auction_record, NEW.bidder_id),
+      COALESCE((
+        SELECT amount FROM bids
+        WHERE auction_id = NEW.auction_id
+          AND bidder_id = NEW.bidder_id
+          AND id != NEW.id
+          AND retracted_at IS NULL
+        ORDER BY created_at DESC
+        LIMIT 1
+      ), 0)
+    );
+  ELSIF auction_record.auction_type = 'reverse' THEN
+    -- Reverse auctions: bids come down from the starting price, the lowest leads
+    minimum_bid := 0;
+
+    IF current_highest_bid = 0 THEN
+      maximum_bid := auction_record.starting_price;
+    ELSE
+      maximum_bid := current_highest_bid - bid_increment_at(auction_record, current_highest_bid);
+    END IF;
+  ELSIF current_highest_bid = 0 THEN
+    -- First bid must be at least the starting price
+    minimum_bid := auction_record.starting_price;
+  ELSE
+    -- Subsequent bids must be at least current highest + the increment for that price
+    minimum_bid := current_highest_bid + bid_increment_at(auction_record, current_highest_bid);
+  END IF;
+
+  -- Validate bid amount
+  IF NEW.amount < minimum_bid THEN
+    RAISE EXCEPTION 'Bid amount must be at least %', minimum_bid;
+  END IF;
+
+  IF NEW.amount > maximum_bid THEN
+    RAISE EXCEPTION 'Bid amount must be at most %', maximum_bid;
+  END IF;
+
+  IF auction_record.quantity > 1 THEN
+    -- Lots track the clearing price instead of the single highest bid
+    PERFORM refresh_lot_standing(NEW.auction_id);
+  ELSE
+    -- Update auction with new highest bid
+    UPDATE auctions
+    SET
+      highest_bid = NEW.amount,
+      highest_bidder_id = NEW.bidder_id,
+      reserve_met = NEW.amount >= COALESCE(
+        (SELECT reserve_price FROM auction_reserves WHERE auction_id = NEW.auction_id),
+        0
+      )
+    WHERE id = NEW.auction_id;
+  END IF;
+
+  -- Buy It Now settles the auction, buy_now() notifies everyone involved
+  IF NEW.is_buy_now THEN
+    RETURN NEW;
+  END IF;
+
+  -- Create notification for the seller
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  VALUES (
+    auction_record.seller_id,
+    NEW.auction_id,
+    'new_bid',
+    'New bid of $' || NEW.amount || ' placed on your auction "' || auction_record.title || '"'
+  );
+
+  IF auction_record.quantity > 1 THEN
+    -- Tell lot bidders who lost units to the new bid
+    INSERT INTO notifications (user_id, auction_id, type, message)
+    SELECT
+      before.bidder_id,
+      NEW.auction_id,
+      'outbid',
+      'You have been outbid on "' || auction_record.title || '". You are now winning ' ||
+        COALESCE(after.allocated, 0) || ' of ' || auction_record.quantity || ' units'
+    FROM lot_allocation(NEW.auction_id, NEW.id) AS before
+    LEFT JOIN lot_allocation(NEW.auction_id) AS after ON after.bidder_id = before.bidder_id
+    WHERE before.bidder_id != NEW.bidder_id
+      AND COALESCE(after.allocated, 0) < before.allocated;
+  -- Create notification for previous highest bidder (if exists and different)
+  ELSIF auction_record.highest_bidder_id IS NOT NULL
+     AND auction_record.highest_bidder_id != NEW.bidder_id THEN
+    INSERT INTO notifications (user_id, auction_id, type, message)
+    VALUES (
+      auction_record.highest_bidder_id,
+      NEW.auction_id,
+      'outbid',
+      'You have been outbid on "' || auction_record.title || '". New ' ||
+        CASE WHEN auction_record.auction_type = 'reverse' THEN 'lowest' ELSE 'highest' END || ' bid: $' || NEW.amount
+    );
+  END IF;
+
+  -- Soft close: a late manual bid pushes the end time out, up to the cap
+  IF NOT NEW.is_proxy
+     AND auction_record.soft_close_window_minutes IS NOT NULL
+     AND auction_record.end_time - now() <= make_interval(mins => auction_record.soft_close_window_minutes) THEN
+    extension_minutes := auction_record.soft_close_extension_minutes;
+
+    IF auction_record.soft_close_max_extension_minutes IS NOT NULL THEN
+      extension_minutes := LEAST(
+        extension_minutes,
+        auction_record.soft_close_max_extension_minutes - auction_record.extended_minutes
+      );
+    END IF;
+
+    IF extension_minutes > 0 THEN
+      UPDATE auctions
+      SET
+        end_time = end_time + make_interval(mins => extension_minutes),
+        extended_minutes = extended_minutes + extension_minutes
+      WHERE id = NEW.auction_id;
+    END IF;
+  END IF;
+
+  -- Let ceilings respond to manual bids
+  IF NOT NEW.is_proxy THEN
+    PERFORM resolve_proxy_bids(NEW.auction_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- The lowest remaining bid leads a reverse auction after a retraction
+CREATE OR REPLACE FUNCTION retract_bid(p_bid_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  bid_record bids%ROWTYPE;
+  auction_record auctions%ROWTYPE;
+  new_leader bids%ROWTYPE;
+  previous_leader_id UUID;
+  caller_is_admin BOOLEAN := is_admin();
+BEGIN
+  SELECT * INTO bid_record FROM bids WHERE id = p_bid_id;
+
+  IF bid_record IS NULL THEN
+    RAISE EXCEPTION 'Bid not found';
+  END IF;
+
+  -- Lock the auction so no bid lands while the leader is recomputed
+  SELECT * INTO auction_record FROM auctions WHERE id = bid_record.auction_id FOR UPDATE;
+  previous_leader_id := auction_record.highest_bidder_id;
+
+  IF NOT caller_is_admin AND bid_record.bidder_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only retract your own bids';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to retract a bid';
+  END IF;
+
+  IF bid_record.retracted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Bid has already been retracted';
+  END IF;
+
+  IF bid_record.is_proxy THEN
+    RAISE EXCEPTION 'Automatic bids are retracted with the bid that set them off';
+  END IF;
+
+  IF auction_record.status != 'active' OR auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Bids can only be retracted while the auction is active';
+  END IF;
+
+  IF NOT caller_is_admin THEN
+    IF now() - bid_record.created_at > interval '5 minutes' THEN
+      RAISE EXCEPTION 'Bids can only be retracted within 5 minutes of placing them';
+    END IF;
+
+    IF auction_record.end_time - now() <= interval '1 hour' THEN
+      RAISE EXCEPTION 'Bids cannot be retracted in the final hour of an auction';
+    END IF;
+  END IF;
+
+  -- The bid and the automatic bids it set off on the bidder's behalf
+  UPDATE bids
+  SET
+    retracted_at = now(),
+    retracted_by = auth.uid(),
+    retraction_reason = p_reason
+  WHERE auction_id = bid_record.auction_id
+    AND bidder_id = bid_record.bidder_id
+    AND retracted_at IS NULL
+    AND (id = bid_record.id OR (is_proxy AND created_at >= bid_record.created_at));
+
+  -- A mistyped bid usually came with a mistyped maximum
+  DELETE FROM max_bids
+  WHERE auction_id = bid_record.auction_id
+    AND bidder_id = bid_record.bidder_id;
+
+  IF auction_record.quantity > 1 THEN
+    PERFORM refresh_lot_standing(bid_record.auction_id);
+
+    SELECT * INTO auction_record FROM auctions WHERE id = bid_record.auction_id;
+  -- Sealed auctions pick their winner at close
+  ELSIF auction_record.auction_type NOT IN ('sealed_first_price', 'sealed_second_price') THEN
+    SELECT * INTO new_leader
+    FROM bids
+    WHERE auction_id = bid_record.auction_id
+      AND retracted_at IS NULL
+    ORDER BY
+      CASE WHEN auction_record.auction_type = 'reverse' THEN -amount ELSE amount END DESC,
+      created_at ASC
+    LIMIT 1;
+
+    UPDATE auctions
+    SET
+      highest_bid = COALESCE(new_leader.amount, 0),
+      highest_bidder_id = new_leader.bidder_id,
+      reserve_met = new_leader.amount IS NOT NULL AND new_leader.amount >= COALESCE(
+        (SELECT reserve_price FROM auction_reserves WHERE auction_id = bid_record.auction_id),
+        0
+      )
+    WHERE id = bid_record.auction_id;
+
+    -- Remaining ceilings respond to the lower price
+    PERFORM resolve_proxy_bids(bid_record.auction_id);
+
+    SELECT * INTO auction_record FROM auctions WHERE id = bid_record.auction_id;
+  END IF;
+
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT recipient.user_id, bid_record.auction_id, 'bid_retracted', recipient.message
+  FROM (
+    VALUES
+      (bid_record.bidder_id, CASE
+        WHEN bid_record.bidder_id IS DISTINCT FROM auth.uid() THEN
+          'An admin retracted your bid of $' || bid_record.amount || ' on "' || auction_record.title || '": ' || p_reason
+      END),
+      (auction_record.seller_id, CASE
+        WHEN auction_record.auction_type IN ('sealed_first_price', 'sealed_second_price') THEN
+          'A sealed bid was retracted on your auction "' || auction_record.title || '"'
+        ELSE
+          'A bid of $' || bid_record.amount || ' was retracted on your auction "' || auction_record.title || '"'
+      END),
+      (auction_record.highest_bidder_id, CASE
+        WHEN auction_record.quantity = 1
+          AND auction_record.highest_bidder_id IS DISTINCT FROM previous_leader_id THEN
+          'The leading bid was retracted on "' || auction_record.title || '". You are now the leading bidder at $' || auction_record.highest_bid
+      END)
+  ) AS recipient(user_id, message)
+  WHERE recipient.user_id IS NOT NULL
+    AND recipient.message IS NOT NULL;
+END;
+$$;
+
+
+-- Buyers counter reverse auctions downwards
+CREATE OR REPLACE FUNCTION counter_top_bid(p_offer_id uuid, p_counter_amount numeric, p_expires_in_hours integer DEFAULT 48)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  offer_record auction_offers%ROWTYPE;
+  auction_title TEXT;
+  auction_kind auction_type;
+BEGIN
+  SELECT * INTO offer_record FROM auction_offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF offer_record IS NULL OR offer_record.seller_id != auth.uid() THEN
+    RAISE EXCEPTION 'Decision not found';
+  END IF;
+
+  IF offer_record.status != 'pending' THEN
+    RAISE EXCEPTION 'This bid has already been decided';
+  END IF;
+
+  SELECT title, auction_type INTO auction_title, auction_kind FROM auctions WHERE id = offer_record.auction_id;
+
+  -- Buyers in reverse auctions counter with a lower price
+  IF auction_kind = 'reverse' THEN
+    IF p_counter_amount >= offer_record.bid_amount THEN
+      RAISE EXCEPTION 'Counter offer must be lower than the winning bid of %', offer_record.bid_amount;
+    END IF;
+  ELSIF p_counter_amount <= offer_record.bid_amount THEN
+    RAISE EXCEPTION 'Counter offer must be higher than the winning bid of %', offer_record.bid_amount;
+  END IF;
+
+  IF p_expires_in_hours < 1 OR p_expires_in_hours > 168 THEN
+    RAISE EXCEPTION 'Counter offers must expire within 1 to 168 hours';
+  END IF;
+
+  UPDATE auction_offers
+  SET
+    status = 'countered',
+    counter_amount = p_counter_amount,
+    counter_expires_at = now() + make_interval(hours => p_expires_in_hours),
+    updated_at = now()
+  WHERE id = p_offer_id;
+
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  VALUES (
+    offer_record.bidder_id,
+    offer_record.auction_id,
+    'counter_offer',
+    CASE WHEN auction_kind = 'reverse' THEN 'The buyer' ELSE 'The seller' END ||
+      ' countered your bid on "' || auction_title || '" with $' || p_counter_amount ||
+      '. Respond within ' || p_expires_in_hours || ' hours.'
+  );
+END;
+$$;
+
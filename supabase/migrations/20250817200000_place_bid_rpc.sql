@@ -0,0 +1,185 @@
+/*
+  # Bid Placement RPC
+
+  1. New Tables
+    - `bid_requests`
+      - `bidder_id` (uuid, references profiles)
+      - `idempotency_key` (uuid) - generated by the client for each bid attempt
+      - `auction_id` (uuid, references auctions)
+      - `bid_id` (uuid, references bids) - the bid the request created, if any
+      - `result` (jsonb) - the outcome returned to the client, replayed on retries
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `place_bid()` is the single entry point for bids. It locks the auction row,
+      checks the amount against the current minimum and returns a structured result:
+      - `accepted` with the new bid
+      - `outbid_by_proxy` when an automatic bid immediately outbid it, with the
+        next `minimum_bid`, or the next `maximum_bid` in reverse auctions
+      - `too_low` with the current `minimum_bid`, or `too_high` with the current
+        `maximum_bid` in reverse auctions
+      - `auction_closed` when the auction is no longer taking bids
+    - A retried request with the same idempotency key gets the original result
+      back instead of placing a second bid
+    - With `p_auto_bid` the amount is a maximum for automatic bidding, set
+      through `place_proxy_bid()` under the same key and results
+
+  3. Security
+    - Users can no longer insert into `bids` directly, only through `place_bid()`
+      and the other bidding RPCs
+    - `place_proxy_bid()` is revoked from clients, maximums go through `place_bid()`
+    - Bidders can read their own bid requests
+*/
+
+CREATE TABLE IF NOT EXISTS bid_requests (
+  bidder_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  idempotency_key uuid NOT NULL,
+  auction_id uuid REFERENCES auctions(id) ON DELETE CASCADE NOT NULL,
+  bid_id uuid REFERENCES bids(id) ON DELETE SET NULL,
+  result jsonb,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (bidder_id, idempotency_key)
+);
+
+ALTER TABLE bid_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Bidders can read their own bid requests"
+  ON bid_requests FOR SELECT
+  TO authenticated
+  USING (auth.uid() = bidder_id);
+
+DROP POLICY IF EXISTS "Users can place bids" ON bids;
+
+-- Place a bid exactly once per idempotency key
+CREATE OR REPLACE FUNCTION place_bid(
+  p_auction_id uuid,
+  p_amount numeric,
+  p_idempotency_key uuid,
+  p_quantity integer DEFAULT 1,
+  p_auto_bid boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  existing_result JSONB;
+  minimum_bid NUMERIC(10,2);
+  maximum_bid NUMERIC(10,2);
+  new_bid_id UUID;
+  outcome JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to bid';
+  END IF;
+
+  -- Claim the key, a concurrent retry waits here until the first attempt commits
+  INSERT INTO bid_requests (bidder_id, idempotency_key, auction_id)
+  VALUES (auth.uid(), p_idempotency_key, p_auction_id)
+  ON CONFLICT (bidder_id, idempotency_key) DO NOTHING;
+
+  IF NOT FOUND THEN
+    SELECT result INTO existing_result
+    FROM bid_requests
+    WHERE bidder_id = auth.uid() AND idempotency_key = p_idempotency_key;
+
+    RETURN existing_result;
+  END IF;
+
+  -- Concurrent bids on the same auction queue up behind this lock
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id FOR UPDATE;
+
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.status != 'active' OR auction_record.end_time <= now() THEN
+    outcome := jsonb_build_object('status', 'auction_closed');
+  ELSE
+    IF auction_record.auction_type = 'dutch' THEN
+      minimum_bid := dutch_current_price(auction_record);
+    ELSIF auction_record.auction_type IN ('sealed_first_price', 'sealed_second_price') THEN
+      minimum_bid := auction_record.starting_price;
+    ELSIF auction_record.auction_type = 'reverse' THEN
+      IF auction_record.highest_bid = 0 THEN
+        maximum_bid := auction_record.starting_price;
+      ELSE
+        maximum_bid := auction_record.highest_bid - bid_increment_at(auction_record, auction_record.highest_bid);
+      END IF;
+    ELSIF auction_record.quantity > 1 THEN
+      minimum_bid := GREATEST(
+        lot_minimum_bid(auction_record, auth.uid()),
+        COALESCE((
+          SELECT amount FROM bids
+          WHERE auction_id = p_auction_id
+            AND bidder_id = auth.uid()
+            AND retracted_at IS NULL
+          ORDER BY created_at DESC
+          LIMIT 1
+        ), 0)
+      );
+    ELSIF auction_record.highest_bid = 0 THEN
+      minimum_bid := auction_record.starting_price;
+    ELSE
+      minimum_bid := auction_record.highest_bid + bid_increment_at(auction_record, auction_record.highest_bid);
+    END IF;
+
+    -- The leader may raise their maximum without meeting the next minimum
+    IF p_amount < minimum_bid AND NOT (p_auto_bid AND auction_record.highest_bidder_id = auth.uid()) THEN
+      outcome := jsonb_build_object('status', 'too_low', 'minimum_bid', minimum_bid);
+    ELSIF p_amount > maximum_bid THEN
+      outcome := jsonb_build_object('status', 'too_high', 'maximum_bid', maximum_bid);
+    ELSE
+      IF p_auto_bid THEN
+        -- place_proxy_bid() checks the auction allows it and bids up to the maximum
+        PERFORM place_proxy_bid(p_auction_id, p_amount);
+
+        SELECT id INTO new_bid_id
+        FROM bids
+        WHERE auction_id = p_auction_id AND bidder_id = auth.uid() AND retracted_at IS NULL
+        ORDER BY created_at DESC
+        LIMIT 1;
+      ELSE
+        -- handle_new_bid() validates the rest and lets ceilings respond
+        INSERT INTO bids (auction_id, bidder_id, amount, quantity)
+        VALUES (p_auction_id, auth.uid(), p_amount, p_quantity)
+        RETURNING id INTO new_bid_id;
+      END IF;
+
+      SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id;
+
+      -- Lots and sealed auctions have no single leader to compare against
+      IF auction_record.quantity = 1
+         AND auction_record.auction_type NOT IN ('sealed_first_price', 'sealed_second_price')
+         AND auction_record.highest_bidder_id IS DISTINCT FROM auth.uid() THEN
+        outcome := jsonb_build_object(
+          'status', 'outbid_by_proxy',
+          'bid_id', new_bid_id,
+          'highest_bid', auction_record.highest_bid
+        ) || CASE
+          -- The lowest bid leads a reverse auction, so the next one has to come in under it
+          WHEN auction_record.auction_type = 'reverse' THEN jsonb_build_object(
+            'maximum_bid', auction_record.highest_bid - bid_increment_at(auction_record, auction_record.highest_bid)
+          )
+          ELSE jsonb_build_object(
+            'minimum_bid', auction_record.highest_bid + bid_increment_at(auction_record, auction_record.highest_bid)
+          )
+        END;
+      ELSE
+        outcome := jsonb_build_object('status', 'accepted', 'bid_id', new_bid_id);
+      END IF;
+    END IF;
+  END IF;
+
+  UPDATE bid_requests
+  SET bid_id = new_bid_id, result = outcome
+  WHERE bidder_id = auth.uid() AND idempotency_key = p_idempotency_key;
+
+  RETURN outcome;
+END;
+$$;
+
+-- Grant execute permissions
+REVOKE EXECUTE ON FUNCTION place_proxy_bid(uuid, numeric) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION place_bid(uuid, numeric, uuid, integer, boolean) TO authenticated;
@@ -0,0 +1,186 @@
+/*
+  # Server-side Auction Lifecycle Scheduler
+
+  1. Changes
+    - Enables `pg_cron` and schedules `update_auction_status()` every 10 seconds,
+      so auctions start and close on time whether or not anyone has the app open
+
+  2. Functions
+    - `update_auction_status()` takes a transaction-level advisory lock so
+      overlapping runs never process the same transition twice, and also sends
+      `auction_ended` notifications to the bidders who lost. Every transition is
+      guarded by the status it moves away from and notifications are only sent
+      for rows a run actually changed, so running it again is a no-op
+
+  3. Security
+    - Clients no longer trigger status updates, execute is revoked from them
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+CREATE OR REPLACE FUNCTION update_auction_status()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Overlapping runs would race on the same transitions, the later one simply skips
+  IF NOT pg_try_advisory_xact_lock(hashtext('update_auction_status')) THEN
+    RETURN;
+  END IF;
+
+  -- Update auctions that should be active
+  UPDATE auctions 
+  SET status = 'active'
+  WHERE status = 'draft' 
+    AND start_time <= now() 
+    AND end_time > now();
+    
+  -- Reveal sealed auctions: each bidder's latest bid counts, earliest wins ties
+  WITH latest AS (
+    SELECT DISTINCT ON (bids.auction_id, bids.bidder_id)
+      bids.auction_id, bids.bidder_id, bids.amount, bids.created_at
+    FROM bids
+    JOIN auctions ON auctions.id = bids.auction_id
+    WHERE auctions.auction_type IN ('sealed_first_price', 'sealed_second_price')
+      AND auctions.status = 'active'
+      AND auctions.end_time <= now()
+      AND bids.retracted_at IS NULL
+    ORDER BY bids.auction_id, bids.bidder_id, bids.created_at DESC
+  ),
+  ranked AS (
+    SELECT
+      latest.*,
+      row_number() OVER w AS position,
+      lead(latest.amount) OVER w AS runner_up_amount
+    FROM latest
+    WINDOW w AS (PARTITION BY latest.auction_id ORDER BY latest.amount DESC, latest.created_at ASC)
+  )
+  UPDATE auctions
+  SET
+    highest_bidder_id = ranked.bidder_id,
+    highest_bid = CASE auctions.auction_type
+      WHEN 'sealed_first_price' THEN ranked.amount
+      -- Second price: runner-up plus one increment, lifted to a reserve the winner covers
+      ELSE LEAST(
+        ranked.amount,
+        GREATEST(
+          COALESCE(ranked.runner_up_amount + bid_increment_at(auctions, ranked.runner_up_amount), auctions.starting_price),
+          COALESCE(auction_reserves.reserve_price, 0)
+        )
+      )
+    END,
+    reserve_met = ranked.amount >= COALESCE(auction_reserves.reserve_price, 0)
+  FROM ranked
+  LEFT JOIN auction_reserves ON auction_reserves.auction_id = ranked.auction_id
+  WHERE auctions.id = ranked.auction_id
+    AND ranked.position = 1;
+
+  -- Allocate lots closing now at their clearing price, if the reserve allows a sale
+  WITH allocations AS (
+    INSERT INTO lot_allocations (auction_id, bidder_id, bid_id, quantity, unit_price)
+    SELECT auctions.id, allocation.bidder_id, allocation.bid_id, allocation.allocated, auctions.highest_bid
+    FROM auctions
+    CROSS JOIN LATERAL lot_allocation(auctions.id) AS allocation
+    WHERE auctions.quantity > 1
+      AND auctions.status = 'active'
+      AND auctions.end_time <= now()
+      AND (NOT auctions.has_reserve OR auctions.reserve_met)
+    ON CONFLICT (auction_id, bidder_id) DO NOTHING
+    RETURNING *
+  )
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT
+    allocations.bidder_id,
+    allocations.auction_id,
+    'auction_ended',
+    'You won ' || allocations.quantity || ' of ' || auctions.quantity || ' units of "' || auctions.title ||
+      '" at $' || allocations.unit_price || ' each'
+  FROM allocations
+  JOIN auctions ON auctions.id = allocations.auction_id;
+
+  -- Update auctions that should be ended, recording how they ended
+  WITH ended AS (
+    UPDATE auctions
+    SET
+      status = 'ended',
+      result = CASE
+        WHEN highest_bidder_id IS NULL THEN 'no_bids'
+        WHEN has_reserve AND NOT reserve_met THEN 'reserve_not_met'
+        ELSE 'sold'
+      END::auction_result
+    WHERE status IN ('draft', 'active')
+      AND end_time <= now()
+    RETURNING *
+  ),
+  -- Sold auctions wait for the seller to accept, reject or counter the top bid
+  offers AS (
+    INSERT INTO auction_offers (auction_id, seller_id, bidder_id, bid_amount)
+    SELECT id, seller_id, highest_bidder_id, highest_bid
+    FROM ended
+    WHERE result = 'sold'
+      AND quantity = 1
+    RETURNING auction_id
+  )
+  -- Tell the seller, the top bidder and everyone who lost how the auction ended
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT recipient.user_id, ended.id, 'auction_ended'::notification_type, recipient.message
+  FROM ended
+  CROSS JOIN LATERAL (
+    VALUES
+      (ended.seller_id, CASE ended.result
+        WHEN 'reserve_not_met' THEN 'Your auction "' || ended.title || '" ended without meeting your reserve price. Top bid: $' || ended.highest_bid
+        WHEN 'sold' THEN CASE
+          WHEN ended.quantity > 1 THEN 'Your lot "' || ended.title || '" sold at a clearing price of $' || ended.highest_bid || ' per unit'
+          ELSE 'Your auction "' || ended.title || '" ended with a top bid of $' || ended.highest_bid || '. Accept, reject or counter it.'
+        END
+      END),
+      (ended.highest_bidder_id, CASE ended.result
+        WHEN 'reserve_not_met' THEN 'The auction "' || ended.title || '" ended without meeting the reserve price, so your bid of $' || ended.highest_bid || ' did not win'
+        -- Lot winners hear about their units from the allocation above
+        WHEN 'sold' THEN CASE
+          WHEN ended.quantity = 1 THEN 'You are the top bidder on "' || ended.title || '" at $' || ended.highest_bid || '. The seller will confirm the sale.'
+        END
+      END)
+  ) AS recipient(user_id, message)
+  WHERE recipient.user_id IS NOT NULL
+    AND recipient.message IS NOT NULL
+  UNION ALL
+  SELECT DISTINCT
+    bids.bidder_id,
+    ended.id,
+    'auction_ended'::notification_type,
+    'The auction "' || ended.title || '" has ended and your bid did not win'
+  FROM ended
+  JOIN bids ON bids.auction_id = ended.id
+  WHERE bids.retracted_at IS NULL
+    AND bids.bidder_id IS DISTINCT FROM ended.highest_bidder_id
+    -- Lot winners other than the top bidder were told about their units above
+    AND NOT EXISTS (
+      SELECT 1 FROM lot_allocations
+      WHERE lot_allocations.auction_id = ended.id
+        AND lot_allocations.bidder_id = bids.bidder_id
+    );
+
+  -- Counter offers the bidder never answered lapse
+  WITH expired AS (
+    UPDATE auction_offers
+    SET status = 'counter_expired', updated_at = now()
+    WHERE status = 'countered'
+      AND counter_expires_at <= now()
+    RETURNING *
+  )
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT
+    expired.seller_id,
+    expired.auction_id,
+    'bid_rejected',
+    'Your counter offer of $' || expired.counter_amount || ' expired without a response'
+  FROM expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION update_auction_status() FROM PUBLIC, anon, authenticated;
+
+-- Scheduling under the same name replaces an existing job
+SELECT cron.schedule('update-auction-status', '10 seconds', 'SELECT update_auction_status()');
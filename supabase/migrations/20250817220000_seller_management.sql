@@ -0,0 +1,267 @@
+/*
+  # Seller Auction Management
+
+  1. Changes
+    - `auctions.cancelled_at` (timestamp) and `auctions.cancellation_reason` (text)
+      record why a seller called an auction off
+    - New `auction_cancelled` notification type
+
+  2. Functions
+    - `update_auction_details()` edits the title and description of a running or
+      upcoming auction at any time
+    - `update_auction_pricing()` edits the starting price, increment, Buy It Now
+      price, reserve and Dutch schedule, only while nobody has bid. The new
+      prices are checked against the auction type: only single-item ascending
+      auctions take Buy It Now, Dutch and reverse auctions take no reserve, a
+      Dutch floor and drop must fit under the starting price, and a running
+      Dutch clock never goes back up.
+    - `cancel_auction()` cancels a running or upcoming auction with a reason and
+      tells everyone who bid
+    - `end_auction_early()` closes a running auction that has no bids
+
+  3. Security
+    - The blanket "Sellers can update their own auctions" policy is dropped,
+      sellers change their auctions only through the functions above
+*/
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'auction_cancelled';
+
+ALTER TABLE auctions
+  ADD COLUMN IF NOT EXISTS cancelled_at timestamptz,
+  ADD COLUMN IF NOT EXISTS cancellation_reason text;
+
+DROP POLICY IF EXISTS "Sellers can update their own auctions" ON auctions;
+
+-- Title and description can change for as long as the auction is open
+CREATE OR REPLACE FUNCTION update_auction_details(p_auction_id uuid, p_title text, p_description text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+BEGIN
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id FOR UPDATE;
+
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.seller_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the seller can edit this auction';
+  END IF;
+
+  IF auction_record.status NOT IN ('draft', 'active') THEN
+    RAISE EXCEPTION 'Only upcoming or running auctions can be edited';
+  END IF;
+
+  IF COALESCE(trim(p_title), '') = '' THEN
+    RAISE EXCEPTION 'A title is required';
+  END IF;
+
+  UPDATE auctions
+  SET
+    title = trim(p_title),
+    description = COALESCE(p_description, '')
+  WHERE id = p_auction_id;
+END;
+$$;
+
+-- Pricing is part of what bidders agreed to, so it is frozen by the first bid
+CREATE OR REPLACE FUNCTION update_auction_pricing(
+  p_auction_id uuid,
+  p_starting_price numeric,
+  p_bid_increment numeric,
+  p_buy_now_price numeric DEFAULT NULL,
+  p_reserve_price numeric DEFAULT NULL,
+  p_floor_price numeric DEFAULT NULL,
+  p_price_decrement numeric DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  repriced auctions%ROWTYPE;
+BEGIN
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id FOR UPDATE;
+
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.seller_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the seller can edit this auction';
+  END IF;
+
+  IF auction_record.status NOT IN ('draft', 'active') THEN
+    RAISE EXCEPTION 'Only upcoming or running auctions can be edited';
+  END IF;
+
+  -- Sealed auctions keep their leader hidden, so look at the bids themselves
+  IF EXISTS (SELECT 1 FROM bids WHERE auction_id = p_auction_id AND retracted_at IS NULL) THEN
+    RAISE EXCEPTION 'Pricing cannot be changed once bidding has started';
+  END IF;
+
+  IF p_starting_price IS NULL OR p_starting_price <= 0 OR p_bid_increment IS NULL OR p_bid_increment <= 0 THEN
+    RAISE EXCEPTION 'The starting price and bid increment must be above zero';
+  END IF;
+
+  IF p_reserve_price IS NOT NULL THEN
+    -- A Dutch floor already is the lowest price the seller accepts
+    IF auction_record.auction_type IN ('dutch', 'reverse') THEN
+      RAISE EXCEPTION 'Dutch and reverse auctions cannot have a reserve price';
+    END IF;
+
+    IF p_reserve_price < p_starting_price THEN
+      RAISE EXCEPTION 'Reserve price cannot be lower than the starting price';
+    END IF;
+  END IF;
+
+  IF p_buy_now_price IS NOT NULL THEN
+    IF auction_record.auction_type != 'english' OR auction_record.quantity > 1 THEN
+      RAISE EXCEPTION 'Buy It Now is only available for single-item ascending auctions';
+    END IF;
+
+    IF p_buy_now_price <= GREATEST(p_starting_price, COALESCE(p_reserve_price, 0)) THEN
+      RAISE EXCEPTION 'Buy It Now price must be above the starting and reserve prices';
+    END IF;
+  END IF;
+
+  IF auction_record.auction_type = 'dutch' THEN
+    repriced := auction_record;
+    repriced.starting_price := p_starting_price;
+    repriced.floor_price := COALESCE(p_floor_price, auction_record.floor_price);
+    repriced.price_decrement := COALESCE(p_price_decrement, auction_record.price_decrement);
+
+    IF repriced.floor_price >= repriced.starting_price THEN
+      RAISE EXCEPTION 'The floor price must be below the starting price';
+    END IF;
+
+    IF repriced.price_decrement > repriced.starting_price - repriced.floor_price THEN
+      RAISE EXCEPTION 'The price drop cannot be larger than the gap between the starting and floor prices';
+    END IF;
+
+    -- Buyers may be waiting on the price they were shown, so a running clock only moves down
+    IF auction_record.status = 'active' AND dutch_current_price(repriced) > dutch_current_price(auction_record) THEN
+      RAISE EXCEPTION 'A running Dutch auction cannot go above its current price of %', dutch_current_price(auction_record);
+    END IF;
+  END IF;
+
+  UPDATE auctions
+  SET
+    starting_price = p_starting_price,
+    bid_increment = p_bid_increment,
+    buy_now_price = p_buy_now_price,
+    floor_price = CASE WHEN auction_type = 'dutch' THEN COALESCE(p_floor_price, floor_price) END,
+    price_decrement = CASE WHEN auction_type = 'dutch' THEN COALESCE(p_price_decrement, price_decrement) END,
+    -- Nobody has bid, so nothing carries over from the old prices
+    highest_bid = 0,
+    highest_bidder_id = NULL
+  WHERE id = p_auction_id;
+
+  IF p_reserve_price IS NULL THEN
+    DELETE FROM auction_reserves WHERE auction_id = p_auction_id;
+
+    UPDATE auctions
+    SET has_reserve = false, reserve_met = false
+    WHERE id = p_auction_id;
+  ELSE
+    -- sync_auction_reserve() keeps the public flags in step
+    INSERT INTO auction_reserves (auction_id, reserve_price)
+    VALUES (p_auction_id, p_reserve_price)
+    ON CONFLICT (auction_id) DO UPDATE SET reserve_price = EXCLUDED.reserve_price;
+  END IF;
+END;
+$$;
+
+-- Call an auction off, bids or not
+CREATE OR REPLACE FUNCTION cancel_auction(p_auction_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+BEGIN
+  -- Lock the auction so no bid lands while it is being cancelled
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id FOR UPDATE;
+
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.seller_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the seller can cancel this auction';
+  END IF;
+
+  IF auction_record.status NOT IN ('draft', 'active') THEN
+    RAISE EXCEPTION 'Only upcoming or running auctions can be cancelled';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to cancel an auction';
+  END IF;
+
+  UPDATE auctions
+  SET
+    status = 'cancelled',
+    cancelled_at = now(),
+    cancellation_reason = trim(p_reason)
+  WHERE id = p_auction_id;
+
+  -- Ceilings would otherwise keep bidding if the auction came back
+  DELETE FROM max_bids WHERE auction_id = p_auction_id;
+
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT DISTINCT
+    bids.bidder_id,
+    p_auction_id,
+    'auction_cancelled'::notification_type,
+    'The auction "' || auction_record.title || '" was cancelled by the seller: ' || trim(p_reason)
+  FROM bids
+  WHERE bids.auction_id = p_auction_id;
+END;
+$$;
+
+-- Close a running auction nobody has bid on
+CREATE OR REPLACE FUNCTION end_auction_early(p_auction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+BEGIN
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id FOR UPDATE;
+
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.seller_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the seller can end this auction';
+  END IF;
+
+  IF auction_record.status != 'active' OR auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Only running auctions can be ended early';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM bids WHERE auction_id = p_auction_id AND retracted_at IS NULL) THEN
+    RAISE EXCEPTION 'Auctions with bids cannot be ended early, cancel it instead';
+  END IF;
+
+  UPDATE auctions
+  SET
+    status = 'ended',
+    end_time = now(),
+    result = 'no_bids'
+  WHERE id = p_auction_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_auction_details(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_auction_pricing(uuid, numeric, numeric, numeric, numeric, numeric, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_auction(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION end_auction_early(uuid) TO authenticated;
@@ -0,0 +1,12 @@
+/*
+  # Scheduled Auction Status
+
+  Adds the scheduled status on its own so the value is committed before
+  `20250817230100_auction_drafts.sql` uses it.
+
+  1. Changes
+    - `auction_status` gains `scheduled`, a published auction waiting for its
+      start time. `draft` now only means an unpublished listing.
+*/
+
+ALTER TYPE auction_status ADD VALUE IF NOT EXISTS 'scheduled' BEFORE 'active';
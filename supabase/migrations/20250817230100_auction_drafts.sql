@@ -0,0 +1,566 @@
+/*
+  # Auction Drafts
+
+  1. Changes
+    - Existing `draft` auctions were waiting for their start time, they become `scheduled`
+    - `starting_price`, `bid_increment`, `start_time` and `end_time` may be left
+      empty while an auction is a draft, `auctions_publishable_check` requires
+      them everywhere else
+    - `auctions_dutch_schedule_check` only applies once a Dutch auction is published
+
+  2. Functions
+    - `publish_auction()` validates a draft and moves it to `scheduled`, or
+      straight to `active` when its start time has passed
+    - `update_auction_status()` only starts `scheduled` auctions, drafts are never
+      activated or ended
+    - `update_auction_details()`, `update_auction_pricing()` and `cancel_auction()`
+      apply to scheduled and running auctions, drafts are edited directly
+    - `save_draft_details()` replaces a draft's reserve and increment tiers in one
+      transaction, so a save that fails part way keeps what was stored before
+
+  3. Security
+    - Drafts are only visible to their seller
+    - New auctions are always created as drafts, sellers may edit, delete and
+      remove the reserve of their own drafts
+    - `save_draft_details()` runs as the caller, so the same policies apply to it
+*/
+
+UPDATE auctions SET status = 'scheduled' WHERE status = 'draft';
+
+ALTER TABLE auctions
+  ALTER COLUMN starting_price DROP NOT NULL,
+  ALTER COLUMN bid_increment DROP NOT NULL,
+  ALTER COLUMN start_time DROP NOT NULL,
+  ALTER COLUMN end_time DROP NOT NULL;
+
+ALTER TABLE auctions
+  ADD CONSTRAINT auctions_publishable_check
+  CHECK (
+    status = 'draft' OR (
+      starting_price IS NOT NULL
+      AND bid_increment IS NOT NULL
+      AND start_time IS NOT NULL
+      AND end_time IS NOT NULL
+    )
+  );
+
+ALTER TABLE auctions DROP CONSTRAINT IF EXISTS auctions_dutch_schedule_check;
+
+ALTER TABLE auctions
+  ADD CONSTRAINT auctions_dutch_schedule_check
+  CHECK (
+    auction_type != 'dutch' OR status = 'draft' OR (
+      floor_price IS NOT NULL
+      AND price_decrement IS NOT NULL
+      AND decrement_interval_minutes IS NOT NULL
+      AND floor_price < starting_price
+    )
+  );
+
+DROP POLICY IF EXISTS "Auctions are publicly readable" ON auctions;
+DROP POLICY IF EXISTS "Users can create auctions" ON auctions;
+
+CREATE POLICY "Published auctions are publicly readable"
+  ON auctions FOR SELECT
+  TO authenticated
+  USING (status != 'draft' OR auth.uid() = seller_id);
+
+CREATE POLICY "Users can create draft auctions"
+  ON auctions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = seller_id AND status = 'draft');
+
+CREATE POLICY "Sellers can edit their drafts"
+  ON auctions FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = seller_id AND status = 'draft')
+  WITH CHECK (auth.uid() = seller_id AND status = 'draft');
+
+CREATE POLICY "Sellers can delete their drafts"
+  ON auctions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = seller_id AND status = 'draft');
+
+CREATE POLICY "Sellers can remove reserves from drafts"
+  ON auction_reserves FOR DELETE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM auctions
+    WHERE auctions.id = auction_id
+      AND auctions.seller_id = auth.uid()
+      AND auctions.status = 'draft'
+  ));
+
+-- Replace everything stored alongside a draft at once
+CREATE OR REPLACE FUNCTION save_draft_details(
+  p_auction_id uuid,
+  p_reserve_price numeric,
+  p_tiers jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM auctions
+    WHERE id = p_auction_id AND seller_id = auth.uid() AND status = 'draft'
+  ) THEN
+    RAISE EXCEPTION 'Draft not found';
+  END IF;
+
+  IF p_reserve_price IS NULL THEN
+    DELETE FROM auction_reserves WHERE auction_id = p_auction_id;
+  ELSE
+    INSERT INTO auction_reserves (auction_id, reserve_price)
+    VALUES (p_auction_id, p_reserve_price)
+    ON CONFLICT (auction_id) DO UPDATE SET reserve_price = EXCLUDED.reserve_price;
+  END IF;
+
+  DELETE FROM bid_increment_tiers WHERE auction_id = p_auction_id;
+
+  INSERT INTO bid_increment_tiers (auction_id, min_price, increment)
+  SELECT p_auction_id, tier.min_price, tier.increment
+  FROM jsonb_to_recordset(COALESCE(p_tiers, '[]')) AS tier(min_price numeric, increment numeric);
+END;
+$$;
+
+-- Validate a draft and put it up for auction
+CREATE OR REPLACE FUNCTION publish_auction(p_auction_id uuid)
+RETURNS auction_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  reserve NUMERIC(10,2);
+  opens_at TIMESTAMPTZ;
+  new_status auction_status;
+BEGIN
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id FOR UPDATE;
+
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.seller_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the seller can publish this auction';
+  END IF;
+
+  IF auction_record.status != 'draft' THEN
+    RAISE EXCEPTION 'Only drafts can be published';
+  END IF;
+
+  IF COALESCE(trim(auction_record.title), '') = '' OR COALESCE(trim(auction_record.description), '') = '' THEN
+    RAISE EXCEPTION 'A title and description are required';
+  END IF;
+
+  IF auction_record.starting_price IS NULL OR auction_record.bid_increment IS NULL THEN
+    RAISE EXCEPTION 'A starting price and bid increment are required';
+  END IF;
+
+  IF auction_record.start_time IS NULL OR auction_record.end_time IS NULL THEN
+    RAISE EXCEPTION 'A start and end time are required';
+  END IF;
+
+  -- A start time in the past means start now, so a Dutch clock starts at its full price
+  opens_at := GREATEST(auction_record.start_time, now());
+
+  IF auction_record.end_time <= opens_at THEN
+    RAISE EXCEPTION 'The auction must end after it starts';
+  END IF;
+
+  IF auction_record.auction_type = 'dutch' AND (
+    auction_record.floor_price IS NULL
+    OR auction_record.price_decrement IS NULL
+    OR auction_record.decrement_interval_minutes IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Dutch auctions need a floor price, price drop and drop interval';
+  END IF;
+
+  SELECT reserve_price INTO reserve FROM auction_reserves WHERE auction_id = p_auction_id;
+
+  IF reserve IS NOT NULL AND reserve < auction_record.starting_price THEN
+    RAISE EXCEPTION 'Reserve price cannot be lower than the starting price';
+  END IF;
+
+  IF auction_record.buy_now_price IS NOT NULL AND auction_record.buy_now_price <= GREATEST(auction_record.starting_price, COALESCE(reserve, 0)) THEN
+    RAISE EXCEPTION 'Buy It Now price must be above the starting and reserve prices';
+  END IF;
+
+  new_status := CASE WHEN opens_at <= now() THEN 'active' ELSE 'scheduled' END;
+
+  -- Drafts are editable by their seller, so nothing about bidding state is trusted
+  UPDATE auctions
+  SET
+    status = new_status,
+    start_time = opens_at,
+    highest_bid = 0,
+    highest_bidder_id = NULL,
+    extended_minutes = 0,
+    has_reserve = reserve IS NOT NULL,
+    reserve_met = false,
+    result = NULL,
+    cancelled_at = NULL,
+    cancellation_reason = NULL
+  WHERE id = p_auction_id;
+
+  RETURN new_status;
+END;
+$$;
+
+-- Start scheduled auctions and close running ones
+CREATE OR REPLACE FUNCTION update_auction_status()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Overlapping runs would race on the same transitions, the later one simply skips
+  IF NOT pg_try_advisory_xact_lock(hashtext('update_auction_status')) THEN
+    RETURN;
+  END IF;
+
+  -- Start scheduled auctions, drafts wait for their seller to publish them
+  UPDATE auctions 
+  SET status = 'active'
+  WHERE status = 'scheduled' 
+    AND start_time <= now() 
+    AND end_time > now();
+    
+  -- Reveal sealed auctions: each bidder's latest bid counts, earliest wins ties
+  WITH latest AS (
+    SELECT DISTINCT ON (bids.auction_id, bids.bidder_id)
+      bids.auction_id, bids.bidder_id, bids.amount, bids.created_at
+    FROM bids
+    JOIN auctions ON auctions.id = bids.auction_id
+    WHERE auctions.auction_type IN ('sealed_first_price', 'sealed_second_price')
+      AND auctions.status = 'active'
+      AND auctions.end_time <= now()
+      AND bids.retracted_at IS NULL
+    ORDER BY bids.auction_id, bids.bidder_id, bids.created_at DESC
+  ),
+  ranked AS (
+    SELECT
+      latest.*,
+      row_number() OVER w AS position,
+      lead(latest.amount) OVER w AS runner_up_amount
+    FROM latest
+    WINDOW w AS (PARTITION BY latest.auction_id ORDER BY latest.amount DESC, latest.created_at ASC)
+  )
+  UPDATE auctions
+  SET
+    highest_bidder_id = ranked.bidder_id,
+    highest_bid = CASE auctions.auction_type
+      WHEN 'sealed_first_price' THEN ranked.amount
+      -- Second price: runner-up plus one increment, lifted to a reserve the winner covers
+      ELSE LEAST(
+        ranked.amount,
+        GREATEST(
+          COALESCE(ranked.runner_up_amount + bid_increment_at(auctions, ranked.runner_up_amount), auctions.starting_price),
+          COALESCE(auction_reserves.reserve_price, 0)
+        )
+      )
+    END,
+    reserve_met = ranked.amount >= COALESCE(auction_reserves.reserve_price, 0)
+  FROM ranked
+  LEFT JOIN auction_reserves ON auction_reserves.auction_id = ranked.auction_id
+  WHERE auctions.id = ranked.auction_id
+    AND ranked.position = 1;
+
+  -- Allocate lots closing now at their clearing price, if the reserve allows a sale
+  WITH allocations AS (
+    INSERT INTO lot_allocations (auction_id, bidder_id, bid_id, quantity, unit_price)
+    SELECT auctions.id, allocation.bidder_id, allocation.bid_id, allocation.allocated, auctions.highest_bid
+    FROM auctions
+    CROSS JOIN LATERAL lot_allocation(auctions.id) AS allocation
+    WHERE auctions.quantity > 1
+      AND auctions.status = 'active'
+      AND auctions.end_time <= now()
+      AND (NOT auctions.has_reserve OR auctions.reserve_met)
+    ON CONFLICT (auction_id, bidder_id) DO NOTHING
+    RETURNING *
+  )
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT
+    allocations.bidder_id,
+    allocations.auction_id,
+    'auction_ended',
+    'You won ' || allocations.quantity || ' of ' || auctions.quantity || ' units of "' || auctions.title ||
+      '" at $' || allocations.unit_price || ' each'
+  FROM allocations
+  JOIN auctions ON auctions.id = allocations.auction_id;
+
+  -- Update auctions that should be ended, recording how they ended
+  WITH ended AS (
+    UPDATE auctions
+    SET
+      status = 'ended',
+      result = CASE
+        WHEN highest_bidder_id IS NULL THEN 'no_bids'
+        WHEN has_reserve AND NOT reserve_met THEN 'reserve_not_met'
+        ELSE 'sold'
+      END::auction_result
+    WHERE status IN ('scheduled', 'active')
+      AND end_time <= now()
+    RETURNING *
+  ),
+  -- Sold auctions wait for the seller to accept, reject or counter the top bid
+  offers AS (
+    INSERT INTO auction_offers (auction_id, seller_id, bidder_id, bid_amount)
+    SELECT id, seller_id, highest_bidder_id, highest_bid
+    FROM ended
+    WHERE result = 'sold'
+      AND quantity = 1
+    RETURNING auction_id
+  )
+  -- Tell the seller, the top bidder and everyone who lost how the auction ended
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT recipient.user_id, ended.id, 'auction_ended'::notification_type, recipient.message
+  FROM ended
+  CROSS JOIN LATERAL (
+    VALUES
+      (ended.seller_id, CASE ended.result
+        WHEN 'reserve_not_met' THEN 'Your auction "' || ended.title || '" ended without meeting your reserve price. Top bid: $' || ended.highest_bid
+        WHEN 'sold' THEN CASE
+          WHEN ended.quantity > 1 THEN 'Your lot "' || ended.title || '" sold at a clearing price of $' || ended.highest_bid || ' per unit'
+          ELSE 'Your auction "' || ended.title || '" ended with a top bid of $' || ended.highest_bid || '. Accept, reject or counter it.'
+        END
+      END),
+      (ended.highest_bidder_id, CASE ended.result
+        WHEN 'reserve_not_met' THEN 'The auction "' || ended.title || '" ended without meeting the reserve price, so your bid of $' || ended.highest_bid || ' did not win'
+        -- Lot winners hear about their units from the allocation above
+        WHEN 'sold' THEN CASE
+          WHEN ended.quantity = 1 THEN 'You are the top bidder on "' || ended.title || '" at $' || ended.highest_bid || '. The seller will confirm the sale.'
+        END
+      END)
+  ) AS recipient(user_id, message)
+  WHERE recipient.user_id IS NOT NULL
+    AND recipient.message IS NOT NULL
+  UNION ALL
+  SELECT DISTINCT
+    bids.bidder_id,
+    ended.id,
+    'auction_ended'::notification_type,
+    'The auction "' || ended.title || '" has ended and your bid did not win'
+  FROM ended
+  JOIN bids ON bids.auction_id = ended.id
+  WHERE bids.retracted_at IS NULL
+    AND bids.bidder_id IS DISTINCT FROM ended.highest_bidder_id
+    -- Lot winners other than the top bidder were told about their units above
+    AND NOT EXISTS (
+      SELECT 1 FROM lot_allocations
+      WHERE lot_allocations.auction_id = ended.id
+        AND lot_allocations.bidder_id = bids.bidder_id
+    );
+
+  -- Counter offers the bidder never answered lapse
+  WITH expired AS (
+    UPDATE auction_offers
+    SET status = 'counter_expired', updated_at = now()
+    WHERE status = 'countered'
+      AND counter_expires_at <= now()
+    RETURNING *
+  )
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT
+    expired.seller_id,
+    expired.auction_id,
+    'bid_rejected',
+    'Your counter offer of $' || expired.counter_amount || ' expired without a response'
+  FROM expired;
+END;
+$$;
+
+-- Seller edits of published auctions, drafts are edited directly
+CREATE OR REPLACE FUNCTION update_auction_details(p_auction_id uuid, p_title text, p_description text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+BEGIN
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id FOR UPDATE;
+
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.seller_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the seller can edit this auction';
+  END IF;
+
+  IF auction_record.status NOT IN ('scheduled', 'active') THEN
+    RAISE EXCEPTION 'Only upcoming or running auctions can be edited';
+  END IF;
+
+  IF COALESCE(trim(p_title), '') = '' THEN
+    RAISE EXCEPTION 'A title is required';
+  END IF;
+
+  UPDATE auctions
+  SET
+    title = trim(p_title),
+    description = COALESCE(p_description, '')
+  WHERE id = p_auction_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_auction_pricing(
+  p_auction_id uuid,
+  p_starting_price numeric,
+  p_bid_increment numeric,
+  p_buy_now_price numeric DEFAULT NULL,
+  p_reserve_price numeric DEFAULT NULL,
+  p_floor_price numeric DEFAULT NULL,
+  p_price_decrement numeric DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  repriced auctions%ROWTYPE;
+BEGIN
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id FOR UPDATE;
+
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.seller_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the seller can edit this auction';
+  END IF;
+
+  IF auction_record.status NOT IN ('scheduled', 'active') THEN
+    RAISE EXCEPTION 'Only upcoming or running auctions can be edited';
+  END IF;
+
+  -- Sealed auctions keep their leader hidden, so look at the bids themselves
+  IF EXISTS (SELECT 1 FROM bids WHERE auction_id = p_auction_id AND retracted_at IS NULL) THEN
+    RAISE EXCEPTION 'Pricing cannot be changed once bidding has started';
+  END IF;
+
+  IF p_starting_price IS NULL OR p_starting_price <= 0 OR p_bid_increment IS NULL OR p_bid_increment <= 0 THEN
+    RAISE EXCEPTION 'The starting price and bid increment must be above zero';
+  END IF;
+
+  IF p_reserve_price IS NOT NULL THEN
+    -- A Dutch floor already is the lowest price the seller accepts
+    IF auction_record.auction_type IN ('dutch', 'reverse') THEN
+      RAISE EXCEPTION 'Dutch and reverse auctions cannot have a reserve price';
+    END IF;
+
+    IF p_reserve_price < p_starting_price THEN
+      RAISE EXCEPTION 'Reserve price cannot be lower than the starting price';
+    END IF;
+  END IF;
+
+  IF p_buy_now_price IS NOT NULL THEN
+    IF auction_record.auction_type != 'english' OR auction_record.quantity > 1 THEN
+      RAISE EXCEPTION 'Buy It Now is only available for single-item ascending auctions';
+    END IF;
+
+    IF p_buy_now_price <= GREATEST(p_starting_price, COALESCE(p_reserve_price, 0)) THEN
+      RAISE EXCEPTION 'Buy It Now price must be above the starting and reserve prices';
+    END IF;
+  END IF;
+
+  IF auction_record.auction_type = 'dutch' THEN
+    repriced := auction_record;
+    repriced.starting_price := p_starting_price;
+    repriced.floor_price := COALESCE(p_floor_price, auction_record.floor_price);
+    repriced.price_decrement := COALESCE(p_price_decrement, auction_record.price_decrement);
+
+    IF repriced.floor_price >= repriced.starting_price THEN
+      RAISE EXCEPTION 'The floor price must be below the starting price';
+    END IF;
+
+    IF repriced.price_decrement > repriced.starting_price - repriced.floor_price THEN
+      RAISE EXCEPTION 'The price drop cannot be larger than the gap between the starting and floor prices';
+    END IF;
+
+    -- Buyers may be waiting on the price they were shown, so a running clock only moves down
+    IF auction_record.status = 'active' AND dutch_current_price(repriced) > dutch_current_price(auction_record) THEN
+      RAISE EXCEPTION 'A running Dutch auction cannot go above its current price of %', dutch_current_price(auction_record);
+    END IF;
+  END IF;
+
+  UPDATE auctions
+  SET
+    starting_price = p_starting_price,
+    bid_increment = p_bid_increment,
+    buy_now_price = p_buy_now_price,
+    floor_price = CASE WHEN auction_type = 'dutch' THEN COALESCE(p_floor_price, floor_price) END,
+    price_decrement = CASE WHEN auction_type = 'dutch' THEN COALESCE(p_price_decrement, price_decrement) END,
+    -- Nobody has bid, so nothing carries over from the old prices
+    highest_bid = 0,
+    highest_bidder_id = NULL
+  WHERE id = p_auction_id;
+
+  IF p_reserve_price IS NULL THEN
+    DELETE FROM auction_reserves WHERE auction_id = p_auction_id;
+
+    UPDATE auctions
+    SET has_reserve = false, reserve_met = false
+    WHERE id = p_auction_id;
+  ELSE
+    -- sync_auction_reserve() keeps the public flags in step
+    INSERT INTO auction_reserves (auction_id, reserve_price)
+    VALUES (p_auction_id, p_reserve_price)
+    ON CONFLICT (auction_id) DO UPDATE SET reserve_price = EXCLUDED.reserve_price;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_auction(p_auction_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+BEGIN
+  -- Lock the auction so no bid lands while it is being cancelled
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id FOR UPDATE;
+
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.seller_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the seller can cancel this auction';
+  END IF;
+
+  IF auction_record.status NOT IN ('scheduled', 'active') THEN
+    RAISE EXCEPTION 'Only upcoming or running auctions can be cancelled';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to cancel an auction';
+  END IF;
+
+  UPDATE auctions
+  SET
+    status = 'cancelled',
+    cancelled_at = now(),
+    cancellation_reason = trim(p_reason)
+  WHERE id = p_auction_id;
+
+  -- Ceilings would otherwise keep bidding if the auction came back
+  DELETE FROM max_bids WHERE auction_id = p_auction_id;
+
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT DISTINCT
+    bids.bidder_id,
+    p_auction_id,
+    'auction_cancelled'::notification_type,
+    'The auction "' || auction_record.title || '" was cancelled by the seller: ' || trim(p_reason)
+  FROM bids
+  WHERE bids.auction_id = p_auction_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_draft_details(uuid, numeric, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION publish_auction(uuid) TO authenticated;
@@ -0,0 +1,526 @@
+/*
+  # Relisting and Duplicating Auctions
+
+  1. Changes
+    - `auctions.relisted_from` (uuid, references auctions) links a relisted item
+      to the listing it replaces, so its earlier history stays reachable
+    - `auctions.auto_relist_limit` (integer) - how many times an auction that
+      gets no bids is put up again automatically
+    - `auctions.relist_count` (integer) - how many automatic relists led to this listing
+
+  2. Functions
+    - `copy_auction()` copies a listing with its reserve and increment tiers
+    - `relist_auction()` puts an unsold item up again as a draft linked to the original
+    - `duplicate_auction()` starts an unlinked draft from any of the seller's auctions
+    - `update_auction_status()` relists auctions that closed without bids until
+      their limit is used up
+    - `end_auction_early()` stops automatic relisting of the auction it ends
+    - `publish_auction()` resets the relist count and drops a link to another
+      seller's auction
+
+  3. Security
+    - `copy_auction()` is internal and revoked from client roles, sellers go through
+      `relist_auction()` and `duplicate_auction()`
+    - `relisted_from` and `relist_count` are only set by relisting, a trigger
+      rejects values written by clients through the draft policies
+*/
+
+ALTER TABLE auctions
+  ADD COLUMN IF NOT EXISTS relisted_from uuid REFERENCES auctions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS auto_relist_limit integer NOT NULL DEFAULT 0 CHECK (auto_relist_limit BETWEEN 0 AND 10),
+  ADD COLUMN IF NOT EXISTS relist_count integer NOT NULL DEFAULT 0 CHECK (relist_count >= 0);
+
+CREATE INDEX IF NOT EXISTS auctions_relisted_from_idx ON auctions(relisted_from);
+
+-- Drafts are written by their seller, who must not claim to relist someone else's auction
+CREATE OR REPLACE FUNCTION guard_auction_relist_links()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF COALESCE(current_setting('app.relisting', true), 'off') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.relisted_from IS NOT NULL OR NEW.relist_count != 0 THEN
+      RAISE EXCEPTION 'Relisted auctions must be created through relist_auction()';
+    END IF;
+  -- Deleting the original clears the link, which is the only change allowed here
+  ELSIF (NEW.relisted_from IS NOT NULL AND NEW.relisted_from IS DISTINCT FROM OLD.relisted_from)
+    OR NEW.relist_count != OLD.relist_count THEN
+    RAISE EXCEPTION 'Relist links cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auction_relist_links_written
+  BEFORE INSERT OR UPDATE OF relisted_from, relist_count ON auctions
+  FOR EACH ROW EXECUTE FUNCTION guard_auction_relist_links();
+
+-- Copy a listing with its reserve and increment tiers, keeping its duration
+CREATE OR REPLACE FUNCTION copy_auction(
+  p_source_id uuid,
+  p_status auction_status,
+  p_start_time timestamptz,
+  p_relisted_from uuid,
+  p_relist_count integer
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  source auctions%ROWTYPE;
+  new_auction_id UUID;
+BEGIN
+  -- Loaded here rather than passed in, so callers can only copy a stored listing
+  SELECT * INTO source FROM auctions WHERE id = p_source_id;
+
+  IF source IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  INSERT INTO auctions (
+    seller_id, title, description, starting_price, bid_increment, start_time, end_time, status,
+    soft_close_window_minutes, soft_close_extension_minutes, soft_close_max_extension_minutes,
+    buy_now_price, buy_now_cutoff_percent, auction_type, floor_price, price_decrement,
+    decrement_interval_minutes, use_increment_tiers, quantity,
+    relisted_from, relist_count, auto_relist_limit
+  )
+  VALUES (
+    source.seller_id, source.title, source.description, source.starting_price, source.bid_increment,
+    p_start_time, p_start_time + (source.end_time - source.start_time - make_interval(mins => source.extended_minutes)),
+    p_status,
+    source.soft_close_window_minutes, source.soft_close_extension_minutes, source.soft_close_max_extension_minutes,
+    source.buy_now_price, source.buy_now_cutoff_percent, source.auction_type, source.floor_price, source.price_decrement,
+    source.decrement_interval_minutes, source.use_increment_tiers, source.quantity,
+    p_relisted_from, p_relist_count, source.auto_relist_limit
+  )
+  RETURNING id INTO new_auction_id;
+
+  INSERT INTO auction_reserves (auction_id, reserve_price)
+  SELECT new_auction_id, reserve_price
+  FROM auction_reserves
+  WHERE auction_id = source.id;
+
+  INSERT INTO bid_increment_tiers (auction_id, min_price, increment)
+  SELECT new_auction_id, min_price, increment
+  FROM bid_increment_tiers
+  WHERE auction_id = source.id;
+
+  RETURN new_auction_id;
+END;
+$$;
+
+-- Put an unsold item up again as a draft linked to the original
+CREATE OR REPLACE FUNCTION relist_auction(p_auction_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  existing_draft_id UUID;
+  new_auction_id UUID;
+BEGIN
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id;
+
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.seller_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the seller can relist this auction';
+  END IF;
+
+  -- Relisting again resumes the draft from last time
+  SELECT id INTO existing_draft_id
+  FROM auctions
+  WHERE relisted_from = p_auction_id AND seller_id = auction_record.seller_id AND status = 'draft'
+  LIMIT 1;
+
+  IF existing_draft_id IS NOT NULL THEN
+    RETURN existing_draft_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM auctions WHERE relisted_from = p_auction_id AND seller_id = auction_record.seller_id) THEN
+    RAISE EXCEPTION 'This auction has already been relisted';
+  END IF;
+
+  IF auction_record.status NOT IN ('ended', 'cancelled') THEN
+    RAISE EXCEPTION 'Only ended or cancelled auctions can be relisted';
+  END IF;
+
+  -- Sold means the seller accepted a bid, or has yet to decide on one
+  IF auction_record.result = 'sold' AND NOT EXISTS (
+    SELECT 1 FROM auction_offers
+    WHERE auction_id = p_auction_id
+      AND status IN ('rejected', 'counter_declined', 'counter_expired')
+  ) THEN
+    RAISE EXCEPTION 'Only unsold items can be relisted, duplicate the auction instead';
+  END IF;
+
+  PERFORM set_config('app.relisting', 'on', true);
+  new_auction_id := copy_auction(p_auction_id, 'draft', date_trunc('hour', now()) + interval '1 hour', p_auction_id, 0);
+  PERFORM set_config('app.relisting', 'off', true);
+
+  RETURN new_auction_id;
+END;
+$$;
+
+-- Start a new listing from any of the seller's auctions
+CREATE OR REPLACE FUNCTION duplicate_auction(p_auction_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+BEGIN
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id;
+
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.seller_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the seller can duplicate this auction';
+  END IF;
+
+  IF auction_record.start_time IS NULL OR auction_record.end_time IS NULL THEN
+    RAISE EXCEPTION 'Finish the draft before duplicating it';
+  END IF;
+
+  RETURN copy_auction(p_auction_id, 'draft', date_trunc('hour', now()) + interval '1 hour', NULL, 0);
+END;
+$$;
+
+-- Validate a draft and put it up for auction
+CREATE OR REPLACE FUNCTION publish_auction(p_auction_id uuid)
+RETURNS auction_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+  reserve NUMERIC(10,2);
+  opens_at TIMESTAMPTZ;
+  new_status auction_status;
+BEGIN
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id FOR UPDATE;
+
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.seller_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the seller can publish this auction';
+  END IF;
+
+  IF auction_record.status != 'draft' THEN
+    RAISE EXCEPTION 'Only drafts can be published';
+  END IF;
+
+  IF COALESCE(trim(auction_record.title), '') = '' OR COALESCE(trim(auction_record.description), '') = '' THEN
+    RAISE EXCEPTION 'A title and description are required';
+  END IF;
+
+  IF auction_record.starting_price IS NULL OR auction_record.bid_increment IS NULL THEN
+    RAISE EXCEPTION 'A starting price and bid increment are required';
+  END IF;
+
+  IF auction_record.start_time IS NULL OR auction_record.end_time IS NULL THEN
+    RAISE EXCEPTION 'A start and end time are required';
+  END IF;
+
+  -- A start time in the past means start now, so a Dutch clock starts at its full price
+  opens_at := GREATEST(auction_record.start_time, now());
+
+  IF auction_record.end_time <= opens_at THEN
+    RAISE EXCEPTION 'The auction must end after it starts';
+  END IF;
+
+  IF auction_record.auction_type = 'dutch' AND (
+    auction_record.floor_price IS NULL
+    OR auction_record.price_decrement IS NULL
+    OR auction_record.decrement_interval_minutes IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Dutch auctions need a floor price, price drop and drop interval';
+  END IF;
+
+  SELECT reserve_price INTO reserve FROM auction_reserves WHERE auction_id = p_auction_id;
+
+  IF reserve IS NOT NULL AND reserve < auction_record.starting_price THEN
+    RAISE EXCEPTION 'Reserve price cannot be lower than the starting price';
+  END IF;
+
+  IF auction_record.buy_now_price IS NOT NULL AND auction_record.buy_now_price <= GREATEST(auction_record.starting_price, COALESCE(reserve, 0)) THEN
+    RAISE EXCEPTION 'Buy It Now price must be above the starting and reserve prices';
+  END IF;
+
+  new_status := CASE WHEN opens_at <= now() THEN 'active' ELSE 'scheduled' END;
+
+  -- Drafts are editable by their seller, so nothing about bidding or relist state is trusted
+  PERFORM set_config('app.relisting', 'on', true);
+
+  UPDATE auctions
+  SET
+    status = new_status,
+    start_time = opens_at,
+    highest_bid = 0,
+    highest_bidder_id = NULL,
+    extended_minutes = 0,
+    has_reserve = reserve IS NOT NULL,
+    reserve_met = false,
+    result = NULL,
+    cancelled_at = NULL,
+    cancellation_reason = NULL,
+    relisted_from = CASE
+      WHEN EXISTS (
+        SELECT 1 FROM auctions AS original
+        WHERE original.id = auction_record.relisted_from AND original.seller_id = auction_record.seller_id
+      ) THEN auction_record.relisted_from
+    END,
+    relist_count = 0
+  WHERE id = p_auction_id;
+
+  PERFORM set_config('app.relisting', 'off', true);
+
+  RETURN new_status;
+END;
+$$;
+
+-- Start scheduled auctions, close running ones and relist the unsold
+CREATE OR REPLACE FUNCTION update_auction_status()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  unsold auctions%ROWTYPE;
+BEGIN
+  -- Overlapping runs would race on the same transitions, the later one simply skips
+  IF NOT pg_try_advisory_xact_lock(hashtext('update_auction_status')) THEN
+    RETURN;
+  END IF;
+
+  -- Start scheduled auctions, drafts wait for their seller to publish them
+  UPDATE auctions 
+  SET status = 'active'
+  WHERE status = 'scheduled' 
+    AND start_time <= now() 
+    AND end_time > now();
+    
+  -- Reveal sealed auctions: each bidder's latest bid counts, earliest wins ties
+  WITH latest AS (
+    SELECT DISTINCT ON (bids.auction_id, bids.bidder_id)
+      bids.auction_id, bids.bidder_id, bids.amount, bids.created_at
+    FROM bids
+    JOIN auctions ON auctions.id = bids.auction_id
+    WHERE auctions.auction_type IN ('sealed_first_price', 'sealed_second_price')
+      AND auctions.status = 'active'
+      AND auctions.end_time <= now()
+      AND bids.retracted_at IS NULL
+    ORDER BY bids.auction_id, bids.bidder_id, bids.created_at DESC
+  ),
+  ranked AS (
+    SELECT
+      latest.*,
+      row_number() OVER w AS position,
+      lead(latest.amount) OVER w AS runner_up_amount
+    FROM latest
+    WINDOW w AS (PARTITION BY latest.auction_id ORDER BY latest.amount DESC, latest.created_at ASC)
+  )
+  UPDATE auctions
+  SET
+    highest_bidder_id = ranked.bidder_id,
+    highest_bid = CASE auctions.auction_type
+      WHEN 'sealed_first_price' THEN ranked.amount
+      -- Second price: runner-up plus one increment, lifted to a reserve the winner covers
+      ELSE LEAST(
+        ranked.amount,
+        GREATEST(
+          COALESCE(ranked.runner_up_amount + bid_increment_at(auctions, ranked.runner_up_amount), auctions.starting_price),
+          COALESCE(auction_reserves.reserve_price, 0)
+        )
+      )
+    END,
+    reserve_met = ranked.amount >= COALESCE(auction_reserves.reserve_price, 0)
+  FROM ranked
+  LEFT JOIN auction_reserves ON auction_reserves.auction_id = ranked.auction_id
+  WHERE auctions.id = ranked.auction_id
+    AND ranked.position = 1;
+
+  -- Allocate lots closing now at their clearing price, if the reserve allows a sale
+  WITH allocations AS (
+    INSERT INTO lot_allocations (auction_id, bidder_id, bid_id, quantity, unit_price)
+    SELECT auctions.id, allocation.bidder_id, allocation.bid_id, allocation.allocated, auctions.highest_bid
+    FROM auctions
+    CROSS JOIN LATERAL lot_allocation(auctions.id) AS allocation
+    WHERE auctions.quantity > 1
+      AND auctions.status = 'active'
+      AND auctions.end_time <= now()
+      AND (NOT auctions.has_reserve OR auctions.reserve_met)
+    ON CONFLICT (auction_id, bidder_id) DO NOTHING
+    RETURNING *
+  )
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT
+    allocations.bidder_id,
+    allocations.auction_id,
+    'auction_ended',
+    'You won ' || allocations.quantity || ' of ' || auctions.quantity || ' units of "' || auctions.title ||
+      '" at $' || allocations.unit_price || ' each'
+  FROM allocations
+  JOIN auctions ON auctions.id = allocations.auction_id;
+
+  -- Update auctions that should be ended, recording how they ended
+  WITH ended AS (
+    UPDATE auctions
+    SET
+      status = 'ended',
+      result = CASE
+        WHEN highest_bidder_id IS NULL THEN 'no_bids'
+        WHEN has_reserve AND NOT reserve_met THEN 'reserve_not_met'
+        ELSE 'sold'
+      END::auction_result
+    WHERE status IN ('scheduled', 'active')
+      AND end_time <= now()
+    RETURNING *
+  ),
+  -- Sold auctions wait for the seller to accept, reject or counter the top bid
+  offers AS (
+    INSERT INTO auction_offers (auction_id, seller_id, bidder_id, bid_amount)
+    SELECT id, seller_id, highest_bidder_id, highest_bid
+    FROM ended
+    WHERE result = 'sold'
+      AND quantity = 1
+    RETURNING auction_id
+  )
+  -- Tell the seller, the top bidder and everyone who lost how the auction ended
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT recipient.user_id, ended.id, 'auction_ended'::notification_type, recipient.message
+  FROM ended
+  CROSS JOIN LATERAL (
+    VALUES
+      (ended.seller_id, CASE ended.result
+        WHEN 'reserve_not_met' THEN 'Your auction "' || ended.title || '" ended without meeting your reserve price. Top bid: $' || ended.highest_bid
+        WHEN 'sold' THEN CASE
+          WHEN ended.quantity > 1 THEN 'Your lot "' || ended.title || '" sold at a clearing price of $' || ended.highest_bid || ' per unit'
+          ELSE 'Your auction "' || ended.title || '" ended with a top bid of $' || ended.highest_bid || '. Accept, reject or counter it.'
+        END
+      END),
+      (ended.highest_bidder_id, CASE ended.result
+        WHEN 'reserve_not_met' THEN 'The auction "' || ended.title || '" ended without meeting the reserve price, so your bid of $' || ended.highest_bid || ' did not win'
+        -- Lot winners hear about their units from the allocation above
+        WHEN 'sold' THEN CASE
+          WHEN ended.quantity = 1 THEN 'You are the top bidder on "' || ended.title || '" at $' || ended.highest_bid || '. The seller will confirm the sale.'
+        END
+      END)
+  ) AS recipient(user_id, message)
+  WHERE recipient.user_id IS NOT NULL
+    AND recipient.message IS NOT NULL
+  UNION ALL
+  SELECT DISTINCT
+    bids.bidder_id,
+    ended.id,
+    'auction_ended'::notification_type,
+    'The auction "' || ended.title || '" has ended and your bid did not win'
+  FROM ended
+  JOIN bids ON bids.auction_id = ended.id
+  WHERE bids.retracted_at IS NULL
+    AND bids.bidder_id IS DISTINCT FROM ended.highest_bidder_id
+    -- Lot winners other than the top bidder were told about their units above
+    AND NOT EXISTS (
+      SELECT 1 FROM lot_allocations
+      WHERE lot_allocations.auction_id = ended.id
+        AND lot_allocations.bidder_id = bids.bidder_id
+    );
+
+  -- Relist auctions that closed without bids, as many times as the seller allowed
+  FOR unsold IN
+    SELECT * FROM auctions
+    WHERE status = 'ended'
+      AND result = 'no_bids'
+      AND relist_count < auto_relist_limit
+      AND NOT EXISTS (
+        SELECT 1 FROM auctions AS relisted
+        WHERE relisted.relisted_from = auctions.id AND relisted.seller_id = auctions.seller_id
+      )
+  LOOP
+    PERFORM set_config('app.relisting', 'on', true);
+    PERFORM copy_auction(unsold.id, 'active', now(), unsold.id, unsold.relist_count + 1);
+    PERFORM set_config('app.relisting', 'off', true);
+
+    INSERT INTO notifications (user_id, auction_id, type, message)
+    VALUES (
+      unsold.seller_id,
+      unsold.id,
+      'auction_ended',
+      'Your auction "' || unsold.title || '" ended without bids and was relisted automatically (' ||
+        (unsold.relist_count + 1) || ' of ' || unsold.auto_relist_limit || ')'
+    );
+  END LOOP;
+
+  -- Counter offers the bidder never answered lapse
+  WITH expired AS (
+    UPDATE auction_offers
+    SET status = 'counter_expired', updated_at = now()
+    WHERE status = 'countered'
+      AND counter_expires_at <= now()
+    RETURNING *
+  )
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT
+    expired.seller_id,
+    expired.auction_id,
+    'bid_rejected',
+    'Your counter offer of $' || expired.counter_amount || ' expired without a response'
+  FROM expired;
+END;
+$$;
+
+-- Close a running auction nobody has bid on
+CREATE OR REPLACE FUNCTION end_auction_early(p_auction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  auction_record auctions%ROWTYPE;
+BEGIN
+  SELECT * INTO auction_record FROM auctions WHERE id = p_auction_id FOR UPDATE;
+
+  IF auction_record IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  IF auction_record.seller_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the seller can end this auction';
+  END IF;
+
+  IF auction_record.status != 'active' OR auction_record.end_time <= now() THEN
+    RAISE EXCEPTION 'Only running auctions can be ended early';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM bids WHERE auction_id = p_auction_id AND retracted_at IS NULL) THEN
+    RAISE EXCEPTION 'Auctions with bids cannot be ended early, cancel it instead';
+  END IF;
+
+  -- The seller wanted it gone, so it is not relisted automatically either
+  UPDATE auctions
+  SET
+    status = 'ended',
+    end_time = now(),
+    result = 'no_bids',
+    auto_relist_limit = relist_count
+  WHERE id = p_auction_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION copy_auction(uuid, auction_status, timestamptz, uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION relist_auction(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION duplicate_auction(uuid) TO authenticated;
@@ -0,0 +1,68 @@
+/*
+  # Auction Search
+
+  1. Changes
+    - `auctions.search_vector` (tsvector) - generated from the title, weighted
+      above the description, with a GIN index
+
+  2. Functions
+    - `search_auctions()` returns one page of published auctions with their
+      seller's name, ranked by full-text relevance when there is a query and
+      newest first otherwise. The status filter matches the listing's tabs:
+      `upcoming`, `active`, `ended` or `all`.
+
+  3. Security
+    - Runs with the caller's permissions, drafts are never returned
+*/
+
+ALTER TABLE auctions
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS auctions_search_vector_idx ON auctions USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS auctions_status_created_at_idx ON auctions(status, created_at DESC);
+
+-- One page of search results, shaped like an auction row with its seller's profile
+CREATE OR REPLACE FUNCTION search_auctions(
+  p_query text DEFAULT NULL,
+  p_status text DEFAULT 'all',
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0
+)
+RETURNS SETOF jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (to_jsonb(auctions) - 'search_vector') || jsonb_build_object(
+      'profiles', jsonb_build_object('full_name', profiles.full_name, 'email', profiles.email),
+      'rank', matched.rank
+    )
+  FROM auctions
+  JOIN profiles ON profiles.id = auctions.seller_id
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN NULLIF(trim(p_query), '') IS NULL THEN 0
+      ELSE ts_rank(auctions.search_vector, websearch_to_tsquery('english', p_query))
+    END AS rank
+  ) AS matched
+  WHERE auctions.status != 'draft'
+    AND (
+      NULLIF(trim(p_query), '') IS NULL
+      OR auctions.search_vector @@ websearch_to_tsquery('english', p_query)
+    )
+    AND CASE p_status
+      WHEN 'upcoming' THEN auctions.status = 'scheduled'
+      WHEN 'active' THEN auctions.status = 'active' AND auctions.end_time > now()
+      WHEN 'ended' THEN auctions.status IN ('ended', 'cancelled') OR auctions.end_time <= now()
+      ELSE true
+    END
+  ORDER BY matched.rank DESC, auctions.created_at DESC, auctions.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_auctions(text, text, integer, integer) TO authenticated;
@@ -0,0 +1,261 @@
+/*
+  # Categories and Tags
+
+  1. New Tables
+    - `categories`
+      - `id` (uuid, primary key)
+      - `parent_id` (uuid, references categories) - null for top-level categories,
+        subcategories are deleted with their parent
+      - `name` (text)
+      - `slug` (text, unique)
+      - `position` (integer) - display order among siblings
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `auctions.category_id` (uuid, references categories) - cleared if the
+      category is deleted
+    - `auctions.tags` (text[]) - free-form lowercase tags chosen by the seller,
+      at most 10
+
+  3. Functions
+    - `category_descendants()` returns a category and everything beneath it
+    - `category_stats()` counts live auctions, all published auctions and bids
+      per category, rolled up so a parent includes its subcategories
+    - `search_auctions()` can be narrowed to a category and matches exact tags
+    - `copy_auction()` carries the category and tags over to relists and duplicates
+
+  4. Security
+    - Categories are readable by everyone, only admins can change them
+    - A category cannot be moved beneath one of its own subcategories
+*/
+
+-- Create categories table
+CREATE TABLE IF NOT EXISTS categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_id uuid REFERENCES categories(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  slug text NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  CHECK (parent_id IS DISTINCT FROM id)
+);
+
+CREATE INDEX IF NOT EXISTS categories_parent_id_idx ON categories(parent_id, position);
+
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Categories are publicly readable"
+  ON categories FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create categories"
+  ON categories FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update categories"
+  ON categories FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete categories"
+  ON categories FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+ALTER TABLE auctions
+  ADD COLUMN IF NOT EXISTS category_id uuid REFERENCES categories(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE auctions
+  ADD CONSTRAINT auctions_tags_check CHECK (cardinality(tags) <= 10);
+
+CREATE INDEX IF NOT EXISTS auctions_category_id_idx ON auctions(category_id);
+CREATE INDEX IF NOT EXISTS auctions_tags_idx ON auctions USING gin(tags);
+
+-- A category and every category beneath it
+CREATE OR REPLACE FUNCTION category_descendants(p_category_id uuid)
+RETURNS TABLE (descendant_id uuid)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH RECURSIVE tree AS (
+    SELECT id FROM categories WHERE id = p_category_id
+    UNION
+    SELECT categories.id
+    FROM categories
+    JOIN tree ON categories.parent_id = tree.id
+  )
+  SELECT id FROM tree;
+$$;
+
+-- Keep the category tree acyclic when a category is moved
+CREATE OR REPLACE FUNCTION prevent_category_cycle()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL
+     AND EXISTS (SELECT 1 FROM category_descendants(NEW.id) WHERE descendant_id = NEW.parent_id) THEN
+    RAISE EXCEPTION 'A category cannot be moved beneath one of its own subcategories';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_category_parent_changed
+  BEFORE UPDATE OF parent_id ON categories
+  FOR EACH ROW EXECUTE FUNCTION prevent_category_cycle();
+
+-- Per-category counts, each parent including its subcategories
+CREATE OR REPLACE FUNCTION category_stats()
+RETURNS TABLE (
+  category_id uuid,
+  live_auctions bigint,
+  total_auctions bigint,
+  total_bids bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH RECURSIVE ancestry AS (
+    SELECT id AS category_id, id AS descendant_id FROM categories
+    UNION ALL
+    SELECT ancestry.category_id, categories.id
+    FROM ancestry
+    JOIN categories ON categories.parent_id = ancestry.descendant_id
+  ),
+  auction_bids AS (
+    SELECT
+      auctions.id,
+      auctions.category_id,
+      auctions.status = 'active' AND auctions.end_time > now() AS is_live,
+      (SELECT count(*) FROM bids WHERE bids.auction_id = auctions.id AND bids.retracted_at IS NULL) AS bid_count
+    FROM auctions
+    WHERE auctions.status != 'draft'
+      AND auctions.category_id IS NOT NULL
+  )
+  SELECT
+    ancestry.category_id,
+    count(auction_bids.id) FILTER (WHERE auction_bids.is_live),
+    count(auction_bids.id),
+    COALESCE(sum(auction_bids.bid_count), 0)::bigint
+  FROM ancestry
+  LEFT JOIN auction_bids ON auction_bids.category_id = ancestry.descendant_id
+  GROUP BY ancestry.category_id;
+$$;
+
+-- Copy a listing with its reserve and increment tiers, keeping its duration
+CREATE OR REPLACE FUNCTION copy_auction(
+  p_source_id uuid,
+  p_status auction_status,
+  p_start_time timestamptz,
+  p_relisted_from uuid,
+  p_relist_count integer
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  source auctions%ROWTYPE;
+  new_auction_id UUID;
+BEGIN
+  -- Loaded here rather than passed in, so callers can only copy a stored listing
+  SELECT * INTO source FROM auctions WHERE id = p_source_id;
+
+  IF source IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  INSERT INTO auctions (
+    seller_id, title, description, starting_price, bid_increment, start_time, end_time, status,
+    soft_close_window_minutes, soft_close_extension_minutes, soft_close_max_extension_minutes,
+    buy_now_price, buy_now_cutoff_percent, auction_type, floor_price, price_decrement,
+    decrement_interval_minutes, use_increment_tiers, quantity,
+    relisted_from, relist_count, auto_relist_limit, category_id, tags
+  )
+  VALUES (
+    source.seller_id, source.title, source.description, source.starting_price, source.bid_increment,
+    p_start_time, p_start_time + (source.end_time - source.start_time - make_interval(mins => source.extended_minutes)),
+    p_status,
+    source.soft_close_window_minutes, source.soft_close_extension_minutes, source.soft_close_max_extension_minutes,
+    source.buy_now_price, source.buy_now_cutoff_percent, source.auction_type, source.floor_price, source.price_decrement,
+    source.decrement_interval_minutes, source.use_increment_tiers, source.quantity,
+    p_relisted_from, p_relist_count, source.auto_relist_limit, source.category_id, source.tags
+  )
+  RETURNING id INTO new_auction_id;
+
+  INSERT INTO auction_reserves (auction_id, reserve_price)
+  SELECT new_auction_id, reserve_price
+  FROM auction_reserves
+  WHERE auction_id = source.id;
+
+  INSERT INTO bid_increment_tiers (auction_id, min_price, increment)
+  SELECT new_auction_id, min_price, increment
+  FROM bid_increment_tiers
+  WHERE auction_id = source.id;
+
+  RETURN new_auction_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION copy_auction(uuid, auction_status, timestamptz, uuid, integer) FROM PUBLIC, anon, authenticated;
+
+-- The category filter changes the signature
+DROP FUNCTION IF EXISTS search_auctions(text, text, integer, integer);
+
+-- One page of search results, shaped like an auction row with its seller's profile
+CREATE OR REPLACE FUNCTION search_auctions(
+  p_query text DEFAULT NULL,
+  p_status text DEFAULT 'all',
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0,
+  p_category_id uuid DEFAULT NULL
+)
+RETURNS SETOF jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (to_jsonb(auctions) - 'search_vector') || jsonb_build_object(
+      'profiles', jsonb_build_object('full_name', profiles.full_name, 'email', profiles.email),
+      'rank', matched.rank
+    )
+  FROM auctions
+  JOIN profiles ON profiles.id = auctions.seller_id
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN NULLIF(trim(p_query), '') IS NULL THEN 0
+      ELSE ts_rank(auctions.search_vector, websearch_to_tsquery('english', p_query))
+    END AS rank
+  ) AS matched
+  WHERE auctions.status != 'draft'
+    AND (
+      NULLIF(trim(p_query), '') IS NULL
+      OR auctions.search_vector @@ websearch_to_tsquery('english', p_query)
+      OR lower(trim(p_query)) = ANY(auctions.tags)
+    )
+    -- A category includes everything filed under its subcategories
+    AND (
+      p_category_id IS NULL
+      OR auctions.category_id IN (SELECT descendant_id FROM category_descendants(p_category_id))
+    )
+    AND CASE p_status
+      WHEN 'upcoming' THEN auctions.status = 'scheduled'
+      WHEN 'active' THEN auctions.status = 'active' AND auctions.end_time > now()
+      WHEN 'ended' THEN auctions.status IN ('ended', 'cancelled') OR auctions.end_time <= now()
+      ELSE true
+    END
+  ORDER BY matched.rank DESC, auctions.created_at DESC, auctions.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_auctions(text, text, integer, integer, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION category_descendants(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION category_stats() TO authenticated;
@@ -0,0 +1,110 @@
+/*
+  # Auction Sorting and Facets
+
+  1. Functions
+    - `search_auctions()` adds sorting and facet filters to the grid's search:
+      - `p_sort`: `relevance`, `ending_soon`, `newest`, `price_asc`, `price_desc`
+        or `most_bids`
+      - `p_min_price` / `p_max_price` filter on the current price: the Dutch
+        price while one is running, otherwise the highest bid or starting price
+      - `p_no_bids` keeps auctions without a standing bid
+      - `p_ending_soon` keeps live auctions ending within the hour
+      - `p_seller_id` keeps one seller's auctions
+    - Each result carries its `bid_count`
+
+  2. Security
+    - Still runs with the caller's permissions, so sealed bids the caller
+      cannot see are not counted
+*/
+
+CREATE INDEX IF NOT EXISTS auctions_seller_id_idx ON auctions(seller_id);
+
+-- Sorting and facets change the signature
+DROP FUNCTION IF EXISTS search_auctions(text, text, integer, integer, uuid);
+
+-- One page of search results, shaped like an auction row with its seller's profile
+CREATE OR REPLACE FUNCTION search_auctions(
+  p_query text DEFAULT NULL,
+  p_status text DEFAULT 'all',
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0,
+  p_category_id uuid DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_no_bids boolean DEFAULT false,
+  p_ending_soon boolean DEFAULT false,
+  p_seller_id uuid DEFAULT NULL
+)
+RETURNS SETOF jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (to_jsonb(auctions) - 'search_vector') || jsonb_build_object(
+      'profiles', jsonb_build_object('full_name', profiles.full_name, 'email', profiles.email),
+      'rank', matched.rank,
+      'bid_count', listing.bid_count
+    )
+  FROM auctions
+  JOIN profiles ON profiles.id = auctions.seller_id
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN NULLIF(trim(p_query), '') IS NULL THEN 0
+      ELSE ts_rank(auctions.search_vector, websearch_to_tsquery('english', p_query))
+    END AS rank
+  ) AS matched
+  -- The price buyers see now, and the bids the caller can see
+  CROSS JOIN LATERAL (
+    SELECT
+      CASE
+        WHEN auctions.auction_type = 'dutch' AND auctions.status = 'active' THEN dutch_current_price(auctions)
+        WHEN auctions.highest_bid > 0 THEN auctions.highest_bid
+        ELSE auctions.starting_price
+      END AS price,
+      (
+        SELECT count(*)
+        FROM bids
+        WHERE bids.auction_id = auctions.id
+          AND bids.retracted_at IS NULL
+      ) AS bid_count
+  ) AS listing
+  WHERE auctions.status != 'draft'
+    AND (
+      NULLIF(trim(p_query), '') IS NULL
+      OR auctions.search_vector @@ websearch_to_tsquery('english', p_query)
+      OR lower(trim(p_query)) = ANY(auctions.tags)
+    )
+    -- A category includes everything filed under its subcategories
+    AND (
+      p_category_id IS NULL
+      OR auctions.category_id IN (SELECT descendant_id FROM category_descendants(p_category_id))
+    )
+    AND CASE p_status
+      WHEN 'upcoming' THEN auctions.status = 'scheduled'
+      WHEN 'active' THEN auctions.status = 'active' AND auctions.end_time > now()
+      WHEN 'ended' THEN auctions.status IN ('ended', 'cancelled') OR auctions.end_time <= now()
+      ELSE true
+    END
+    AND (p_min_price IS NULL OR listing.price >= p_min_price)
+    AND (p_max_price IS NULL OR listing.price <= p_max_price)
+    AND (NOT p_no_bids OR listing.bid_count = 0)
+    AND (
+      NOT p_ending_soon
+      OR (auctions.status = 'active' AND auctions.end_time > now() AND auctions.end_time <= now() + interval '1 hour')
+    )
+    AND (p_seller_id IS NULL OR auctions.seller_id = p_seller_id)
+  -- Newest first breaks ties, and is the whole order for 'newest'
+  ORDER BY
+    CASE WHEN p_sort = 'ending_soon' AND auctions.end_time > now() THEN auctions.end_time END ASC,
+    CASE WHEN p_sort = 'price_asc' THEN listing.price END ASC,
+    CASE WHEN p_sort = 'price_desc' THEN listing.price END DESC,
+    CASE WHEN p_sort = 'most_bids' THEN listing.bid_count END DESC,
+    CASE WHEN p_sort = 'relevance' THEN matched.rank END DESC,
+    auctions.created_at DESC,
+    auctions.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_auctions(text, text, integer, integer, uuid, text, numeric, numeric, boolean, boolean, uuid) TO authenticated;
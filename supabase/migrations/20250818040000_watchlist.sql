@@ -0,0 +1,278 @@
+/*
+  # Watchlist
+
+  1. New Tables
+    - `watchlist`
+      - `user_id` (uuid, references profiles)
+      - `auction_id` (uuid, references auctions)
+      - `created_at` (timestamp)
+      - `starts_soon_sent_at` (timestamp) - when the "starts soon" alert went out
+      - `ending_soon_sent_at` (timestamp) - when the "ending in 1 hour" alert went out
+      - `alerted_price` (decimal) - the price watchers were last told about
+      - `price_alerted_at` (timestamp) - when the last price alert went out
+
+  2. Changes
+    - `notification_type` gains `watch_starts_soon`, `watch_ending_soon` and
+      `watch_price_changed`
+
+  3. Functions
+    - `send_watchlist_alerts()` runs every minute from `pg_cron` and tells
+      watchers when an auction starts within the hour, ends within the hour or
+      its price moves. Each alert is recorded on the watchlist row, so a run
+      only sends what earlier runs have not. The first run after a watch starts
+      records the price without alerting. Dutch prices drop on a timer, so each
+      watcher hears about them at most once an hour.
+    - `search_auctions()` gains `p_watching` for the caller's watched auctions
+
+  4. Security
+    - Users can only see, add and remove their own watches, and cannot watch
+      their own auctions
+    - Alerts are only sent by the scheduler, execute is revoked from clients
+*/
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'watch_starts_soon';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'watch_ending_soon';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'watch_price_changed';
+
+-- Create watchlist table
+CREATE TABLE IF NOT EXISTS watchlist (
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  auction_id uuid REFERENCES auctions(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  starts_soon_sent_at timestamptz,
+  ending_soon_sent_at timestamptz,
+  alerted_price decimal(10,2),
+  price_alerted_at timestamptz,
+  PRIMARY KEY (user_id, auction_id)
+);
+
+CREATE INDEX IF NOT EXISTS watchlist_auction_id_idx ON watchlist(auction_id);
+
+ALTER TABLE watchlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own watchlist"
+  ON watchlist FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can watch published auctions"
+  ON watchlist FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND starts_soon_sent_at IS NULL
+    AND ending_soon_sent_at IS NULL
+    AND alerted_price IS NULL
+    AND price_alerted_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM auctions
+      WHERE auctions.id = auction_id
+        AND auctions.status != 'draft'
+        AND auctions.seller_id != auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can unwatch auctions"
+  ON watchlist FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Alert watchers about auctions starting, ending or changing price
+CREATE OR REPLACE FUNCTION send_watchlist_alerts()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Overlapping runs would send the same alerts, the later one simply skips
+  IF NOT pg_try_advisory_xact_lock(hashtext('send_watchlist_alerts')) THEN
+    RETURN;
+  END IF;
+
+  WITH due AS (
+    UPDATE watchlist
+    SET starts_soon_sent_at = now()
+    FROM auctions
+    WHERE auctions.id = watchlist.auction_id
+      AND watchlist.starts_soon_sent_at IS NULL
+      AND auctions.status = 'scheduled'
+      AND auctions.start_time <= now() + interval '1 hour'
+    RETURNING watchlist.user_id, auctions.id, auctions.title
+  )
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT
+    user_id,
+    id,
+    'watch_starts_soon'::notification_type,
+    'An auction you are watching, "' || title || '", starts within the hour'
+  FROM due;
+
+  -- Soft close may push the end back, watchers are still only told once
+  WITH due AS (
+    UPDATE watchlist
+    SET ending_soon_sent_at = now()
+    FROM auctions
+    WHERE auctions.id = watchlist.auction_id
+      AND watchlist.ending_soon_sent_at IS NULL
+      AND auctions.status = 'active'
+      AND auctions.end_time > now()
+      AND auctions.end_time <= now() + interval '1 hour'
+    RETURNING watchlist.user_id, auctions.id, auctions.title
+  )
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT
+    user_id,
+    id,
+    'watch_ending_soon'::notification_type,
+    'An auction you are watching, "' || title || '", ends within the hour'
+  FROM due;
+
+  -- Sealed auctions keep highest_bid at zero until the reveal, so their bids never show here
+  WITH priced AS (
+    SELECT
+      watchlist.user_id,
+      auctions.id AS auction_id,
+      auctions.title,
+      auctions.auction_type,
+      auctions.highest_bidder_id,
+      watchlist.alerted_price AS previous_price,
+      watchlist.price_alerted_at,
+      CASE
+        WHEN auctions.auction_type = 'dutch' AND auctions.status = 'active' THEN dutch_current_price(auctions)
+        WHEN auctions.highest_bid > 0 THEN auctions.highest_bid
+        ELSE auctions.starting_price
+      END AS price
+    FROM watchlist
+    JOIN auctions ON auctions.id = watchlist.auction_id
+    WHERE auctions.status IN ('scheduled', 'active')
+      AND auctions.end_time > now()
+  ),
+  changed AS (
+    UPDATE watchlist
+    SET
+      alerted_price = priced.price,
+      price_alerted_at = CASE WHEN priced.previous_price IS NOT NULL THEN now() END
+    FROM priced
+    WHERE watchlist.user_id = priced.user_id
+      AND watchlist.auction_id = priced.auction_id
+      AND priced.previous_price IS DISTINCT FROM priced.price
+      -- A Dutch clock can drop every few minutes, later drops wait and are reported together
+      AND (
+        priced.auction_type != 'dutch'
+        OR priced.price_alerted_at IS NULL
+        OR priced.price_alerted_at <= now() - interval '1 hour'
+      )
+    RETURNING priced.*
+  )
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT
+    user_id,
+    auction_id,
+    'watch_price_changed'::notification_type,
+    'The price of "' || title || '" is now $' || price
+  FROM changed
+  WHERE previous_price IS NOT NULL
+    -- The bidder who moved the price already knows
+    AND highest_bidder_id IS DISTINCT FROM user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION send_watchlist_alerts() FROM PUBLIC, anon, authenticated;
+
+-- Scheduling under the same name replaces an existing job
+SELECT cron.schedule('send-watchlist-alerts', '* * * * *', 'SELECT send_watchlist_alerts()');
+
+-- The watching filter changes the signature
+DROP FUNCTION IF EXISTS search_auctions(text, text, integer, integer, uuid, text, numeric, numeric, boolean, boolean, uuid);
+
+-- One page of search results, shaped like an auction row with its seller's profile
+CREATE OR REPLACE FUNCTION search_auctions(
+  p_query text DEFAULT NULL,
+  p_status text DEFAULT 'all',
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0,
+  p_category_id uuid DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_no_bids boolean DEFAULT false,
+  p_ending_soon boolean DEFAULT false,
+  p_seller_id uuid DEFAULT NULL,
+  p_watching boolean DEFAULT false
+)
+RETURNS SETOF jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (to_jsonb(auctions) - 'search_vector') || jsonb_build_object(
+      'profiles', jsonb_build_object('full_name', profiles.full_name, 'email', profiles.email),
+      'rank', matched.rank,
+      'bid_count', listing.bid_count
+    )
+  FROM auctions
+  JOIN profiles ON profiles.id = auctions.seller_id
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN NULLIF(trim(p_query), '') IS NULL THEN 0
+      ELSE ts_rank(auctions.search_vector, websearch_to_tsquery('english', p_query))
+    END AS rank
+  ) AS matched
+  -- The price buyers see now, and the bids the caller can see
+  CROSS JOIN LATERAL (
+    SELECT
+      CASE
+        WHEN auctions.auction_type = 'dutch' AND auctions.status = 'active' THEN dutch_current_price(auctions)
+        WHEN auctions.highest_bid > 0 THEN auctions.highest_bid
+        ELSE auctions.starting_price
+      END AS price,
+      (
+        SELECT count(*)
+        FROM bids
+        WHERE bids.auction_id = auctions.id
+          AND bids.retracted_at IS NULL
+      ) AS bid_count
+  ) AS listing
+  WHERE auctions.status != 'draft'
+    AND (
+      NULLIF(trim(p_query), '') IS NULL
+      OR auctions.search_vector @@ websearch_to_tsquery('english', p_query)
+      OR lower(trim(p_query)) = ANY(auctions.tags)
+    )
+    -- A category includes everything filed under its subcategories
+    AND (
+      p_category_id IS NULL
+      OR auctions.category_id IN (SELECT descendant_id FROM category_descendants(p_category_id))
+    )
+    AND CASE p_status
+      WHEN 'upcoming' THEN auctions.status = 'scheduled'
+      WHEN 'active' THEN auctions.status = 'active' AND auctions.end_time > now()
+      WHEN 'ended' THEN auctions.status IN ('ended', 'cancelled') OR auctions.end_time <= now()
+      ELSE true
+    END
+    AND (p_min_price IS NULL OR listing.price >= p_min_price)
+    AND (p_max_price IS NULL OR listing.price <= p_max_price)
+    AND (NOT p_no_bids OR listing.bid_count = 0)
+    AND (
+      NOT p_ending_soon
+      OR (auctions.status = 'active' AND auctions.end_time > now() AND auctions.end_time <= now() + interval '1 hour')
+    )
+    AND (p_seller_id IS NULL OR auctions.seller_id = p_seller_id)
+    AND (
+      NOT p_watching
+      OR EXISTS (SELECT 1 FROM watchlist WHERE watchlist.auction_id = auctions.id AND watchlist.user_id = auth.uid())
+    )
+  -- Newest first breaks ties, and is the whole order for 'newest'
+  ORDER BY
+    CASE WHEN p_sort = 'ending_soon' AND auctions.end_time > now() THEN auctions.end_time END ASC,
+    CASE WHEN p_sort = 'price_asc' THEN listing.price END ASC,
+    CASE WHEN p_sort = 'price_desc' THEN listing.price END DESC,
+    CASE WHEN p_sort = 'most_bids' THEN listing.bid_count END DESC,
+    CASE WHEN p_sort = 'relevance' THEN matched.rank END DESC,
+    auctions.created_at DESC,
+    auctions.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_auctions(text, text, integer, integer, uuid, text, numeric, numeric, boolean, boolean, uuid, boolean) TO authenticated;
@@ -0,0 +1,255 @@
+/*
+  # Saved Searches
+
+  1. New Tables
+    - `saved_searches`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `name` (text)
+      - `filters` (jsonb) - the grid's filters, keyed like the page URL:
+        `q`, `status`, `category`, `sort`, `min`, `max`, `no_bids`, `ending`,
+        `seller`, `watching`
+      - `frequency` (saved_search_frequency) - `immediate`, `daily` or `off`
+      - `last_checked_at` (timestamp) - listings published after this are new
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `auctions.published_at` (timestamp) - when the listing left draft,
+      stamped by a trigger so every publishing path sets it. Values written by
+      clients are ignored, so a seller cannot backdate a listing past alerts.
+    - `notification_type` gains `saved_search_match`
+
+  3. Functions
+    - `auction_matches_search()` applies a saved search's filters to one
+      auction the way `search_auctions()` does. `sort` and `watching` do not
+      narrow which listings are new, so they are ignored.
+    - `send_saved_search_alerts()` runs every minute from `pg_cron`: immediate
+      searches get one notification per new match, daily searches one summary
+      a day when anything matched
+    - Changing a search's filters or frequency restarts it from now, so
+      switching it back on never replays old listings
+
+  4. Security
+    - Users can only see and manage their own saved searches
+    - Alerts are only sent by the scheduler, execute is revoked from clients
+*/
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'saved_search_match';
+
+CREATE TYPE saved_search_frequency AS ENUM ('immediate', 'daily', 'off');
+
+ALTER TABLE auctions ADD COLUMN IF NOT EXISTS published_at timestamptz;
+
+UPDATE auctions SET published_at = created_at WHERE status != 'draft' AND published_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS auctions_published_at_idx ON auctions(published_at);
+
+-- Stamp listings as they leave draft, however they are published
+CREATE OR REPLACE FUNCTION stamp_auction_published_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.published_at := CASE WHEN NEW.status != 'draft' THEN now() END;
+  ELSIF OLD.status = 'draft' AND NEW.status != 'draft' THEN
+    NEW.published_at := now();
+  ELSE
+    NEW.published_at := OLD.published_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auction_published
+  BEFORE INSERT OR UPDATE OF status, published_at ON auctions
+  FOR EACH ROW EXECUTE FUNCTION stamp_auction_published_at();
+
+-- Create saved searches table
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  filters jsonb NOT NULL DEFAULT '{}' CHECK (jsonb_typeof(filters) = 'object'),
+  frequency saved_search_frequency NOT NULL DEFAULT 'immediate',
+  last_checked_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+-- The alert job casts these, a malformed value would fail every run
+ALTER TABLE saved_searches
+  ADD CONSTRAINT saved_searches_filters_check CHECK (
+    (filters->>'category' IS NULL OR filters->>'category' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$')
+    AND (filters->>'seller' IS NULL OR filters->>'seller' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$')
+    AND (filters->>'min' IS NULL OR filters->>'min' ~ '^[0-9]+(\.[0-9]+)?$')
+    AND (filters->>'max' IS NULL OR filters->>'max' ~ '^[0-9]+(\.[0-9]+)?$')
+  );
+
+CREATE INDEX IF NOT EXISTS saved_searches_user_id_idx ON saved_searches(user_id);
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own saved searches"
+  ON saved_searches FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own saved searches"
+  ON saved_searches FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved searches"
+  ON saved_searches FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved searches"
+  ON saved_searches FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- New listings are counted from when a search was created or last changed
+CREATE OR REPLACE FUNCTION restart_saved_search()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+     OR NEW.filters IS DISTINCT FROM OLD.filters
+     OR NEW.frequency IS DISTINCT FROM OLD.frequency THEN
+    NEW.last_checked_at := now();
+  ELSIF COALESCE(current_setting('app.saved_search_alerts', true), 'off') != 'on' THEN
+    -- Only the alert job moves the watermark
+    NEW.last_checked_at := OLD.last_checked_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_saved_search_changed
+  BEFORE INSERT OR UPDATE ON saved_searches
+  FOR EACH ROW EXECUTE FUNCTION restart_saved_search();
+
+-- Whether an auction passes a saved search's filters, mirrors search_auctions()
+CREATE OR REPLACE FUNCTION auction_matches_search(auction_record auctions, p_filters jsonb)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT auction_record.status != 'draft'
+    AND (
+      NULLIF(trim(p_filters->>'q'), '') IS NULL
+      OR auction_record.search_vector @@ websearch_to_tsquery('english', p_filters->>'q')
+      OR lower(trim(p_filters->>'q')) = ANY(auction_record.tags)
+    )
+    AND (
+      p_filters->>'category' IS NULL
+      OR auction_record.category_id IN (SELECT descendant_id FROM category_descendants((p_filters->>'category')::uuid))
+    )
+    AND CASE COALESCE(p_filters->>'status', 'all')
+      WHEN 'upcoming' THEN auction_record.status = 'scheduled'
+      WHEN 'active' THEN auction_record.status = 'active' AND auction_record.end_time > now()
+      WHEN 'ended' THEN auction_record.status IN ('ended', 'cancelled') OR auction_record.end_time <= now()
+      ELSE true
+    END
+    AND (
+      p_filters->>'min' IS NULL
+      OR CASE
+        WHEN auction_record.auction_type = 'dutch' AND auction_record.status = 'active' THEN dutch_current_price(auction_record)
+        WHEN auction_record.highest_bid > 0 THEN auction_record.highest_bid
+        ELSE auction_record.starting_price
+      END >= (p_filters->>'min')::numeric
+    )
+    AND (
+      p_filters->>'max' IS NULL
+      OR CASE
+        WHEN auction_record.auction_type = 'dutch' AND auction_record.status = 'active' THEN dutch_current_price(auction_record)
+        WHEN auction_record.highest_bid > 0 THEN auction_record.highest_bid
+        ELSE auction_record.starting_price
+      END <= (p_filters->>'max')::numeric
+    )
+    AND (p_filters->>'no_bids' IS NULL OR auction_record.highest_bid = 0)
+    AND (
+      p_filters->>'ending' IS NULL
+      OR (auction_record.status = 'active' AND auction_record.end_time > now() AND auction_record.end_time <= now() + interval '1 hour')
+    )
+    AND (p_filters->>'seller' IS NULL OR auction_record.seller_id = (p_filters->>'seller')::uuid);
+$$;
+
+-- Tell saved searches about listings published since they last ran
+CREATE OR REPLACE FUNCTION send_saved_search_alerts()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  run_at TIMESTAMPTZ := now();
+BEGIN
+  -- Overlapping runs would send the same alerts, the later one simply skips
+  IF NOT pg_try_advisory_xact_lock(hashtext('send_saved_search_alerts')) THEN
+    RETURN;
+  END IF;
+
+  WITH matches AS (
+    SELECT saved_searches.id AS search_id, saved_searches.user_id, saved_searches.name, auctions.id AS auction_id, auctions.title
+    FROM saved_searches
+    JOIN auctions ON auctions.published_at > saved_searches.last_checked_at
+      AND auctions.published_at <= run_at
+    WHERE saved_searches.frequency = 'immediate'
+      AND auctions.seller_id != saved_searches.user_id
+      AND auction_matches_search(auctions, saved_searches.filters)
+  )
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT
+    user_id,
+    auction_id,
+    'saved_search_match'::notification_type,
+    'New listing for your saved search "' || name || '": "' || title || '"'
+  FROM matches;
+
+  -- Daily searches summarise a day's matches and link the newest one
+  WITH matches AS (
+    SELECT
+      saved_searches.id AS search_id,
+      saved_searches.user_id,
+      saved_searches.name,
+      count(*) AS match_count,
+      (array_agg(auctions.id ORDER BY auctions.published_at DESC))[1] AS newest_auction_id
+    FROM saved_searches
+    JOIN auctions ON auctions.published_at > saved_searches.last_checked_at
+      AND auctions.published_at <= run_at
+    WHERE saved_searches.frequency = 'daily'
+      AND saved_searches.last_checked_at <= run_at - interval '1 day'
+      AND auctions.seller_id != saved_searches.user_id
+      AND auction_matches_search(auctions, saved_searches.filters)
+    GROUP BY saved_searches.id, saved_searches.user_id, saved_searches.name
+  )
+  INSERT INTO notifications (user_id, auction_id, type, message)
+  SELECT
+    user_id,
+    newest_auction_id,
+    'saved_search_match'::notification_type,
+    match_count || CASE WHEN match_count = 1 THEN ' new listing matches' ELSE ' new listings match' END ||
+      ' your saved search "' || name || '"'
+  FROM matches;
+
+  -- The watermark only moves through this job, so the trigger is told to let it through
+  PERFORM set_config('app.saved_search_alerts', 'on', true);
+
+  UPDATE saved_searches
+  SET last_checked_at = run_at
+  WHERE frequency = 'immediate'
+     OR (frequency = 'daily' AND last_checked_at <= run_at - interval '1 day');
+
+  PERFORM set_config('app.saved_search_alerts', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION send_saved_search_alerts() FROM PUBLIC, anon, authenticated;
+
+-- Scheduling under the same name replaces an existing job
+SELECT cron.schedule('send-saved-search-alerts', '* * * * *', 'SELECT send_saved_search_alerts()');
@@ -0,0 +1,311 @@
+/*
+  # Auction Images
+
+  1. New Tables
+    - `auction_images`
+      - `id` (uuid, primary key)
+      - `auction_id` (uuid, references auctions)
+      - `path` (text) - the resized image in the `auction-images` bucket
+      - `thumbnail_path` (text) - its thumbnail in the same bucket
+      - `width` / `height` (integer) - dimensions of the resized image
+      - `position` (integer) - gallery order, the first image is the cover
+      - `created_at` (timestamp)
+
+  2. Storage
+    - `auction-images` bucket, publicly readable. Files live under the
+      uploader's user id: `<user id>/<file>`. Resizing and thumbnails happen
+      in the browser, so the bucket only stores finished JPEGs.
+    - The app only talks to the Storage API and builds URLs from the client's
+      project URL, so a local stack with its S3-compatible store works as is
+
+  3. Functions
+    - `copy_auction()` carries the images over to relists and duplicates, the
+      copies point at the same files
+    - `search_auctions()` returns each listing's `cover_image` thumbnail
+    - `save_draft_details()` replaces the draft's images along with its reserve
+      and tiers
+
+  4. Security
+    - Only the owner of a folder can upload, replace or delete files in it
+    - Image rows are readable wherever their auction is, and sellers arrange
+      them while the listing is a draft
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('auction-images', 'auction-images', true, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Auction images are publicly readable"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'auction-images');
+
+CREATE POLICY "Sellers can upload auction images"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'auction-images' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Sellers can replace their auction images"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'auction-images' AND (storage.foldername(name))[1] = auth.uid()::text)
+  WITH CHECK (bucket_id = 'auction-images' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Sellers can delete their auction images"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'auction-images' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Create auction images table
+CREATE TABLE IF NOT EXISTS auction_images (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  auction_id uuid REFERENCES auctions(id) ON DELETE CASCADE NOT NULL,
+  path text NOT NULL,
+  thumbnail_path text NOT NULL,
+  width integer NOT NULL CHECK (width > 0),
+  height integer NOT NULL CHECK (height > 0),
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS auction_images_auction_id_idx ON auction_images(auction_id, position);
+
+ALTER TABLE auction_images ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Auction images are readable with their auction"
+  ON auction_images FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM auctions
+    WHERE auctions.id = auction_id
+      AND (auctions.status != 'draft' OR auctions.seller_id = auth.uid())
+  ));
+
+CREATE POLICY "Sellers can add images to their drafts"
+  ON auction_images FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    split_part(path, '/', 1) = auth.uid()::text
+    AND split_part(thumbnail_path, '/', 1) = auth.uid()::text
+    AND EXISTS (
+      SELECT 1 FROM auctions
+      WHERE auctions.id = auction_id
+        AND auctions.seller_id = auth.uid()
+        AND auctions.status = 'draft'
+    )
+  );
+
+CREATE POLICY "Sellers can remove images from their drafts"
+  ON auction_images FOR DELETE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM auctions
+    WHERE auctions.id = auction_id
+      AND auctions.seller_id = auth.uid()
+      AND auctions.status = 'draft'
+  ));
+
+-- Copy a listing with its reserve and increment tiers, keeping its duration
+CREATE OR REPLACE FUNCTION copy_auction(
+  p_source_id uuid,
+  p_status auction_status,
+  p_start_time timestamptz,
+  p_relisted_from uuid,
+  p_relist_count integer
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  source auctions%ROWTYPE;
+  new_auction_id UUID;
+BEGIN
+  -- Loaded here rather than passed in, so callers can only copy a stored listing
+  SELECT * INTO source FROM auctions WHERE id = p_source_id;
+
+  IF source IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  INSERT INTO auctions (
+    seller_id, title, description, starting_price, bid_increment, start_time, end_time, status,
+    soft_close_window_minutes, soft_close_extension_minutes, soft_close_max_extension_minutes,
+    buy_now_price, buy_now_cutoff_percent, auction_type, floor_price, price_decrement,
+    decrement_interval_minutes, use_increment_tiers, quantity,
+    relisted_from, relist_count, auto_relist_limit, category_id, tags
+  )
+  VALUES (
+    source.seller_id, source.title, source.description, source.starting_price, source.bid_increment,
+    p_start_time, p_start_time + (source.end_time - source.start_time - make_interval(mins => source.extended_minutes)),
+    p_status,
+    source.soft_close_window_minutes, source.soft_close_extension_minutes, source.soft_close_max_extension_minutes,
+    source.buy_now_price, source.buy_now_cutoff_percent, source.auction_type, source.floor_price, source.price_decrement,
+    source.decrement_interval_minutes, source.use_increment_tiers, source.quantity,
+    p_relisted_from, p_relist_count, source.auto_relist_limit, source.category_id, source.tags
+  )
+  RETURNING id INTO new_auction_id;
+
+  INSERT INTO auction_reserves (auction_id, reserve_price)
+  SELECT new_auction_id, reserve_price
+  FROM auction_reserves
+  WHERE auction_id = source.id;
+
+  INSERT INTO bid_increment_tiers (auction_id, min_price, increment)
+  SELECT new_auction_id, min_price, increment
+  FROM bid_increment_tiers
+  WHERE auction_id = source.id;
+
+  -- Copies share the stored files, only the rows are duplicated
+  INSERT INTO auction_images (auction_id, path, thumbnail_path, width, height, position)
+  SELECT new_auction_id, path, thumbnail_path, width, height, position
+  FROM auction_images
+  WHERE auction_id = source.id;
+
+  RETURN new_auction_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION copy_auction(uuid, auction_status, timestamptz, uuid, integer) FROM PUBLIC, anon, authenticated;
+
+-- The images change the signature
+DROP FUNCTION IF EXISTS save_draft_details(uuid, numeric, jsonb);
+
+-- Replace everything stored alongside a draft at once
+CREATE OR REPLACE FUNCTION save_draft_details(
+  p_auction_id uuid,
+  p_reserve_price numeric,
+  p_tiers jsonb,
+  p_images jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM auctions
+    WHERE id = p_auction_id AND seller_id = auth.uid() AND status = 'draft'
+  ) THEN
+    RAISE EXCEPTION 'Draft not found';
+  END IF;
+
+  IF p_reserve_price IS NULL THEN
+    DELETE FROM auction_reserves WHERE auction_id = p_auction_id;
+  ELSE
+    INSERT INTO auction_reserves (auction_id, reserve_price)
+    VALUES (p_auction_id, p_reserve_price)
+    ON CONFLICT (auction_id) DO UPDATE SET reserve_price = EXCLUDED.reserve_price;
+  END IF;
+
+  DELETE FROM bid_increment_tiers WHERE auction_id = p_auction_id;
+
+  INSERT INTO bid_increment_tiers (auction_id, min_price, increment)
+  SELECT p_auction_id, tier.min_price, tier.increment
+  FROM jsonb_to_recordset(COALESCE(p_tiers, '[]')) AS tier(min_price numeric, increment numeric);
+
+  DELETE FROM auction_images WHERE auction_id = p_auction_id;
+
+  INSERT INTO auction_images (auction_id, path, thumbnail_path, width, height, position)
+  SELECT p_auction_id, image.path, image.thumbnail_path, image.width, image.height, image.position
+  FROM jsonb_to_recordset(COALESCE(p_images, '[]'))
+    AS image(path text, thumbnail_path text, width integer, height integer, position integer);
+END;
+$$;
+
+-- One page of search results, shaped like an auction row with its seller's profile
+CREATE OR REPLACE FUNCTION search_auctions(
+  p_query text DEFAULT NULL,
+  p_status text DEFAULT 'all',
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0,
+  p_category_id uuid DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_no_bids boolean DEFAULT false,
+  p_ending_soon boolean DEFAULT false,
+  p_seller_id uuid DEFAULT NULL,
+  p_watching boolean DEFAULT false
+)
+RETURNS SETOF jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (to_jsonb(auctions) - 'search_vector') || jsonb_build_object(
+      'profiles', jsonb_build_object('full_name', profiles.full_name, 'email', profiles.email),
+      'rank', matched.rank,
+      'bid_count', listing.bid_count,
+      'cover_image', (
+        SELECT auction_images.thumbnail_path
+        FROM auction_images
+        WHERE auction_images.auction_id = auctions.id
+        ORDER BY auction_images.position
+        LIMIT 1
+      )
+    )
+  FROM auctions
+  JOIN profiles ON profiles.id = auctions.seller_id
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN NULLIF(trim(p_query), '') IS NULL THEN 0
+      ELSE ts_rank(auctions.search_vector, websearch_to_tsquery('english', p_query))
+    END AS rank
+  ) AS matched
+  -- The price buyers see now, and the bids the caller can see
+  CROSS JOIN LATERAL (
+    SELECT
+      CASE
+        WHEN auctions.auction_type = 'dutch' AND auctions.status = 'active' THEN dutch_current_price(auctions)
+        WHEN auctions.highest_bid > 0 THEN auctions.highest_bid
+        ELSE auctions.starting_price
+      END AS price,
+      (
+        SELECT count(*)
+        FROM bids
+        WHERE bids.auction_id = auctions.id
+          AND bids.retracted_at IS NULL
+      ) AS bid_count
+  ) AS listing
+  WHERE auctions.status != 'draft'
+    AND (
+      NULLIF(trim(p_query), '') IS NULL
+      OR auctions.search_vector @@ websearch_to_tsquery('english', p_query)
+      OR lower(trim(p_query)) = ANY(auctions.tags)
+    )
+    -- A category includes everything filed under its subcategories
+    AND (
+      p_category_id IS NULL
+      OR auctions.category_id IN (SELECT descendant_id FROM category_descendants(p_category_id))
+    )
+    AND CASE p_status
+      WHEN 'upcoming' THEN auctions.status = 'scheduled'
+      WHEN 'active' THEN auctions.status = 'active' AND auctions.end_time > now()
+      WHEN 'ended' THEN auctions.status IN ('ended', 'cancelled') OR auctions.end_time <= now()
+      ELSE true
+    END
+    AND (p_min_price IS NULL OR listing.price >= p_min_price)
+    AND (p_max_price IS NULL OR listing.price <= p_max_price)
+    AND (NOT p_no_bids OR listing.bid_count = 0)
+    AND (
+      NOT p_ending_soon
+      OR (auctions.status = 'active' AND auctions.end_time > now() AND auctions.end_time <= now() + interval '1 hour')
+    )
+    AND (p_seller_id IS NULL OR auctions.seller_id = p_seller_id)
+    AND (
+      NOT p_watching
+      OR EXISTS (SELECT 1 FROM watchlist WHERE watchlist.auction_id = auctions.id AND watchlist.user_id = auth.uid())
+    )
+  -- Newest first breaks ties, and is the whole order for 'newest'
+  ORDER BY
+    CASE WHEN p_sort = 'ending_soon' AND auctions.end_time > now() THEN auctions.end_time END ASC,
+    CASE WHEN p_sort = 'price_asc' THEN listing.price END ASC,
+    CASE WHEN p_sort = 'price_desc' THEN listing.price END DESC,
+    CASE WHEN p_sort = 'most_bids' THEN listing.bid_count END DESC,
+    CASE WHEN p_sort = 'relevance' THEN matched.rank END DESC,
+    auctions.created_at DESC,
+    auctions.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION save_draft_details(uuid, numeric, jsonb, jsonb) TO authenticated;
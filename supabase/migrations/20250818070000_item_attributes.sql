@@ -0,0 +1,496 @@
+/*
+  # Structured Item Attributes
+
+  1. New Tables
+    - `category_attributes` - the extra fields a category asks for, inherited
+      by its subcategories
+      - `id` (uuid, primary key)
+      - `category_id` (uuid, references categories)
+      - `key` (text) - where the value is stored in `auctions.attributes`
+      - `label` (text)
+      - `type` (category_attribute_type) - `text`, `number` or `select`
+      - `options` (text[]) - the choices of a `select`
+      - `required` (boolean) - must be filled in before publishing
+      - `position` (integer) - display order
+      - `created_at` (timestamp)
+    - `auction_shipping_options`
+      - `id` (uuid, primary key)
+      - `auction_id` (uuid, references auctions)
+      - `method` (text) - e.g. "Standard" or "Express"
+      - `cost` (decimal)
+      - `position` (integer)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `auctions.condition` (item_condition)
+    - `auctions.pickup_location` (text) - set when the buyer can collect
+    - `auctions.returns_policy` (returns_policy)
+    - `auctions.attributes` (jsonb) - the category's fields, as strings keyed
+      by `category_attributes.key`
+
+  3. Functions
+    - `category_attribute_schema()` returns the fields for a category,
+      including those of its parent categories
+    - `check_auction_attributes()` validates the fields when a draft is
+      published. Automatic relists copy an already validated listing and are
+      not checked again.
+    - `copy_auction()` carries the new fields and shipping options over
+    - `save_draft_details()` replaces the draft's shipping options along with
+      its other details
+    - `search_auctions()` filters by condition, shipping, pickup and attribute
+      values, and `auction_matches_search()` does the same for saved searches
+      using the `cond`, `ships`, `pickup` and `attr.<key>` keys
+
+  4. Security
+    - Attribute schemas are readable by everyone, only admins can change them
+    - Shipping options are readable wherever their auction is, and sellers
+      set them while the listing is a draft
+*/
+
+CREATE TYPE item_condition AS ENUM ('new', 'like_new', 'good', 'fair', 'for_parts');
+CREATE TYPE returns_policy AS ENUM ('no_returns', '14_days', '30_days');
+CREATE TYPE category_attribute_type AS ENUM ('text', 'number', 'select');
+
+ALTER TABLE auctions
+  ADD COLUMN IF NOT EXISTS condition item_condition,
+  ADD COLUMN IF NOT EXISTS pickup_location text CHECK (length(trim(pickup_location)) > 0),
+  ADD COLUMN IF NOT EXISTS returns_policy returns_policy,
+  ADD COLUMN IF NOT EXISTS attributes jsonb NOT NULL DEFAULT '{}' CHECK (jsonb_typeof(attributes) = 'object');
+
+CREATE INDEX IF NOT EXISTS auctions_attributes_idx ON auctions USING gin(attributes);
+
+-- Create category attributes table
+CREATE TABLE IF NOT EXISTS category_attributes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_id uuid REFERENCES categories(id) ON DELETE CASCADE NOT NULL,
+  key text NOT NULL CHECK (key ~ '^[a-z0-9_]+$'),
+  label text NOT NULL CHECK (length(trim(label)) > 0),
+  type category_attribute_type NOT NULL DEFAULT 'text',
+  options text[] NOT NULL DEFAULT '{}',
+  required boolean NOT NULL DEFAULT false,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (category_id, key),
+  CHECK (type != 'select' OR cardinality(options) > 0)
+);
+
+ALTER TABLE category_attributes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Category attributes are publicly readable"
+  ON category_attributes FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create category attributes"
+  ON category_attributes FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update category attributes"
+  ON category_attributes FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete category attributes"
+  ON category_attributes FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- Create shipping options table
+CREATE TABLE IF NOT EXISTS auction_shipping_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  auction_id uuid REFERENCES auctions(id) ON DELETE CASCADE NOT NULL,
+  method text NOT NULL CHECK (length(trim(method)) > 0),
+  cost decimal(10,2) NOT NULL CHECK (cost >= 0),
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS auction_shipping_options_auction_id_idx ON auction_shipping_options(auction_id, position);
+
+ALTER TABLE auction_shipping_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Shipping options are readable with their auction"
+  ON auction_shipping_options FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM auctions
+    WHERE auctions.id = auction_id
+      AND (auctions.status != 'draft' OR auctions.seller_id = auth.uid())
+  ));
+
+CREATE POLICY "Sellers can add shipping options to their drafts"
+  ON auction_shipping_options FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM auctions
+    WHERE auctions.id = auction_id
+      AND auctions.seller_id = auth.uid()
+      AND auctions.status = 'draft'
+  ));
+
+CREATE POLICY "Sellers can remove shipping options from their drafts"
+  ON auction_shipping_options FOR DELETE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM auctions
+    WHERE auctions.id = auction_id
+      AND auctions.seller_id = auth.uid()
+      AND auctions.status = 'draft'
+  ));
+
+-- The fields a category asks for, its parents' fields included
+CREATE OR REPLACE FUNCTION category_attribute_schema(p_category_id uuid)
+RETURNS SETOF category_attributes
+LANGUAGE sql
+STABLE
+AS $$
+  WITH RECURSIVE ancestry AS (
+    SELECT id, parent_id FROM categories WHERE id = p_category_id
+    UNION
+    SELECT categories.id, categories.parent_id
+    FROM categories
+    JOIN ancestry ON categories.id = ancestry.parent_id
+  )
+  SELECT category_attributes.*
+  FROM category_attributes
+  JOIN ancestry ON ancestry.id = category_attributes.category_id
+  ORDER BY category_attributes.position, category_attributes.label;
+$$;
+
+-- Validate a listing's category fields as it leaves draft
+CREATE OR REPLACE FUNCTION check_auction_attributes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  field category_attributes%ROWTYPE;
+  field_value TEXT;
+BEGIN
+  IF OLD.status != 'draft' OR NEW.status = 'draft' OR NEW.category_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  FOR field IN SELECT * FROM category_attribute_schema(NEW.category_id) LOOP
+    field_value := NULLIF(trim(NEW.attributes->>field.key), '');
+
+    IF field_value IS NULL THEN
+      IF field.required THEN
+        RAISE EXCEPTION '% is required', field.label;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF field.type = 'number' AND field_value !~ '^-?[0-9]+(\.[0-9]+)?$' THEN
+      RAISE EXCEPTION '% must be a number', field.label;
+    END IF;
+
+    IF field.type = 'select' AND NOT field_value = ANY(field.options) THEN
+      RAISE EXCEPTION '% must be one of: %', field.label, array_to_string(field.options, ', ');
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auction_attributes_published
+  BEFORE UPDATE OF status ON auctions
+  FOR EACH ROW EXECUTE FUNCTION check_auction_attributes();
+
+-- Copy a listing with its reserve and increment tiers, keeping its duration
+CREATE OR REPLACE FUNCTION copy_auction(
+  p_source_id uuid,
+  p_status auction_status,
+  p_start_time timestamptz,
+  p_relisted_from uuid,
+  p_relist_count integer
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  source auctions%ROWTYPE;
+  new_auction_id UUID;
+BEGIN
+  -- Loaded here rather than passed in, so callers can only copy a stored listing
+  SELECT * INTO source FROM auctions WHERE id = p_source_id;
+
+  IF source IS NULL THEN
+    RAISE EXCEPTION 'Auction not found';
+  END IF;
+
+  INSERT INTO auctions (
+    seller_id, title, description, starting_price, bid_increment, start_time, end_time, status,
+    soft_close_window_minutes, soft_close_extension_minutes, soft_close_max_extension_minutes,
+    buy_now_price, buy_now_cutoff_percent, auction_type, floor_price, price_decrement,
+    decrement_interval_minutes, use_increment_tiers, quantity,
+    relisted_from, relist_count, auto_relist_limit, category_id, tags,
+    condition, pickup_location, returns_policy, attributes
+  )
+  VALUES (
+    source.seller_id, source.title, source.description, source.starting_price, source.bid_increment,
+    p_start_time, p_start_time + (source.end_time - source.start_time - make_interval(mins => source.extended_minutes)),
+    p_status,
+    source.soft_close_window_minutes, source.soft_close_extension_minutes, source.soft_close_max_extension_minutes,
+    source.buy_now_price, source.buy_now_cutoff_percent, source.auction_type, source.floor_price, source.price_decrement,
+    source.decrement_interval_minutes, source.use_increment_tiers, source.quantity,
+    p_relisted_from, p_relist_count, source.auto_relist_limit, source.category_id, source.tags,
+    source.condition, source.pickup_location, source.returns_policy, source.attributes
+  )
+  RETURNING id INTO new_auction_id;
+
+  INSERT INTO auction_reserves (auction_id, reserve_price)
+  SELECT new_auction_id, reserve_price
+  FROM auction_reserves
+  WHERE auction_id = source.id;
+
+  INSERT INTO bid_increment_tiers (auction_id, min_price, increment)
+  SELECT new_auction_id, min_price, increment
+  FROM bid_increment_tiers
+  WHERE auction_id = source.id;
+
+  INSERT INTO auction_shipping_options (auction_id, method, cost, position)
+  SELECT new_auction_id, method, cost, position
+  FROM auction_shipping_options
+  WHERE auction_id = source.id;
+
+  -- Copies share the stored files, only the rows are duplicated
+  INSERT INTO auction_images (auction_id, path, thumbnail_path, width, height, position)
+  SELECT new_auction_id, path, thumbnail_path, width, height, position
+  FROM auction_images
+  WHERE auction_id = source.id;
+
+  RETURN new_auction_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION copy_auction(uuid, auction_status, timestamptz, uuid, integer) FROM PUBLIC, anon, authenticated;
+
+-- The shipping options change the signature
+DROP FUNCTION IF EXISTS save_draft_details(uuid, numeric, jsonb, jsonb);
+
+-- Replace everything stored alongside a draft at once
+CREATE OR REPLACE FUNCTION save_draft_details(
+  p_auction_id uuid,
+  p_reserve_price numeric,
+  p_tiers jsonb,
+  p_images jsonb,
+  p_shipping_options jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM auctions
+    WHERE id = p_auction_id AND seller_id = auth.uid() AND status = 'draft'
+  ) THEN
+    RAISE EXCEPTION 'Draft not found';
+  END IF;
+
+  IF p_reserve_price IS NULL THEN
+    DELETE FROM auction_reserves WHERE auction_id = p_auction_id;
+  ELSE
+    INSERT INTO auction_reserves (auction_id, reserve_price)
+    VALUES (p_auction_id, p_reserve_price)
+    ON CONFLICT (auction_id) DO UPDATE SET reserve_price = EXCLUDED.reserve_price;
+  END IF;
+
+  DELETE FROM bid_increment_tiers WHERE auction_id = p_auction_id;
+
+  INSERT INTO bid_increment_tiers (auction_id, min_price, increment)
+  SELECT p_auction_id, tier.min_price, tier.increment
+  FROM jsonb_to_recordset(COALESCE(p_tiers, '[]')) AS tier(min_price numeric, increment numeric);
+
+  DELETE FROM auction_images WHERE auction_id = p_auction_id;
+
+  INSERT INTO auction_images (auction_id, path, thumbnail_path, width, height, position)
+  SELECT p_auction_id, image.path, image.thumbnail_path, image.width, image.height, image.position
+  FROM jsonb_to_recordset(COALESCE(p_images, '[]'))
+    AS image(path text, thumbnail_path text, width integer, height integer, position integer);
+
+  DELETE FROM auction_shipping_options WHERE auction_id = p_auction_id;
+
+  INSERT INTO auction_shipping_options (auction_id, method, cost, position)
+  SELECT p_auction_id, shipping.method, shipping.cost, shipping.position
+  FROM jsonb_to_recordset(COALESCE(p_shipping_options, '[]'))
+    AS shipping(method text, cost numeric, position integer);
+END;
+$$;
+
+-- Whether an auction passes a saved search's filters, mirrors search_auctions()
+CREATE OR REPLACE FUNCTION auction_matches_search(auction_record auctions, p_filters jsonb)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT auction_record.status != 'draft'
+    AND (
+      NULLIF(trim(p_filters->>'q'), '') IS NULL
+      OR auction_record.search_vector @@ websearch_to_tsquery('english', p_filters->>'q')
+      OR lower(trim(p_filters->>'q')) = ANY(auction_record.tags)
+    )
+    AND (
+      p_filters->>'category' IS NULL
+      OR auction_record.category_id IN (SELECT descendant_id FROM category_descendants((p_filters->>'category')::uuid))
+    )
+    AND CASE COALESCE(p_filters->>'status', 'all')
+      WHEN 'upcoming' THEN auction_record.status = 'scheduled'
+      WHEN 'active' THEN auction_record.status = 'active' AND auction_record.end_time > now()
+      WHEN 'ended' THEN auction_record.status IN ('ended', 'cancelled') OR auction_record.end_time <= now()
+      ELSE true
+    END
+    AND (
+      p_filters->>'min' IS NULL
+      OR CASE
+        WHEN auction_record.auction_type = 'dutch' AND auction_record.status = 'active' THEN dutch_current_price(auction_record)
+        WHEN auction_record.highest_bid > 0 THEN auction_record.highest_bid
+        ELSE auction_record.starting_price
+      END >= (p_filters->>'min')::numeric
+    )
+    AND (
+      p_filters->>'max' IS NULL
+      OR CASE
+        WHEN auction_record.auction_type = 'dutch' AND auction_record.status = 'active' THEN dutch_current_price(auction_record)
+        WHEN auction_record.highest_bid > 0 THEN auction_record.highest_bid
+        ELSE auction_record.starting_price
+      END <= (p_filters->>'max')::numeric
+    )
+    AND (p_filters->>'no_bids' IS NULL OR auction_record.highest_bid = 0)
+    AND (
+      p_filters->>'ending' IS NULL
+      OR (auction_record.status = 'active' AND auction_record.end_time > now() AND auction_record.end_time <= now() + interval '1 hour')
+    )
+    AND (p_filters->>'seller' IS NULL OR auction_record.seller_id = (p_filters->>'seller')::uuid)
+    AND (p_filters->>'cond' IS NULL OR auction_record.condition::text = p_filters->>'cond')
+    AND (
+      p_filters->>'ships' IS NULL
+      OR EXISTS (SELECT 1 FROM auction_shipping_options WHERE auction_shipping_options.auction_id = auction_record.id)
+    )
+    AND (p_filters->>'pickup' IS NULL OR auction_record.pickup_location IS NOT NULL)
+    -- Attribute facets are stored as `attr.<key>` next to the other filters
+    AND auction_record.attributes @> COALESCE((
+      SELECT jsonb_object_agg(substr(key, 6), value)
+      FROM jsonb_each(p_filters)
+      WHERE key LIKE 'attr.%'
+    ), '{}');
+$$;
+
+-- Structured item filters change the signature
+DROP FUNCTION IF EXISTS search_auctions(text, text, integer, integer, uuid, text, numeric, numeric, boolean, boolean, uuid, boolean);
+
+-- One page of search results, shaped like an auction row with its seller's profile
+CREATE OR REPLACE FUNCTION search_auctions(
+  p_query text DEFAULT NULL,
+  p_status text DEFAULT 'all',
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0,
+  p_category_id uuid DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_no_bids boolean DEFAULT false,
+  p_ending_soon boolean DEFAULT false,
+  p_seller_id uuid DEFAULT NULL,
+  p_watching boolean DEFAULT false,
+  p_condition text DEFAULT NULL,
+  p_ships boolean DEFAULT false,
+  p_pickup boolean DEFAULT false,
+  p_attributes jsonb DEFAULT NULL
+)
+RETURNS SETOF jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (to_jsonb(auctions) - 'search_vector') || jsonb_build_object(
+      'profiles', jsonb_build_object('full_name', profiles.full_name, 'email', profiles.email),
+      'rank', matched.rank,
+      'bid_count', listing.bid_count,
+      'cover_image', (
+        SELECT auction_images.thumbnail_path
+        FROM auction_images
+        WHERE auction_images.auction_id = auctions.id
+        ORDER BY auction_images.position
+        LIMIT 1
+      )
+    )
+  FROM auctions
+  JOIN profiles ON profiles.id = auctions.seller_id
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN NULLIF(trim(p_query), '') IS NULL THEN 0
+      ELSE ts_rank(auctions.search_vector, websearch_to_tsquery('english', p_query))
+    END AS rank
+  ) AS matched
+  -- The price buyers see now, and the bids the caller can see
+  CROSS JOIN LATERAL (
+    SELECT
+      CASE
+        WHEN auctions.auction_type = 'dutch' AND auctions.status = 'active' THEN dutch_current_price(auctions)
+        WHEN auctions.highest_bid > 0 THEN auctions.highest_bid
+        ELSE auctions.starting_price
+      END AS price,
+      (
+        SELECT count(*)
+        FROM bids
+        WHERE bids.auction_id = auctions.id
+          AND bids.retracted_at IS NULL
+      ) AS bid_count
+  ) AS listing
+  WHERE auctions.status != 'draft'
+    AND (
+      NULLIF(trim(p_query), '') IS NULL
+      OR auctions.search_vector @@ websearch_to_tsquery('english', p_query)
+      OR lower(trim(p_query)) = ANY(auctions.tags)
+    )
+    -- A category includes everything filed under its subcategories
+    AND (
+      p_category_id IS NULL
+      OR auctions.category_id IN (SELECT descendant_id FROM category_descendants(p_category_id))
+    )
+    AND CASE p_status
+      WHEN 'upcoming' THEN auctions.status = 'scheduled'
+      WHEN 'active' THEN auctions.status = 'active' AND auctions.end_time > now()
+      WHEN 'ended' THEN auctions.status IN ('ended', 'cancelled') OR auctions.end_time <= now()
+      ELSE true
+    END
+    AND (p_min_price IS NULL OR listing.price >= p_min_price)
+    AND (p_max_price IS NULL OR listing.price <= p_max_price)
+    AND (NOT p_no_bids OR listing.bid_count = 0)
+    AND (
+      NOT p_ending_soon
+      OR (auctions.status = 'active' AND auctions.end_time > now() AND auctions.end_time <= now() + interval '1 hour')
+    )
+    AND (p_seller_id IS NULL OR auctions.seller_id = p_seller_id)
+    AND (
+      NOT p_watching
+      OR EXISTS (SELECT 1 FROM watchlist WHERE watchlist.auction_id = auctions.id AND watchlist.user_id = auth.uid())
+    )
+    AND (p_condition IS NULL OR auctions.condition::text = p_condition)
+    AND (
+      NOT p_ships
+      OR EXISTS (SELECT 1 FROM auction_shipping_options WHERE auction_shipping_options.auction_id = auctions.id)
+    )
+    AND (NOT p_pickup OR auctions.pickup_location IS NOT NULL)
+    AND (p_attributes IS NULL OR auctions.attributes @> p_attributes)
+  -- Newest first breaks ties, and is the whole order for 'newest'
+  ORDER BY
+    CASE WHEN p_sort = 'ending_soon' AND auctions.end_time > now() THEN auctions.end_time END ASC,
+    CASE WHEN p_sort = 'price_asc' THEN listing.price END ASC,
+    CASE WHEN p_sort = 'price_desc' THEN listing.price END DESC,
+    CASE WHEN p_sort = 'most_bids' THEN listing.bid_count END DESC,
+    CASE WHEN p_sort = 'relevance' THEN matched.rank END DESC,
+    auctions.created_at DESC,
+    auctions.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_auctions(text, text, integer, integer, uuid, text, numeric, numeric, boolean, boolean, uuid, boolean, text, boolean, boolean, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION category_attribute_schema(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_draft_details(uuid, numeric, jsonb, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,104 @@
+/*
+  # Seller Profiles
+
+  1. Changes
+    - `profiles.avatar_path` (text) - the avatar in the `avatars` bucket
+    - `profiles.bio` (text) - a short introduction shown on the profile page
+    - `profiles.full_name` doubles as the public display name, as before
+
+  2. Storage
+    - `avatars` bucket, publicly readable. Files live under the owner's user
+      id: `<user id>/<file>`, resized in the browser like auction images.
+
+  3. Functions
+    - `seller_stats()` summarises a seller's published listings: live and
+      upcoming counts, the sell-through rate of finished auctions and their
+      average final price. Top bids the seller turned down, and counter offers
+      that were declined or expired, count as unsold. An accepted counter
+      offer is the final price of its auction.
+
+  4. Security
+    - Profiles stay readable by every signed in user, and users edit only
+      their own. An avatar must be one of the user's own files.
+    - `seller_stats()` reads decisions on the seller's behalf but only
+      returns totals
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS avatar_path text CHECK (avatar_path LIKE id::text || '/%'),
+  ADD COLUMN IF NOT EXISTS bio text CHECK (length(bio) <= 1000);
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 2097152, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Avatars are publicly readable"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users can upload their avatar"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can replace their avatar"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text)
+  WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their avatar"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Users could already update their row, now they cannot move it to another id
+DROP POLICY IF EXISTS "Users can update their own profile" ON profiles;
+CREATE POLICY "Users can update their own profile"
+  ON profiles FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id);
+
+-- A seller's track record for their public profile
+CREATE OR REPLACE FUNCTION seller_stats(p_seller_id uuid)
+RETURNS TABLE (
+  live_auctions bigint,
+  upcoming_auctions bigint,
+  finished_auctions bigint,
+  sold_auctions bigint,
+  sell_through_rate numeric,
+  average_final_price numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  WITH listings AS (
+    SELECT
+      auctions.status,
+      auctions.end_time,
+      auctions.status = 'ended'
+        AND auctions.result = 'sold'
+        AND COALESCE(auction_offers.status::text, '') NOT IN ('rejected', 'counter_declined', 'counter_expired')
+        AS is_sold,
+      CASE
+        WHEN auction_offers.status = 'counter_accepted' THEN auction_offers.counter_amount
+        ELSE auctions.highest_bid
+      END AS final_price
+    FROM auctions
+    LEFT JOIN auction_offers ON auction_offers.auction_id = auctions.id
+    WHERE auctions.seller_id = p_seller_id
+      AND auctions.status != 'draft'
+  )
+  SELECT
+    count(*) FILTER (WHERE status = 'active' AND end_time > now()),
+    count(*) FILTER (WHERE status = 'scheduled'),
+    count(*) FILTER (WHERE status = 'ended'),
+    count(*) FILTER (WHERE is_sold),
+    round(count(*) FILTER (WHERE is_sold)::numeric / NULLIF(count(*) FILTER (WHERE status = 'ended'), 0), 4),
+    round(avg(final_price) FILTER (WHERE is_sold), 2)
+  FROM listings;
+$$;
+
+GRANT EXECUTE ON FUNCTION seller_stats(uuid) TO authenticated;